@@ -13,12 +13,32 @@ echo "✅ Database cleaned!"
 echo ""
 echo "🔄 Triggering provider fetch..."
 
-# Trigger the admin fetch endpoint
+# Trigger the admin fetch endpoint (starts a job and returns its ID)
 RESPONSE=$(curl -s -X POST http://localhost:3000/api/admin/fetch \
   -H "Content-Type: application/json" \
   -H "x-admin-secret: $ADMIN_SECRET")
 
-echo "$RESPONSE" | jq '.'
+JOB_ID=$(echo "$RESPONSE" | jq -r '.jobId')
+if [ "$JOB_ID" = "null" ]; then
+  # e.g. 409 when another fetch job is already running
+  echo "❌ $(echo "$RESPONSE" | jq -r '.error')"
+  exit 1
+fi
+echo "⏳ Waiting for fetch job $JOB_ID..."
+
+# Poll the job until it completes (or stops making progress)
+while true; do
+  JOB=$(curl -s http://localhost:3000/api/admin/jobs/$JOB_ID \
+    -H "x-admin-secret: $ADMIN_SECRET")
+  STATUS=$(echo "$JOB" | jq -r '.status')
+  echo "   $STATUS ($(echo "$JOB" | jq -r '"\(.progress.succeeded + .progress.failed)/\(.progress.total) steps"'))"
+  if [ "$STATUS" = "completed" ] || [ "$STATUS" = "interrupted" ] || [ "$STATUS" = "null" ]; then
+    break
+  fi
+  sleep 2
+done
+
+echo "$JOB" | jq '.result'
 
 echo ""
 echo "✅ Fetch completed!"
@@ -0,0 +1,25 @@
+import { Effect } from "effect"
+import { recordApiRequest } from "@/lib/metrics/definitions"
+
+/**
+ * Wrap a route handler to record its latency in api_request_duration_seconds
+ *
+ * route is the route pattern (e.g. /api/tokens/[symbol]). A handler that throws is recorded
+ * with status 500, like the response Next.js sends for it.
+ */
+export function withRequestMetrics<Context extends unknown[], R extends Response>(
+  route: string,
+  handler: (request: Request, ...context: Context) => Promise<R>
+) {
+  return async (request: Request, ...context: Context): Promise<R> => {
+    const startedAt = performance.now()
+    let status = 500
+    try {
+      const response = await handler(request, ...context)
+      status = response.status
+      return response
+    } finally {
+      Effect.runSync(recordApiRequest(route, request.method, status, performance.now() - startedAt))
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive } from "@/lib/api"
+
+/**
+ * Dry runs for the fetch routes (?dryRun=true)
+ * Providers are fetched and normalized during the request and the diff against the stored
+ * data is returned (200). No job is created and nothing is written.
+ */
+export async function dryRunResponse(providerNames: ReadonlyArray<string> | "all", route: string) {
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.dryRunFetch(providerNames)
+  }).pipe(
+    // Provider failures are reported per provider in the results
+    Effect.catchTag("UnknownProviderError", (error) => {
+      console.error(`[API ${route}] Dry run failed:`, error)
+      return Effect.succeed(error)
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return NextResponse.json(
+      {
+        error: `Unknown provider(s): ${result.providers.join(", ") || "(none given)"}`,
+        available: result.available,
+      },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(result)
+}
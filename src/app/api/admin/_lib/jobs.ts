@@ -0,0 +1,97 @@
+import { after, NextResponse } from "next/server"
+import { Effect } from "effect"
+import {
+  AdminApiService,
+  AdminApiServicesLive,
+  describeFetchInProgress,
+  type FetchInProgressError,
+} from "@/lib/api"
+import { revalidateDataPages, type AdminTrigger } from "./request"
+
+/**
+ * Shared helpers for routes that start or resume fetch jobs
+ */
+
+/**
+ * Run a fetch job after the response has been sent
+ * Pages are revalidated once the job completes, then the subscription deliveries it
+ * recorded are sent. If the function is cut off first, the job shows as interrupted and
+ * can be resumed with POST /api/admin/jobs/[id]; unsent deliveries wait for the next run.
+ */
+export function runFetchJobAfterResponse(jobId: number, route: string) {
+  after(async () => {
+    const program = Effect.gen(function* () {
+      const adminApi = yield* AdminApiService
+      return yield* adminApi.runFetchJob(jobId)
+    }).pipe(Effect.provide(AdminApiServicesLive), Effect.scoped)
+
+    try {
+      await Effect.runPromise(program)
+      revalidateDataPages(route)
+    } catch (error) {
+      console.error(`[API ${route}] Fetch job ${jobId} failed:`, error)
+    }
+
+    // The job has released its locks by now
+    await sendSubscriptionDeliveries()
+  })
+}
+
+/**
+ * Send pending subscription deliveries after the response has been sent
+ */
+export function sendSubscriptionDeliveriesAfterResponse() {
+  after(sendSubscriptionDeliveries)
+}
+
+async function sendSubscriptionDeliveries() {
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.sendSubscriptionDeliveries
+  }).pipe(Effect.provide(AdminApiServicesLive), Effect.scoped)
+
+  // Never fails, but building the services can
+  await Effect.runPromise(program).catch((error) =>
+    console.error("[API] Sending subscription deliveries failed:", error)
+  )
+}
+
+/**
+ * 202 response pointing at the job's status endpoint
+ */
+export function jobAcceptedResponse(
+  jobId: number,
+  triggeredBy: AdminTrigger,
+  details: Record<string, unknown> = {}
+) {
+  return NextResponse.json(
+    {
+      jobId,
+      status: "pending",
+      statusUrl: `/api/admin/jobs/${jobId}`,
+      logsUrl: `/api/admin/jobs/${jobId}/logs`,
+      triggeredBy,
+      ...details,
+    },
+    { status: 202 }
+  )
+}
+
+/**
+ * 409 response naming the fetch job that is already running (or queued)
+ */
+export function fetchInProgressResponse(error: FetchInProgressError) {
+  return NextResponse.json(
+    {
+      error: describeFetchInProgress(error),
+      runningJob: {
+        jobId: error.jobId,
+        status: error.status,
+        startedAt: error.startedAt,
+        providers: error.providers,
+        statusUrl: error.jobId === null ? null : `/api/admin/jobs/${error.jobId}`,
+      },
+    },
+    { status: 409 }
+  )
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive, type FetchInProgressError } from "@/lib/api"
+import { authorizeAdminRequest, revalidateDataPages } from "./request"
+import { fetchInProgressResponse, sendSubscriptionDeliveriesAfterResponse } from "./jobs"
+
+/**
+ * Shared handler for approving and rejecting quarantined snapshots
+ * (POST /api/admin/quarantine/[id]/approve, POST /api/admin/quarantine/[id]/reject)
+ *
+ * - 200 with the reviewed snapshot (and, when approved, the stored fetch and its diff)
+ * - 404 if there is no such snapshot
+ * - 409 if it was already reviewed or superseded, or its provider is being fetched
+ */
+export async function reviewQuarantinedFetch(
+  request: Request,
+  params: Promise<{ id: string }>,
+  action: "approve" | "reject"
+) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const quarantineId = parseInt(id)
+  if (isNaN(quarantineId)) {
+    return NextResponse.json({ error: "Invalid quarantine ID" }, { status: 400 })
+  }
+
+  const route = `/admin/quarantine/${quarantineId}/${action}`
+
+  type ErrorResponse =
+    | { _tag: "notFound" }
+    | { _tag: "notPending"; status: string }
+    | { _tag: "inProgress"; error: FetchInProgressError }
+    | { _tag: "error"; message: string }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return action === "approve"
+      ? yield* adminApi.approveQuarantinedFetch(quarantineId, auth.triggeredBy)
+      : { quarantine: yield* adminApi.rejectQuarantinedFetch(quarantineId, auth.triggeredBy) }
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error(`[API ${route}]`, error)
+
+      switch (error._tag) {
+        case "QuarantineNotFoundError":
+          return Effect.succeed({ _tag: "notFound" as const })
+        case "QuarantineNotPendingError":
+          return Effect.succeed({ _tag: "notPending" as const, status: error.status })
+        case "FetchInProgressError":
+          return Effect.succeed({ _tag: "inProgress" as const, error })
+        default:
+          return Effect.succeed({
+            _tag: "error" as const,
+            message: error._tag === "AdminApiError" ? error.message : `Failed to ${action} quarantined fetch`,
+          })
+      }
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    switch (result._tag) {
+      case "notFound":
+        return NextResponse.json({ error: "Quarantined fetch not found" }, { status: 404 })
+      case "notPending":
+        return NextResponse.json(
+          { error: `Quarantined fetch ${quarantineId} is already ${result.status}` },
+          { status: 409 }
+        )
+      case "inProgress":
+        return fetchInProgressResponse(result.error)
+      default:
+        return NextResponse.json({ error: result.message }, { status: 500 })
+    }
+  }
+
+  if (action === "approve") {
+    revalidateDataPages(route)
+    sendSubscriptionDeliveriesAfterResponse()
+  }
+
+  return NextResponse.json(result)
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { revalidatePath } from "next/cache"
+
+/**
+ * Shared helpers for admin API routes
+ */
+
+export type AdminTrigger = "manual" | "vercel-cron"
+
+/**
+ * Check admin authentication - supports both manual trigger and Vercel Cron
+ *
+ * - Manual: x-admin-secret header matching ADMIN_SECRET env var
+ * - Vercel Cron: Authorization: Bearer CRON_SECRET
+ *
+ * Returns who triggered the request, or an error response to return as-is
+ */
+export function authorizeAdminRequest(
+  request: Request
+): { triggeredBy: AdminTrigger } | { response: NextResponse } {
+  const adminSecret = request.headers.get("x-admin-secret")
+  const authHeader = request.headers.get("authorization")
+  const expectedSecret = process.env.ADMIN_SECRET
+  const cronSecret = process.env.CRON_SECRET
+
+  // Manual trigger authentication
+  const isValidAdminAuth = expectedSecret && adminSecret === expectedSecret
+
+  // Vercel Cron authentication
+  const isValidCronAuth = cronSecret && authHeader === `Bearer ${cronSecret}`
+
+  if (!isValidAdminAuth && !isValidCronAuth) {
+    if (!expectedSecret && !cronSecret) {
+      return {
+        response: NextResponse.json({ error: "Admin secret not configured" }, { status: 500 }),
+      }
+    }
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  return { triggeredBy: isValidCronAuth ? "vercel-cron" : "manual" }
+}
+
+/**
+ * Revalidate all static pages that depend on token/chain/provider data
+ * This ensures the UI reflects newly fetched data
+ */
+export function revalidateDataPages(route: string) {
+  console.log(`[API ${route}] Revalidating static pages...`)
+  revalidatePath("/", "layout") // Revalidate home page and all nested routes
+  revalidatePath("/chains")
+  revalidatePath("/providers")
+  revalidatePath("/tokens")
+  console.log(`[API ${route}] Revalidation complete`)
+}
@@ -0,0 +1,30 @@
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../_lib/request"
+import { withRequestMetrics } from "../../_lib/metrics"
+
+/**
+ * GET /api/admin/alerts
+ * Lists the alert webhook targets configured in ALERT_WEBHOOKS, with their filters
+ * URLs and secrets are left out: only the host and whether deliveries are signed.
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+async function handleGet(request: Request) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return adminApi.listAlertTargets
+  }).pipe(Effect.provide(AdminApiServicesLive), Effect.scoped)
+
+  const targets = await Effect.runPromise(program)
+
+  return NextResponse.json({ targets })
+}
+
+export const GET = withRequestMetrics("/api/admin/alerts", handleGet)
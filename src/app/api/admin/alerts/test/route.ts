@@ -0,0 +1,53 @@
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../../_lib/request"
+import { withRequestMetrics } from "../../../_lib/metrics"
+
+/**
+ * POST /api/admin/alerts/test
+ * Sends a test alert (a sample provider failure, marked as a test) to the alert webhook
+ * targets, ignoring their filters, and returns each delivery's outcome
+ *
+ * Query parameters:
+ * - target: only this target (its name)
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+
+type ErrorResponse = { _tag: "notFound"; available: ReadonlyArray<string> }
+
+async function handlePost(request: Request) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const target = new URL(request.url).searchParams.get("target") ?? undefined
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.sendTestAlert(target)
+  }).pipe(
+    Effect.catchTag(
+      "AlertTargetNotFoundError",
+      (error): Effect.Effect<ErrorResponse, never> =>
+        Effect.succeed({ _tag: "notFound" as const, available: error.available })
+    ),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return NextResponse.json(
+      { error: `Unknown alert target: ${target}`, available: result.available },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ deliveries: result })
+}
+
+export const POST = withRequestMetrics("/api/admin/alerts/test", handlePost)
@@ -0,0 +1,101 @@
+import { Effect } from "effect"
+import {
+  AdminApiService,
+  AdminApiServicesLive,
+  parseProviderList,
+  type FetchInProgressError,
+} from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../../_lib/request"
+import { fetchInProgressResponse, jobAcceptedResponse, runFetchJobAfterResponse } from "../../_lib/jobs"
+import { dryRunResponse } from "../../_lib/dry-run"
+import { withRequestMetrics } from "../../../_lib/metrics"
+
+/**
+ * POST/GET /api/admin/fetch/[provider]
+ * Starts a fetch job for a single provider or a comma-separated subset (e.g. /api/admin/fetch/lifi,relay)
+ *
+ * Query parameters:
+ * - enrich=true: Enrich only the chains the fetched providers touched
+ * - dryRun=true: Return what storing would change instead of starting a job (see /api/admin/fetch)
+ *
+ * Authentication, the 202 job response and the 409 for a conflicting fetch match /api/admin/fetch.
+ * Fetches of disjoint provider subsets may run at the same time.
+ */
+
+async function handleFetch(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { provider } = await params
+  const { searchParams } = new URL(request.url)
+  const providerNames = parseProviderList(decodeURIComponent(provider))
+  const enrichChains = searchParams.get("enrich") === "true"
+
+  if (searchParams.get("dryRun") === "true") {
+    return dryRunResponse(providerNames, `/admin/fetch/${provider}`)
+  }
+
+  type ErrorResponse =
+    | { _tag: "unknownProvider"; providers: ReadonlyArray<string>; available: ReadonlyArray<string> }
+    | { _tag: "inProgress"; error: FetchInProgressError }
+    | { _tag: "error"; message: string }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.createFetchJob(providerNames, {
+      trigger: auth.triggeredBy,
+      enrichChains,
+    })
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error(`[API /admin/fetch/${provider}]`, error)
+
+      if (error._tag === "UnknownProviderError") {
+        return Effect.succeed({
+          _tag: "unknownProvider" as const,
+          providers: error.providers,
+          available: error.available,
+        })
+      }
+
+      if (error._tag === "FetchInProgressError") {
+        return Effect.succeed({ _tag: "inProgress" as const, error })
+      }
+
+      return Effect.succeed({ _tag: "error" as const, message: "Failed to create fetch job" })
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if (typeof result !== "number") {
+    if (result._tag === "unknownProvider") {
+      return NextResponse.json(
+        {
+          error: `Unknown provider(s): ${result.providers.join(", ") || "(none given)"}`,
+          available: result.available,
+        },
+        { status: 404 }
+      )
+    }
+    if (result._tag === "inProgress") {
+      return fetchInProgressResponse(result.error)
+    }
+    return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  runFetchJobAfterResponse(result, `/admin/fetch/${provider}`)
+
+  return jobAcceptedResponse(result, auth.triggeredBy)
+}
+
+export const POST = withRequestMetrics("/api/admin/fetch/[provider]", handleFetch)
+export const GET = withRequestMetrics("/api/admin/fetch/[provider]", handleFetch)
@@ -1,11 +1,18 @@
 import { Effect } from "effect"
-import { AdminApiService, AdminApiServicesLive } from "@/lib/api"
+import { AdminApiService, AdminApiServicesLive, type FetchInProgressError } from "@/lib/api"
 import { NextResponse } from "next/server"
-import { revalidatePath } from "next/cache"
+import { authorizeAdminRequest } from "../_lib/request"
+import { fetchInProgressResponse, jobAcceptedResponse, runFetchJobAfterResponse } from "../_lib/jobs"
+import { dryRunResponse } from "../_lib/dry-run"
+import { withRequestMetrics } from "../../_lib/metrics"
 
 /**
  * POST/GET /api/admin/fetch
- * Triggers the provider fetch job
+ * Starts a fetch job for all providers (followed by chain enrichment)
+ *
+ * Query parameters:
+ * - dryRun=true: Fetch and normalize every provider during the request and return what
+ *   storing would change (200), without creating a job or writing anything
  *
  * Authentication:
  * - POST: Requires x-admin-secret header matching ADMIN_SECRET env var
@@ -13,41 +20,41 @@ import { revalidatePath } from "next/cache"
  *
  * Effect-based implementation:
  * 1. Validate authentication
- * 2. Use AdminApiService to trigger fetch
- * 3. Run Effect program and return results
- * 4. Revalidate static pages to reflect new data
+ * 2. Use AdminApiService to create the job
+ * 3. Respond 202 with the job ID; poll GET /api/admin/jobs/[id] for progress
+ *    (409 naming the running job if a fetch is already queued or running)
+ * 4. Run the job after the response, then revalidate static pages
  */
 
 async function handleFetch(request: Request) {
-  // Check authentication - support both manual trigger and Vercel Cron
-  const adminSecret = request.headers.get("x-admin-secret")
-  const authHeader = request.headers.get("authorization")
-  const expectedSecret = process.env.ADMIN_SECRET
-  const cronSecret = process.env.CRON_SECRET
-
-  // Manual trigger authentication
-  const isValidAdminAuth = expectedSecret && adminSecret === expectedSecret
-
-  // Vercel Cron authentication (GET requests only)
-  const isValidCronAuth = cronSecret && authHeader === `Bearer ${cronSecret}`
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
 
-  if (!isValidAdminAuth && !isValidCronAuth) {
-    if (!expectedSecret && !cronSecret) {
-      return NextResponse.json({ error: "Admin secret not configured" }, { status: 500 })
-    }
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  if (new URL(request.url).searchParams.get("dryRun") === "true") {
+    return dryRunResponse("all", "/admin/fetch")
   }
 
+  type ErrorResponse =
+    | { _tag: "inProgress"; error: FetchInProgressError }
+    | { _tag: "error"; message: string }
+
   // Build Effect program
   const program = Effect.gen(function* () {
     const adminApi = yield* AdminApiService
-    return yield* adminApi.triggerFetch
+    return yield* adminApi.createFetchJob("all", { trigger: auth.triggeredBy })
   }).pipe(
-    Effect.catchAll((error) => {
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
       console.error("[API /admin/fetch]", error)
+
+      if (error._tag === "FetchInProgressError") {
+        return Effect.succeed({ _tag: "inProgress" as const, error })
+      }
+
       return Effect.succeed({
         _tag: "error" as const,
-        message: error._tag === "AdminApiError" ? error.message : "Failed to trigger fetch",
+        message: error._tag === "AdminApiError" ? error.message : "Failed to create fetch job",
       })
     }),
     Effect.provide(AdminApiServicesLive),
@@ -56,30 +63,17 @@ async function handleFetch(request: Request) {
 
   const result = await Effect.runPromise(program)
 
-  if ("_tag" in result && result._tag === "error") {
+  if (typeof result !== "number") {
+    if (result._tag === "inProgress") {
+      return fetchInProgressResponse(result.error)
+    }
     return NextResponse.json({ error: result.message }, { status: 500 })
   }
 
-  // Revalidate all static pages that depend on token/chain/provider data
-  // This ensures the UI reflects the newly fetched data
-  console.log("[API /admin/fetch] Revalidating static pages...")
-  revalidatePath("/", "layout") // Revalidate home page and all nested routes
-  revalidatePath("/chains")
-  revalidatePath("/providers")
-  revalidatePath("/tokens")
-  console.log("[API /admin/fetch] Revalidation complete")
+  runFetchJobAfterResponse(result, "/admin/fetch")
 
-  return NextResponse.json({
-    ...result,
-    triggeredBy: isValidCronAuth ? "vercel-cron" : "manual",
-  })
+  return jobAcceptedResponse(result, auth.triggeredBy)
 }
 
-// Export both GET and POST handlers
-export async function POST(request: Request) {
-  return handleFetch(request)
-}
-
-export async function GET(request: Request) {
-  return handleFetch(request)
-}
+export const POST = withRequestMetrics("/api/admin/fetch", handleFetch)
+export const GET = withRequestMetrics("/api/admin/fetch", handleFetch)
@@ -0,0 +1,82 @@
+import { Effect, LogLevel } from "effect"
+import { AdminApiService, AdminApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../../../_lib/request"
+import { withRequestMetrics } from "../../../../_lib/metrics"
+
+/**
+ * GET /api/admin/jobs/[id]/logs
+ * Returns the logs captured by each run of a fetch job, oldest run first
+ * A run's logs are stored when it ends, so they are null while it is still running.
+ *
+ * Query parameters:
+ * - run: only this run (its runId)
+ * - level: only entries at this level or above (debug, info, warning, error)
+ * - provider: only entries annotated with this provider
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+
+const LEVELS = [LogLevel.Debug, LogLevel.Info, LogLevel.Warning, LogLevel.Error]
+
+type ErrorResponse = { _tag: "notFound" } | { _tag: "error"; message: string }
+
+async function handleGet(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const jobId = parseInt(id)
+  if (isNaN(jobId)) {
+    return NextResponse.json({ error: "Invalid job ID" }, { status: 400 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const levelParam = searchParams.get("level")
+  const minimumLevel = LEVELS.find((level) => level._tag.toLowerCase() === levelParam?.toLowerCase())
+
+  if (levelParam && !minimumLevel) {
+    return NextResponse.json(
+      { error: `Invalid level: ${levelParam}`, available: LEVELS.map((level) => level._tag.toLowerCase()) },
+      { status: 400 }
+    )
+  }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.getFetchJobLogs(jobId, {
+      runId: searchParams.get("run") ?? undefined,
+      minimumLevel,
+      provider: searchParams.get("provider")?.toLowerCase(),
+    })
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error(`[API /admin/jobs/${jobId}/logs]`, error)
+
+      if (error._tag === "FetchJobNotFoundError") {
+        return Effect.succeed({ _tag: "notFound" as const })
+      }
+
+      return Effect.succeed({ _tag: "error" as const, message: error.message })
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return result._tag === "notFound"
+      ? NextResponse.json({ error: "Fetch job not found" }, { status: 404 })
+      : NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ jobId, runs: result })
+}
+
+export const GET = withRequestMetrics("/api/admin/jobs/[id]/logs", handleGet)
@@ -0,0 +1,126 @@
+import { Effect } from "effect"
+import {
+  AdminApiService,
+  AdminApiServicesLive,
+  type FetchInProgressError,
+  type FetchJobStatus,
+} from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../../_lib/request"
+import { fetchInProgressResponse, jobAcceptedResponse, runFetchJobAfterResponse } from "../../_lib/jobs"
+import { withRequestMetrics } from "../../../_lib/metrics"
+
+/**
+ * GET /api/admin/jobs/[id]
+ * Reports a fetch job's status and per-step progress (one step per provider, plus "enrich")
+ *
+ * POST /api/admin/jobs/[id]
+ * Resumes an interrupted job: steps that finished are kept, the rest run again.
+ * Returns 409 if the job has already completed, is still running, or another running job
+ * fetches some of the same providers.
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+
+type ErrorResponse =
+  | { _tag: "notFound" }
+  | { _tag: "inProgress"; error: FetchInProgressError }
+  | { _tag: "error"; message: string }
+
+/**
+ * Load the job, or (to resume it) check that it can run now
+ */
+const loadJob = (jobId: number, mode: "status" | "resume") =>
+  Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* mode === "resume"
+      ? adminApi.checkFetchJobResumable(jobId)
+      : adminApi.getFetchJob(jobId)
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error(`[API /admin/jobs/${jobId}]`, error)
+
+      if (error._tag === "FetchJobNotFoundError") {
+        return Effect.succeed({ _tag: "notFound" as const })
+      }
+
+      if (error._tag === "FetchInProgressError") {
+        return Effect.succeed({ _tag: "inProgress" as const, error })
+      }
+
+      return Effect.succeed({ _tag: "error" as const, message: error.message })
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+const errorResponse = (error: ErrorResponse) =>
+  error._tag === "notFound"
+    ? NextResponse.json({ error: "Fetch job not found" }, { status: 404 })
+    : error._tag === "inProgress"
+      ? fetchInProgressResponse(error.error)
+      : NextResponse.json({ error: error.message }, { status: 500 })
+
+const isErrorResponse = (result: FetchJobStatus | ErrorResponse): result is ErrorResponse =>
+  "_tag" in result
+
+async function parseJobId(params: Promise<{ id: string }>) {
+  const { id } = await params
+  const jobId = parseInt(id)
+  return isNaN(jobId) ? null : jobId
+}
+
+async function handleGet(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const jobId = await parseJobId(params)
+  if (jobId === null) {
+    return NextResponse.json({ error: "Invalid job ID" }, { status: 400 })
+  }
+
+  const result = await Effect.runPromise(loadJob(jobId, "status"))
+
+  if (isErrorResponse(result)) {
+    return errorResponse(result)
+  }
+
+  return NextResponse.json(result)
+}
+
+async function handlePost(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const jobId = await parseJobId(params)
+  if (jobId === null) {
+    return NextResponse.json({ error: "Invalid job ID" }, { status: 400 })
+  }
+
+  const result = await Effect.runPromise(loadJob(jobId, "resume"))
+
+  if (isErrorResponse(result)) {
+    return errorResponse(result)
+  }
+
+  if (result.status === "completed") {
+    return NextResponse.json({ error: "Fetch job already completed", job: result }, { status: 409 })
+  }
+
+  runFetchJobAfterResponse(jobId, `/admin/jobs/${jobId}`)
+
+  return jobAcceptedResponse(jobId, auth.triggeredBy)
+}
+
+export const GET = withRequestMetrics("/api/admin/jobs/[id]", handleGet)
+export const POST = withRequestMetrics("/api/admin/jobs/[id]", handlePost)
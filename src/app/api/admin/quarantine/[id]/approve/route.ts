@@ -0,0 +1,18 @@
+import { reviewQuarantinedFetch } from "../../../_lib/quarantine"
+import { withRequestMetrics } from "../../../../_lib/metrics"
+
+/**
+ * POST /api/admin/quarantine/[id]/approve
+ * Stores a quarantined snapshot as the provider's current data, bypassing the anomaly guard,
+ * then revalidates the data pages.
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+async function handlePost(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return reviewQuarantinedFetch(request, params, "approve")
+}
+
+export const POST = withRequestMetrics("/api/admin/quarantine/[id]/approve", handlePost)
@@ -0,0 +1,17 @@
+import { reviewQuarantinedFetch } from "../../../_lib/quarantine"
+import { withRequestMetrics } from "../../../../_lib/metrics"
+
+/**
+ * POST /api/admin/quarantine/[id]/reject
+ * Discards a quarantined snapshot; the provider's stored data is left as it is.
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+async function handlePost(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return reviewQuarantinedFetch(request, params, "reject")
+}
+
+export const POST = withRequestMetrics("/api/admin/quarantine/[id]/reject", handlePost)
@@ -0,0 +1,61 @@
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../../_lib/request"
+import { withRequestMetrics } from "../../../_lib/metrics"
+
+/**
+ * GET /api/admin/quarantine/[id]
+ * A quarantined snapshot with the sanity checks it failed. Pending snapshots include the
+ * diff approving them would apply (tokens added, removed and changed, chains added and removed).
+ *
+ * Approve or reject it with POST /api/admin/quarantine/[id]/approve or .../reject.
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+async function handleGet(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const quarantineId = parseInt(id)
+  if (isNaN(quarantineId)) {
+    return NextResponse.json({ error: "Invalid quarantine ID" }, { status: 400 })
+  }
+
+  type ErrorResponse = { _tag: "notFound" } | { _tag: "error"; message: string }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.getQuarantinedFetch(quarantineId)
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error(`[API /admin/quarantine/${quarantineId}]`, error)
+
+      if (error._tag === "QuarantineNotFoundError") {
+        return Effect.succeed({ _tag: "notFound" as const })
+      }
+
+      return Effect.succeed({ _tag: "error" as const, message: error.message })
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return result._tag === "notFound"
+      ? NextResponse.json({ error: "Quarantined fetch not found" }, { status: 404 })
+      : NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  return NextResponse.json(result)
+}
+
+export const GET = withRequestMetrics("/api/admin/quarantine/[id]", handleGet)
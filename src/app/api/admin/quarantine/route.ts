@@ -0,0 +1,57 @@
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive, type QuarantineStatus } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../_lib/request"
+import { withRequestMetrics } from "../../_lib/metrics"
+
+/**
+ * GET /api/admin/quarantine
+ * Lists the snapshots the anomaly guard refused to store, newest first
+ *
+ * Query parameters:
+ * - status: pending (default), approved, rejected, superseded, or all
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+
+const STATUSES: ReadonlyArray<QuarantineStatus> = ["pending", "approved", "rejected", "superseded"]
+
+async function handleGet(request: Request) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { searchParams } = new URL(request.url)
+  const statusParam = searchParams.get("status") ?? "pending"
+  const status = STATUSES.find((status) => status === statusParam)
+
+  if (!status && statusParam !== "all") {
+    return NextResponse.json(
+      { error: `Invalid status: ${statusParam}`, available: [...STATUSES, "all"] },
+      { status: 400 }
+    )
+  }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.listQuarantinedFetches(status)
+  }).pipe(
+    Effect.catchAll((error) => {
+      console.error("[API /admin/quarantine]", error)
+      return Effect.succeed({ _tag: "error" as const, message: error.message })
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ quarantined: result })
+}
+
+export const GET = withRequestMetrics("/api/admin/quarantine", handleGet)
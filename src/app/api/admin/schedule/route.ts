@@ -0,0 +1,92 @@
+import { Effect } from "effect"
+import { AdminApiService, AdminApiServicesLive, type FetchInProgressError } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { authorizeAdminRequest } from "../_lib/request"
+import {
+  fetchInProgressResponse,
+  jobAcceptedResponse,
+  runFetchJobAfterResponse,
+  sendSubscriptionDeliveriesAfterResponse,
+} from "../_lib/jobs"
+import { withRequestMetrics } from "../../_lib/metrics"
+
+/**
+ * POST/GET /api/admin/schedule
+ * Starts a fetch job for the providers that are due, by the same rules as pnpm scheduler:
+ * each provider has its own cadence (FETCH_CADENCE_<PROVIDER> overrides the defaults in
+ * src/lib/providers/schedule.ts), and providers backing off after failed fetches are skipped.
+ * Meant to be called often (e.g. hourly by Vercel Cron); calls with nothing due only send
+ * the subscription deliveries earlier runs left pending.
+ *
+ * Responses include every provider's scheduling decision:
+ * - 202 with the job ID when some providers were due
+ * - 200 with jobId null when none was
+ * - 409 if a fetch of a due provider is already queued or running
+ *
+ * Authentication matches /api/admin/fetch.
+ */
+
+async function handleSchedule(request: Request) {
+  const auth = authorizeAdminRequest(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  type ErrorResponse =
+    | { _tag: "inProgress"; error: FetchInProgressError }
+    | { _tag: "error"; message: string }
+
+  const program = Effect.gen(function* () {
+    const adminApi = yield* AdminApiService
+    return yield* adminApi.createScheduledFetchJob(auth.triggeredBy)
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error("[API /admin/schedule]", error)
+
+      if (error._tag === "FetchInProgressError") {
+        return Effect.succeed({ _tag: "inProgress" as const, error })
+      }
+
+      return Effect.succeed({
+        _tag: "error" as const,
+        message: error._tag === "AdminApiError" ? error.message : "Failed to create fetch job",
+      })
+    }),
+    Effect.provide(AdminApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    if (result._tag === "inProgress") {
+      return fetchInProgressResponse(result.error)
+    }
+    return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  if (result.jobId === null) {
+    sendSubscriptionDeliveriesAfterResponse()
+    return NextResponse.json({
+      jobId: null,
+      triggeredBy: auth.triggeredBy,
+      decisions: result.decisions,
+    })
+  }
+
+  runFetchJobAfterResponse(result.jobId, "/admin/schedule")
+
+  return jobAcceptedResponse(result.jobId, auth.triggeredBy, { decisions: result.decisions })
+}
+
+// Export both GET and POST handlers
+async function handlePost(request: Request) {
+  return handleSchedule(request)
+}
+
+async function handleGet(request: Request) {
+  return handleSchedule(request)
+}
+
+export const POST = withRequestMetrics("/api/admin/schedule", handlePost)
+export const GET = withRequestMetrics("/api/admin/schedule", handleGet)
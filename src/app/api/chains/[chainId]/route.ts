@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server"
 import { createDrizzleClient } from "@/lib/db/layer"
 import { chains, tokens, chainProviderSupport } from "@/lib/db/schema"
-import { eq, sql } from "drizzle-orm"
+import { eq, sql, and } from "drizzle-orm"
+import { listedTokensCondition, parseListingOptions } from "@/lib/api/listing"
+import { withRequestMetrics } from "../../_lib/metrics"
 
-export async function GET(
+async function handleGet(
   request: Request,
   { params }: { params: Promise<{ chainId: string }> }
 ) {
@@ -17,6 +19,8 @@ export async function GET(
     )
   }
 
+  const listing = parseListingOptions(new URL(request.url).searchParams)
+
   const db = createDrizzleClient()
 
   try {
@@ -64,7 +68,7 @@ export async function GET(
         tags: tokens.tags,
       })
       .from(tokens)
-      .where(eq(tokens.chainId, chainIdNum))
+      .where(and(eq(tokens.chainId, chainIdNum), listedTokensCondition(listing)))
       .orderBy(tokens.symbol)
 
     // Parse tags
@@ -113,3 +117,5 @@ export async function GET(
     )
   }
 }
+
+export const GET = withRequestMetrics("/api/chains/[chainId]", handleGet)
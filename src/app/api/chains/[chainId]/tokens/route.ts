@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server"
 import { createDrizzleClient } from "@/lib/db/layer"
 import { tokens } from "@/lib/db/schema"
-import { eq, sql } from "drizzle-orm"
+import { eq, sql, and } from "drizzle-orm"
+import {
+  listedTokensCondition,
+  listedTokensFragment,
+  parseListingOptions,
+} from "@/lib/api/listing"
+import { withRequestMetrics } from "../../../_lib/metrics"
 
-export async function GET(
+async function handleGet(
   request: Request,
   { params }: { params: Promise<{ chainId: string }> }
 ) {
@@ -21,12 +27,20 @@ export async function GET(
   const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100)
   const offset = parseInt(searchParams.get("offset") || "0")
   const symbol = searchParams.get("symbol") || undefined
+  const listing = parseListingOptions(searchParams)
 
   const db = createDrizzleClient()
 
+  // Combine filters (drizzle's .where() replaces earlier conditions)
+  const where = and(
+    eq(tokens.chainId, chainIdNum),
+    listedTokensCondition(listing),
+    symbol ? sql`${tokens.symbol} ILIKE ${`%${symbol}%`}` : undefined
+  )
+
   try {
     // Build query for aggregated tokens with canonical address
-    let dbQuery = db
+    const dbQuery = db
       .select({
         symbol: tokens.symbol,
         // Use MODE() to get the most common name, not just MIN
@@ -42,6 +56,7 @@ export async function GET(
               ) AS tag
               WHERE t2.symbol = tokens.symbol
               AND t2.chain_id = ${chainIdNum}
+              ${listedTokensFragment("t2", listing)}
             ),
             ARRAY[]::text[]
           )
@@ -65,13 +80,7 @@ export async function GET(
         `.as('instances'),
       })
       .from(tokens)
-      .where(eq(tokens.chainId, chainIdNum))
-      .$dynamic()
-
-    // Apply symbol filter if provided
-    if (symbol) {
-      dbQuery = dbQuery.where(sql`${tokens.symbol} ILIKE ${`%${symbol}%`}`)
-    }
+      .where(where)
 
     // Execute query with pagination
     const tokenList = await dbQuery
@@ -81,17 +90,12 @@ export async function GET(
       .offset(offset)
 
     // Get total count for pagination
-    let countQuery = db
+    const countQuery = db
       .select({
         count: sql<number>`COUNT(DISTINCT ${tokens.symbol})`,
       })
       .from(tokens)
-      .where(eq(tokens.chainId, chainIdNum))
-      .$dynamic()
-
-    if (symbol) {
-      countQuery = countQuery.where(sql`${tokens.symbol} ILIKE ${`%${symbol}%`}`)
-    }
+      .where(where)
 
     const totalCountResult = await countQuery
     const total = totalCountResult[0]?.count || 0
@@ -121,3 +125,5 @@ export async function GET(
     )
   }
 }
+
+export const GET = withRequestMetrics("/api/chains/[chainId]/tokens", handleGet)
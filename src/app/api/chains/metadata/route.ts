@@ -1,13 +1,14 @@
 import { Effect } from "effect"
 import { ChainApiService, ApiServicesLive } from "@/lib/api"
 import { NextResponse } from "next/server"
+import { withRequestMetrics } from "../../_lib/metrics"
 
 /**
  * GET /api/chains/metadata
  * Returns lightweight chain metadata (explorers only, no aggregations)
  * Used for building explorer URLs without expensive queries
  */
-export async function GET() {
+async function handleGet() {
   const program = Effect.gen(function* () {
     const chainApi = yield* ChainApiService
     return yield* chainApi.getChainMetadata
@@ -31,3 +32,5 @@ export async function GET() {
 
   return NextResponse.json({ chains: result })
 }
+
+export const GET = withRequestMetrics("/api/chains/metadata", handleGet)
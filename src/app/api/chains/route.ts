@@ -1,15 +1,23 @@
 import { Effect } from "effect"
 import { ChainApiService, ApiServicesLive } from "@/lib/api"
 import { NextResponse } from "next/server"
+import { parseListingOptions } from "@/lib/api/listing"
+import { withRequestMetrics } from "../_lib/metrics"
 
 /**
  * GET /api/chains
  * Returns list of all chains with provider support and token counts
+ *
+ * Query parameters:
+ * - includeDelisted=true: Count tokens providers no longer list
  */
-export async function GET() {
+async function handleGet(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const options = parseListingOptions(searchParams)
+
   const program = Effect.gen(function* () {
     const chainApi = yield* ChainApiService
-    return yield* chainApi.getChains
+    return yield* chainApi.getChains(options)
   }).pipe(
     Effect.catchAll((error) => {
       console.error("[API /chains]", error)
@@ -30,3 +38,5 @@ export async function GET() {
 
   return NextResponse.json(result)
 }
+
+export const GET = withRequestMetrics("/api/chains", handleGet)
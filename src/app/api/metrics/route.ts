@@ -0,0 +1,50 @@
+import { Effect } from "effect"
+import { ProviderApiService, ApiServicesLive } from "@/lib/api"
+import { PROMETHEUS_CONTENT_TYPE, renderPrometheusMetrics } from "@/lib/metrics/prometheus"
+import { NextResponse } from "next/server"
+import { timingSafeEqual } from "node:crypto"
+
+/**
+ * GET /api/metrics
+ * Returns the Prometheus metrics (see lib/metrics/definitions.ts) in the text format
+ *
+ * The per-provider gauges are refreshed from the database first; if that fails the scrape
+ * fails too (500), rather than serving outdated gauges.
+ *
+ * Public unless METRICS_TOKEN is set, in which case scrapers send Authorization: Bearer METRICS_TOKEN.
+ */
+const sameToken = (expected: string, actual: string) => {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export async function GET(request: Request) {
+  const token = process.env.METRICS_TOKEN
+  if (token && !sameToken(`Bearer ${token}`, request.headers.get("authorization") ?? "")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const program = Effect.gen(function* () {
+    const providerApi = yield* ProviderApiService
+    yield* providerApi.refreshProviderGauges
+    return yield* renderPrometheusMetrics
+  }).pipe(
+    Effect.catchAll((error) => {
+      console.error("[API /metrics]", error)
+      return Effect.succeed({ _tag: "error" as const, message: error.message })
+    }),
+    Effect.provide(ApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if (typeof result !== "string") {
+    return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  return new Response(result, {
+    headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE, "Cache-Control": "no-store" },
+  })
+}
@@ -0,0 +1,55 @@
+import { Effect } from "effect"
+import { ProviderApiService, ApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { withRequestMetrics } from "../../../../../_lib/metrics"
+
+/**
+ * GET /api/providers/[provider]/fetches/[fetchId]/diff
+ * Returns the diff of a fetch against the provider's previous successful fetch:
+ * tokens added/removed, chains added/removed and per-token field changes
+ */
+async function handleGet(
+  request: Request,
+  { params }: { params: Promise<{ provider: string; fetchId: string }> }
+) {
+  const { provider, fetchId: fetchIdParam } = await params
+  const fetchId = parseInt(fetchIdParam)
+
+  if (isNaN(fetchId)) {
+    return NextResponse.json({ error: "Invalid fetch ID" }, { status: 400 })
+  }
+
+  type ErrorResponse =
+    | { _tag: "notFound" }
+    | { _tag: "error"; message: string }
+
+  const program = Effect.gen(function* () {
+    const providerApi = yield* ProviderApiService
+    return yield* providerApi.getFetchDiff(provider, fetchId)
+  }).pipe(
+    Effect.catchAll((error): Effect.Effect<ErrorResponse, never> => {
+      console.error(`[API /providers/${provider}/fetches/${fetchId}/diff]`, error)
+
+      if (error._tag === "FetchDiffNotFoundError") {
+        return Effect.succeed({ _tag: "notFound" as const })
+      }
+
+      return Effect.succeed({ _tag: "error" as const, message: error.message })
+    }),
+    Effect.provide(ApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    if (result._tag === "notFound") {
+      return NextResponse.json({ error: "Fetch diff not found" }, { status: 404 })
+    }
+    return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+
+  return NextResponse.json(result)
+}
+
+export const GET = withRequestMetrics("/api/providers/[provider]/fetches/[fetchId]/diff", handleGet)
@@ -1,9 +1,18 @@
+import { Effect } from "effect"
 import { NextResponse } from "next/server"
+import { ProviderApiService, ApiServicesLive, FETCH_METRICS_LIMIT } from "@/lib/api"
+import { isStale } from "@/lib/providers/breaker"
 import { createDrizzleClient } from "@/lib/db/layer"
-import { tokens, chains } from "@/lib/db/schema"
-import { eq, sql, desc } from "drizzle-orm"
+import { tokens, chains, providerFetches, providerRejections } from "@/lib/db/schema"
+import { eq, sql, desc, and } from "drizzle-orm"
+import {
+  listedTokensCondition,
+  listedTokensFragment,
+  parseListingOptions,
+} from "@/lib/api/listing"
+import { withRequestMetrics } from "../../_lib/metrics"
 
-export async function GET(
+async function handleGet(
   request: Request,
   { params }: { params: Promise<{ provider: string }> }
 ) {
@@ -12,12 +21,22 @@ export async function GET(
   const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100)
   const offset = parseInt(searchParams.get("offset") || "0")
   const symbol = searchParams.get("symbol") || undefined
+  const listing = parseListingOptions(searchParams)
+  const rejectionSamples = Math.min(parseInt(searchParams.get("rejections") || "5"), 50)
+  const metricsLimit = Math.min(parseInt(searchParams.get("metrics") || String(FETCH_METRICS_LIMIT)), 200)
 
   const db = createDrizzleClient()
 
+  // Combine filters (drizzle's .where() replaces earlier conditions)
+  const where = and(
+    eq(tokens.providerName, provider),
+    listedTokensCondition(listing),
+    symbol ? sql`${tokens.symbol} ILIKE ${`%${symbol}%`}` : undefined
+  )
+
   try {
     // Build query for aggregated tokens grouped by symbol
-    let dbQuery = db
+    const dbQuery = db
       .select({
         symbol: tokens.symbol,
         // Use MODE() to get the most common name
@@ -33,6 +52,7 @@ export async function GET(
               ) AS tag
               WHERE t2.symbol = tokens.symbol
               AND t2.provider_name = ${provider}
+              ${listedTokensFragment("t2", listing)}
             ),
             ARRAY[]::text[]
           )
@@ -53,13 +73,7 @@ export async function GET(
       })
       .from(tokens)
       .leftJoin(chains, eq(tokens.chainId, chains.chainId))
-      .where(eq(tokens.providerName, provider))
-      .$dynamic()
-
-    // Apply symbol filter if provided
-    if (symbol) {
-      dbQuery = dbQuery.where(sql`${tokens.symbol} ILIKE ${`%${symbol}%`}`)
-    }
+      .where(where)
 
     // Execute query with pagination
     const tokenList = await dbQuery
@@ -69,17 +83,12 @@ export async function GET(
       .offset(offset)
 
     // Get total count for pagination
-    let countQuery = db
+    const countQuery = db
       .select({
         count: sql<number>`COUNT(DISTINCT ${tokens.symbol})`,
       })
       .from(tokens)
-      .where(eq(tokens.providerName, provider))
-      .$dynamic()
-
-    if (symbol) {
-      countQuery = countQuery.where(sql`${tokens.symbol} ILIKE ${`%${symbol}%`}`)
-    }
+      .where(where)
 
     const totalCountResult = await countQuery
     const total = totalCountResult[0]?.count || 0
@@ -90,10 +99,43 @@ export async function GET(
         count: sql<number>`COUNT(*)`,
       })
       .from(tokens)
-      .where(eq(tokens.providerName, provider))
+      .where(and(eq(tokens.providerName, provider), listedTokensCondition(listing)))
 
     const totalInstances = totalInstancesResult[0]?.count || 0
 
+    // Items rejected by schema validation in the latest successful fetch
+    const [latestFetch] = await db
+      .select({ id: providerFetches.id, rejectedCount: providerFetches.rejectedCount })
+      .from(providerFetches)
+      .where(and(eq(providerFetches.providerName, provider), eq(providerFetches.success, true)))
+      .orderBy(desc(providerFetches.id))
+      .limit(1)
+
+    const samples =
+      latestFetch && latestFetch.rejectedCount > 0
+        ? await db
+            .select({
+              location: providerRejections.location,
+              issues: providerRejections.issues,
+              rawData: providerRejections.rawData,
+            })
+            .from(providerRejections)
+            .where(eq(providerRejections.fetchId, latestFetch.id))
+            .orderBy(providerRejections.id)
+            .limit(rejectionSamples)
+        : []
+
+    // Open circuit: the stored tokens predate the provider's failing fetches
+    const { circuit, fetchMetrics } = await Effect.runPromise(
+      Effect.gen(function* () {
+        const providerApi = yield* ProviderApiService
+        return {
+          circuit: yield* providerApi.getProviderCircuit(provider),
+          fetchMetrics: yield* providerApi.getFetchMetrics(provider, metricsLimit),
+        }
+      }).pipe(Effect.provide(ApiServicesLive), Effect.scoped)
+    )
+
     // Parse tags and ensure proper types for each token
     const parsedTokens = tokenList.map((token) => ({
       ...token,
@@ -106,6 +148,14 @@ export async function GET(
       provider,
       totalTokens: totalInstances,
       uniqueSymbols: total,
+      circuit,
+      stale: isStale(circuit),
+      rejections: {
+        fetchId: latestFetch?.id ?? null,
+        count: latestFetch?.rejectedCount ?? 0,
+        samples,
+      },
+      fetchMetrics,
       tokens: parsedTokens,
       pagination: {
         total,
@@ -122,3 +172,5 @@ export async function GET(
     )
   }
 }
+
+export const GET = withRequestMetrics("/api/providers/[provider]", handleGet)
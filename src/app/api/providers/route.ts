@@ -1,6 +1,7 @@
 import { Effect } from "effect"
 import { ProviderApiService, ApiServicesLive } from "@/lib/api"
 import { NextResponse } from "next/server"
+import { withRequestMetrics } from "../_lib/metrics"
 
 /**
  * GET /api/providers
@@ -11,7 +12,7 @@ import { NextResponse } from "next/server"
  * 2. Handle errors in Effect domain
  * 3. Run with Effect.runPromise and convert to Next.js Response
  */
-export async function GET() {
+async function handleGet() {
   const program = Effect.gen(function* () {
     const providerApi = yield* ProviderApiService
     return yield* providerApi.getProviders
@@ -37,3 +38,5 @@ export async function GET() {
 
   return NextResponse.json(result)
 }
+
+export const GET = withRequestMetrics("/api/providers", handleGet)
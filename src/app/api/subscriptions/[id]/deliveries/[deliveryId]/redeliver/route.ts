@@ -0,0 +1,54 @@
+import { Effect } from "effect"
+import { SubscriptionApiService, SubscriptionApiServicesLive } from "@/lib/api"
+import { after, NextResponse } from "next/server"
+import { catchSubscriptionErrors, subscriptionErrorResponse, subscriptionSecret } from "../../../../_lib/request"
+import { withRequestMetrics } from "../../../../../_lib/metrics"
+
+/**
+ * POST /api/subscriptions/[id]/deliveries/[deliveryId]/redeliver
+ * Sends a delivery again with the same payload and delivery ID, retrying like the first
+ * time. Retries can take about a minute, so the delivery is sent after the response: 202
+ * with the delivery as it was, whose log gets the new attempts once they are done.
+ * 409 while the delivery is being sent.
+ *
+ * Authorization: Bearer <subscription secret>
+ */
+async function handlePost(
+  request: Request,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  const auth = subscriptionSecret(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id, deliveryId } = await params
+
+  const program = Effect.gen(function* () {
+    const subscriptionApi = yield* SubscriptionApiService
+    return yield* subscriptionApi.redeliver(id, auth.secret, deliveryId)
+  }).pipe(
+    catchSubscriptionErrors(`/subscriptions/${id}/deliveries/${deliveryId}/redeliver`),
+    Effect.provide(SubscriptionApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return subscriptionErrorResponse(result)
+  }
+
+  after(() =>
+    Effect.runPromise(
+      Effect.gen(function* () {
+        const subscriptionApi = yield* SubscriptionApiService
+        yield* subscriptionApi.sendRedelivery(deliveryId)
+      }).pipe(Effect.provide(SubscriptionApiServicesLive), Effect.scoped)
+    ).catch((error) => console.error(`[API /subscriptions/${id}/deliveries/${deliveryId}/redeliver]`, error))
+  )
+
+  return NextResponse.json(result, { status: 202 })
+}
+
+export const POST = withRequestMetrics("/api/subscriptions/[id]/deliveries/[deliveryId]/redeliver", handlePost)
@@ -0,0 +1,58 @@
+import { Effect } from "effect"
+import { SubscriptionApiService, SubscriptionApiServicesLive, type SubscriptionDeliveryStatus } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { catchSubscriptionErrors, subscriptionErrorResponse, subscriptionSecret } from "../../_lib/request"
+import { withRequestMetrics } from "../../../_lib/metrics"
+
+/**
+ * GET /api/subscriptions/[id]/deliveries
+ * Returns the subscription's latest deliveries, newest first, each with its attempt log
+ * (every request sent for it, including retries and redeliveries)
+ *
+ * Query parameters:
+ * - status: only deliveries with this status (pending, delivered, failed)
+ * - limit: at most this many (default 50, max 200)
+ *
+ * Authorization: Bearer <subscription secret>
+ */
+
+const STATUSES: ReadonlyArray<SubscriptionDeliveryStatus> = ["pending", "delivered", "failed"]
+
+async function handleGet(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = subscriptionSecret(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+  const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 200)
+  const statusParam = searchParams.get("status")
+  const status = STATUSES.find((candidate) => candidate === statusParam)
+
+  if (isNaN(limit) || limit < 1) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 })
+  }
+  if (statusParam && !status) {
+    return NextResponse.json({ error: `Invalid status: ${statusParam}`, available: STATUSES }, { status: 400 })
+  }
+
+  const program = Effect.gen(function* () {
+    const subscriptionApi = yield* SubscriptionApiService
+    return { deliveries: yield* subscriptionApi.listDeliveries(id, auth.secret, { limit, status }) }
+  }).pipe(
+    catchSubscriptionErrors(`/subscriptions/${id}/deliveries`),
+    Effect.provide(SubscriptionApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return subscriptionErrorResponse(result)
+  }
+
+  return NextResponse.json(result)
+}
+
+export const GET = withRequestMetrics("/api/subscriptions/[id]/deliveries", handleGet)
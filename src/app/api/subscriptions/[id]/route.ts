@@ -0,0 +1,73 @@
+import { Effect } from "effect"
+import { SubscriptionApiService, SubscriptionApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { catchSubscriptionErrors, subscriptionErrorResponse, subscriptionSecret } from "../_lib/request"
+import { withRequestMetrics } from "../../_lib/metrics"
+
+/**
+ * GET /api/subscriptions/[id]
+ * Returns the subscription (without its secret)
+ *
+ * Authorization: Bearer <subscription secret>
+ */
+async function handleGet(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = subscriptionSecret(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  const program = Effect.gen(function* () {
+    const subscriptionApi = yield* SubscriptionApiService
+    return yield* subscriptionApi.getSubscription(id, auth.secret)
+  }).pipe(
+    catchSubscriptionErrors(`/subscriptions/${id}`),
+    Effect.provide(SubscriptionApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return subscriptionErrorResponse(result)
+  }
+
+  return NextResponse.json(result)
+}
+
+/**
+ * DELETE /api/subscriptions/[id]
+ * Deletes the subscription and its delivery history; returns 204
+ *
+ * Authorization: Bearer <subscription secret>
+ */
+async function handleDelete(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = subscriptionSecret(request)
+  if ("response" in auth) {
+    return auth.response
+  }
+
+  const { id } = await params
+
+  const program = Effect.gen(function* () {
+    const subscriptionApi = yield* SubscriptionApiService
+    yield* subscriptionApi.deleteSubscription(id, auth.secret)
+    return { deleted: true }
+  }).pipe(
+    catchSubscriptionErrors(`/subscriptions/${id}`),
+    Effect.provide(SubscriptionApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return subscriptionErrorResponse(result)
+  }
+
+  return new Response(null, { status: 204 })
+}
+
+export const GET = withRequestMetrics("/api/subscriptions/[id]", handleGet)
+export const DELETE = withRequestMetrics("/api/subscriptions/[id]", handleDelete)
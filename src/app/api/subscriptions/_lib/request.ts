@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { Effect } from "effect"
+import type {
+  InvalidSubscriptionError,
+  SubscriptionApiError,
+  SubscriptionDeliveryInProgressError,
+  SubscriptionLimitError,
+  SubscriptionNotFoundError,
+} from "@/lib/api"
+
+/**
+ * Shared helpers for subscription API routes
+ */
+
+/**
+ * The subscription secret, sent as Authorization: Bearer <secret>
+ * Returns the secret, or an error response to return as-is
+ */
+export function subscriptionSecret(request: Request): { secret: string } | { response: NextResponse } {
+  const match = /^Bearer (.+)$/.exec(request.headers.get("authorization") ?? "")
+  if (!match) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+  return { secret: match[1] }
+}
+
+export type SubscriptionErrorResponse =
+  | { _tag: "invalid"; message: string }
+  | { _tag: "notFound" }
+  | { _tag: "limit"; message: string }
+  | { _tag: "inProgress" }
+  | { _tag: "error"; message: string }
+
+/**
+ * Map subscription API errors to a response tag, logging them
+ */
+export const catchSubscriptionErrors = (route: string) =>
+  Effect.catchAll(
+    (
+      error:
+        | InvalidSubscriptionError
+        | SubscriptionNotFoundError
+        | SubscriptionLimitError
+        | SubscriptionDeliveryInProgressError
+        | SubscriptionApiError
+    ): Effect.Effect<SubscriptionErrorResponse, never> => {
+      switch (error._tag) {
+        case "InvalidSubscriptionError":
+          return Effect.succeed({ _tag: "invalid" as const, message: error.message })
+        case "SubscriptionNotFoundError":
+          return Effect.succeed({ _tag: "notFound" as const })
+        case "SubscriptionLimitError":
+          return Effect.succeed({ _tag: "limit" as const, message: error.message })
+        case "SubscriptionDeliveryInProgressError":
+          return Effect.succeed({ _tag: "inProgress" as const })
+        case "SubscriptionApiError":
+          console.error(`[API ${route}]`, error)
+          return Effect.succeed({ _tag: "error" as const, message: error.message })
+      }
+    }
+  )
+
+/**
+ * - 400 for an invalid request body
+ * - 404 for an unknown subscription or delivery, or a wrong secret
+ * - 409 when the delivery is being sent
+ * - 429 when the subscription limit is reached
+ * - 500 otherwise
+ */
+export function subscriptionErrorResponse(result: SubscriptionErrorResponse) {
+  switch (result._tag) {
+    case "invalid":
+      return NextResponse.json({ error: result.message }, { status: 400 })
+    case "notFound":
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    case "limit":
+      return NextResponse.json({ error: result.message }, { status: 429 })
+    case "inProgress":
+      return NextResponse.json({ error: "Delivery is being sent, try again once it completes" }, { status: 409 })
+    case "error":
+      return NextResponse.json({ error: result.message }, { status: 500 })
+  }
+}
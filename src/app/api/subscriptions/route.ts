@@ -0,0 +1,39 @@
+import { Effect } from "effect"
+import { SubscriptionApiService, SubscriptionApiServicesLive } from "@/lib/api"
+import { NextResponse } from "next/server"
+import { catchSubscriptionErrors, subscriptionErrorResponse } from "./_lib/request"
+import { withRequestMetrics } from "../_lib/metrics"
+
+/**
+ * POST /api/subscriptions
+ * Registers a webhook subscription: after each stored fetch, the token and chain changes
+ * matching its filters are POSTed to callbackUrl, signed with the returned secret.
+ *
+ * Body:
+ * - callbackUrl: https URL (http is accepted when SUBSCRIPTION_ALLOW_HTTP=true)
+ * - filters (optional): events, symbols, chainIds, providers, addresses
+ *
+ * Returns 201 with the subscription and its secret, which is not shown again.
+ */
+async function handlePost(request: Request) {
+  const body: unknown = await request.json().catch(() => undefined)
+
+  const program = Effect.gen(function* () {
+    const subscriptionApi = yield* SubscriptionApiService
+    return yield* subscriptionApi.createSubscription(body)
+  }).pipe(
+    catchSubscriptionErrors("/subscriptions"),
+    Effect.provide(SubscriptionApiServicesLive),
+    Effect.scoped
+  )
+
+  const result = await Effect.runPromise(program)
+
+  if ("_tag" in result) {
+    return subscriptionErrorResponse(result)
+  }
+
+  return NextResponse.json(result, { status: 201 })
+}
+
+export const POST = withRequestMetrics("/api/subscriptions", handlePost)
@@ -1,16 +1,29 @@
 import { Effect } from "effect"
 import { TokenApiService, ApiServicesLive } from "@/lib/api"
 import { NextResponse } from "next/server"
+import { parseListingOptions } from "@/lib/api/listing"
+import { withRequestMetrics } from "../../_lib/metrics"
 
 /**
  * GET /api/tokens/[symbol]
  * Returns detailed information for a specific token symbol
+ * Delisted instances are excluded unless includeDelisted=true
+ * asOf=<ISO timestamp> reconstructs the instances as they were at that time
  */
-export async function GET(
+async function handleGet(
   request: Request,
   { params }: { params: Promise<{ symbol: string }> }
 ) {
   const { symbol } = await params
+  const { searchParams } = new URL(request.url)
+  const asOfParam = searchParams.get("asOf")
+  const asOf = asOfParam ? new Date(asOfParam) : undefined
+
+  if (asOf && isNaN(asOf.getTime())) {
+    return NextResponse.json({ error: "Invalid asOf timestamp" }, { status: 400 })
+  }
+
+  const options = { ...parseListingOptions(searchParams), asOf }
 
   type ErrorResponse =
     | { _tag: "notFound"; symbol: string }
@@ -18,7 +31,7 @@ export async function GET(
 
   const program = Effect.gen(function* () {
     const tokenApi = yield* TokenApiService
-    return yield* tokenApi.getTokenBySymbol(symbol)
+    return yield* tokenApi.getTokenBySymbol(symbol, options)
   }).pipe(
     Effect.catchAll((error: any): Effect.Effect<ErrorResponse, never> => {
       console.error("[API /tokens/:symbol]", error)
@@ -54,3 +67,5 @@ export async function GET(
 
   return NextResponse.json(result)
 }
+
+export const GET = withRequestMetrics("/api/tokens/[symbol]", handleGet)
@@ -1,12 +1,16 @@
 import { Effect } from "effect"
 import { TokenApiService, ApiServicesLive, TokenListQuery } from "@/lib/api"
 import { NextResponse } from "next/server"
+import { parseListingOptions } from "@/lib/api/listing"
+import { withRequestMetrics } from "../_lib/metrics"
 
 /**
  * GET /api/tokens
  * Returns aggregated list of tokens grouped by symbol
+ * Delisted tokens are excluded unless includeDelisted=true
+ * asOf=<ISO timestamp> reconstructs the list as it was at that time
  */
-export async function GET(request: Request) {
+async function handleGet(request: Request) {
   const { searchParams } = new URL(request.url)
   const limit = Math.min(parseInt(searchParams.get("limit") || "100"), 1000)
   const offset = parseInt(searchParams.get("offset") || "0")
@@ -14,8 +18,15 @@ export async function GET(request: Request) {
   const tag = searchParams.get("tag") || undefined
   const chainIdParam = searchParams.get("chainId")
   const chainId = chainIdParam ? parseInt(chainIdParam) : undefined
+  const { includeDelisted } = parseListingOptions(searchParams)
+  const asOfParam = searchParams.get("asOf")
+  const asOf = asOfParam ? new Date(asOfParam) : undefined
 
-  const query = new TokenListQuery({ limit, offset, symbol, tag, chainId })
+  if (asOf && isNaN(asOf.getTime())) {
+    return NextResponse.json({ error: "Invalid asOf timestamp" }, { status: 400 })
+  }
+
+  const query = new TokenListQuery({ limit, offset, symbol, tag, chainId, includeDelisted, asOf })
 
   const program = Effect.gen(function* () {
     const tokenApi = yield* TokenApiService
@@ -40,3 +51,5 @@ export async function GET(request: Request) {
 
   return NextResponse.json(result)
 }
+
+export const GET = withRequestMetrics("/api/tokens", handleGet)
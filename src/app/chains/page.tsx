@@ -10,7 +10,7 @@ export const revalidate = 300
 async function getChains() {
   const program = Effect.gen(function* () {
     const chainApi = yield* ChainApiService
-    return yield* chainApi.getChains
+    return yield* chainApi.getChains()
   }).pipe(Effect.provide(ApiServicesLive), Effect.scoped)
 
   return await Effect.runPromise(program)
@@ -21,7 +21,7 @@ async function getProviders() {
 async function getChains() {
   const program = Effect.gen(function* () {
     const chainApi = yield* ChainApiService
-    return yield* chainApi.getChains
+    return yield* chainApi.getChains()
   }).pipe(Effect.provide(ApiServicesLive), Effect.scoped)
 
   return await Effect.runPromise(program)
@@ -69,6 +69,14 @@ export default async function Home() {
                       {providersData.summary.healthy}
                     </span>
                   </div>
+                  {providersData.summary.degraded > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Degraded</span>
+                      <span className="text-lg font-semibold text-amber-600 dark:text-amber-400">
+                        {providersData.summary.degraded}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="pt-2 border-t">
@@ -76,10 +84,14 @@ export default async function Home() {
                     {providersData.providers.slice(0, 6).map((provider) => (
                       <Badge
                         key={provider.name}
-                        variant={provider.status === "healthy" ? "secondary" : "destructive"}
-                        className="text-xs"
+                        variant={provider.status === "error" ? "destructive" : "secondary"}
+                        className={
+                          provider.status === "degraded"
+                            ? "text-xs bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+                            : "text-xs"
+                        }
                       >
-                        {provider.name}
+                        {provider.displayName}
                       </Badge>
                     ))}
                     {providersData.providers.length > 6 && (
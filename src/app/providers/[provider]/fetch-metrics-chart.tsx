@@ -0,0 +1,76 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { FetchMetricsPoint } from "@/lib/api"
+import { formatBytes } from "@/lib/providers/metrics"
+
+// Stages in pipeline order, with their bar colors
+const STAGES = [
+  { key: "httpMs", label: "HTTP", className: "bg-blue-500" },
+  { key: "decodeMs", label: "Decode", className: "bg-purple-500" },
+  { key: "normalizeMs", label: "Normalize", className: "bg-amber-500" },
+  { key: "storageMs", label: "Storage", className: "bg-green-500" },
+] as const
+
+const average = (points: ReadonlyArray<FetchMetricsPoint>, key: (typeof STAGES)[number]["key"]) =>
+  Math.round(points.reduce((sum, point) => sum + point[key], 0) / points.length)
+
+/**
+ * Stage timings of the provider's latest fetches, one stacked bar per fetch
+ * Bars share a scale (the slowest fetch), so a slow stage stands out across fetches.
+ */
+export function FetchMetricsChart({ points }: { points: ReadonlyArray<FetchMetricsPoint> }) {
+  if (points.length === 0) {
+    return null
+  }
+
+  const maxMs = Math.max(1, ...points.map((point) => point.totalMs))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fetch Timings</CardTitle>
+        <CardDescription>
+          Time per stage for the latest {points.length} fetches. Averages:{" "}
+          {STAGES.map((stage) => `${stage.label.toLowerCase()} ${average(points, stage.key)}ms`).join(", ")}
+        </CardDescription>
+        <div className="flex flex-wrap gap-4 pt-2 text-xs text-muted-foreground">
+          {STAGES.map((stage) => (
+            <span key={stage.key} className="inline-flex items-center gap-1.5">
+              <span className={`h-2.5 w-2.5 rounded-sm ${stage.className}`} />
+              {stage.label}
+            </span>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-1.5">
+        {points.map((point) => (
+          <div key={point.fetchId} className="grid grid-cols-[9rem_1fr_14rem] items-center gap-3 text-xs">
+            <div className="truncate text-muted-foreground" title={new Date(point.fetchedAt).toLocaleString()}>
+              #{point.fetchId} · {new Date(point.fetchedAt).toLocaleDateString()}
+            </div>
+            <div className="flex h-3 overflow-hidden rounded-sm bg-muted">
+              {STAGES.map((stage) =>
+                point[stage.key] > 0 ? (
+                  <div
+                    key={stage.key}
+                    className={stage.className}
+                    style={{ width: `${(point[stage.key] / maxMs) * 100}%` }}
+                    title={`${stage.label}: ${point[stage.key]}ms`}
+                  />
+                ) : null
+              )}
+            </div>
+            <div className="text-right font-mono text-muted-foreground">
+              {!point.success ? (
+                <span className="text-red-600 dark:text-red-400">failed </span>
+              ) : point.notModified ? (
+                <span>not modified </span>
+              ) : null}
+              {point.totalMs}ms · {formatBytes(point.bytes)} · {point.requests} req
+              {point.retries > 0 ? ` (${point.retries} retries)` : ""}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
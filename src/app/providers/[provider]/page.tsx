@@ -4,7 +4,7 @@ import { Effect } from "effect"
 import { ProviderApiService, ApiServicesLive, type ProviderMetadata } from "@/lib/api"
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ProviderTokenList } from "./token-list"
-import { getProviderInfo } from "@/lib/providers/metadata"
+import { FetchMetricsChart } from "./fetch-metrics-chart"
 import { ExternalLink } from "lucide-react"
 
 // Revalidate every 5 minutes as a fallback (in case manual revalidation fails)
@@ -32,7 +32,7 @@ export default async function ProviderDetailPage({
 }) {
   const { provider } = await params
   const data = await getProviderMetadata(provider)
-  const providerInfo = getProviderInfo(provider)
+  const providerInfo = data.info
 
   return (
     <div className="min-h-screen pt-8 pb-20 px-8 sm:px-20">
@@ -114,6 +114,9 @@ export default async function ProviderDetailPage({
           </Card>
         </div>
 
+        {/* Stage timings of the latest fetches */}
+        <FetchMetricsChart points={data.fetchMetrics} />
+
         {/* Tokens List - Using reusable component */}
         <ProviderTokenList provider={provider} />
       </main>
@@ -1,14 +1,48 @@
 import { Effect } from "effect"
 import Link from "next/link"
-import { ProviderApiService, ApiServicesLive } from "@/lib/api"
+import { ProviderApiService, ApiServicesLive, type ProviderStatus } from "@/lib/api"
+import type { CircuitState, ProviderCircuit } from "@/lib/providers/breaker"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
 import { ArrowRight } from "lucide-react"
 
 // Revalidate every 5 minutes as a fallback (in case manual revalidation fails)
 export const revalidate = 300
 
 
+const STATUS_BADGES: Record<ProviderStatus, { label: string; className: string }> = {
+  healthy: {
+    label: "Healthy",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  },
+  degraded: {
+    label: "Degraded",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  },
+  error: {
+    label: "Error",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  },
+}
+
+// Closed circuits get no badge
+const CIRCUIT_BADGES: Record<Exclude<CircuitState, "closed">, { label: string; className: string }> = {
+  open: {
+    label: "Circuit open",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  },
+  "half-open": {
+    label: "Half-open",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  },
+}
+
+const describeCircuit = (circuit: ProviderCircuit) =>
+  circuit.state === "open"
+    ? `${circuit.consecutiveFailures} consecutive failures, next attempt after ${new Date(circuit.retryAt!).toLocaleString()}`
+    : `${circuit.consecutiveFailures} consecutive failures, the next fetch is a probe`
+
 async function getProviders() {
   const program = Effect.gen(function* () {
     const providerApi = yield* ProviderApiService
@@ -44,6 +78,7 @@ export default async function ProvidersPage() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Provider</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead className="text-right">Chains</TableHead>
                   <TableHead className="text-right">Tokens</TableHead>
                   <TableHead className="text-right">Fetches</TableHead>
@@ -54,11 +89,31 @@ export default async function ProvidersPage() {
               <TableBody>
                 {data.providers.map((provider) => (
                   <TableRow key={provider.name} className="hover:bg-muted/50">
-                    <TableCell className="font-medium capitalize">
+                    <TableCell className="font-medium">
                       <Link href={`/providers/${provider.name}`} className="hover:text-primary">
-                        {provider.name}
+                        {provider.displayName}
                       </Link>
                     </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge
+                          variant="outline"
+                          className={`border-transparent ${STATUS_BADGES[provider.status].className}`}
+                          title={provider.lastFetch.error ?? undefined}
+                        >
+                          {STATUS_BADGES[provider.status].label}
+                        </Badge>
+                        {provider.circuit.state !== "closed" && (
+                          <Badge
+                            variant="outline"
+                            className={`border-transparent ${CIRCUIT_BADGES[provider.circuit.state].className}`}
+                            title={describeCircuit(provider.circuit)}
+                          >
+                            {CIRCUIT_BADGES[provider.circuit.state].label}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-right font-mono">
                       {provider.lastFetch.chainsCount ?? "—"}
                     </TableCell>
@@ -84,6 +139,11 @@ export default async function ProvidersPage() {
                         hour: "2-digit",
                         minute: "2-digit"
                       })}
+                      {provider.stale && (
+                        <div className="text-xs text-amber-600 dark:text-amber-400">
+                          Data may be stale
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Link
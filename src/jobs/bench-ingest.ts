@@ -0,0 +1,164 @@
+import { Duration, Effect } from "effect"
+import { config } from "dotenv"
+import { parseArgs } from "node:util"
+import { randomUUID } from "node:crypto"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { eq, sql } from "drizzle-orm"
+import { DatabaseLive } from "../lib/db/layer"
+import * as db from "../lib/db/schema"
+import { stageTokens } from "../lib/providers/storage"
+import type { Token } from "../lib/providers/types"
+
+// Load environment variables
+config({ path: ".env.local" })
+
+/**
+ * Benchmark token ingest into token_staging on the stored dataset
+ * Compares the bulk jsonb path used by storeProviderData with the previous
+ * multi-row INSERT path (500 rows per statement, tags/raw_data as sql.raw literals).
+ * Staging rows are written under throwaway stage IDs and deleted after each run;
+ * the tokens table is only read.
+ *
+ * Command line flags
+ *
+ * --provider <name>   Benchmark one provider's tokens (default: all stored tokens)
+ * --rounds <n>        Runs per path (default: 3)
+ *
+ * Examples:
+ *   pnpm bench:ingest
+ *   pnpm bench:ingest --provider lifi --rounds 5
+ */
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    provider: { type: "string" },
+    rounds: { type: "string", default: "3" },
+  },
+})
+
+const rounds = Math.max(1, parseInt(args.rounds!, 10) || 3)
+
+const LEGACY_BATCH_SIZE = 500
+
+/**
+ * The ingest path before bulk staging: JSON hand-escaped into SQL literals
+ */
+const legacyStageTokens = (stageId: string, tokens: ReadonlyArray<Token>) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    for (let i = 0; i < tokens.length; i += LEGACY_BATCH_SIZE) {
+      yield* drizzle.insert(db.tokenStaging).values(
+        tokens.slice(i, i + LEGACY_BATCH_SIZE).map((token) => ({
+          stageId,
+          chainId: token.chainId,
+          address: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          logoUri: token.logoURI,
+          tags: sql.raw(`'${JSON.stringify(token.tags || [])}'::jsonb`),
+          rawData: sql.raw(`'${JSON.stringify(token.raw ?? token).replace(/'/g, "''")}'::jsonb`),
+        }))
+      )
+    }
+  })
+
+const loadDataset = Effect.gen(function* () {
+  const drizzle = yield* Pg.PgDrizzle
+
+  const rows = yield* drizzle
+    .select({
+      chainId: db.tokens.chainId,
+      address: db.tokens.address,
+      symbol: db.tokens.symbol,
+      name: db.tokens.name,
+      decimals: db.tokens.decimals,
+      logoUri: db.tokens.logoUri,
+      tags: db.tokens.tags,
+      rawData: db.tokens.rawData,
+    })
+    .from(db.tokens)
+    .where(args.provider ? eq(db.tokens.providerName, args.provider.toLowerCase()) : undefined)
+
+  return rows.map(
+    (row): Token => ({
+      chainId: row.chainId,
+      address: row.address,
+      symbol: row.symbol,
+      name: row.name,
+      decimals: row.decimals ?? undefined,
+      logoURI: row.logoUri ?? undefined,
+      tags: row.tags ?? [],
+      raw: row.rawData,
+    })
+  )
+})
+
+/**
+ * Time one staging run, then delete its rows
+ */
+const timeRun = <E, R>(
+  label: string,
+  stage: (stageId: string, tokens: ReadonlyArray<Token>) => Effect.Effect<void, E, R>,
+  tokens: ReadonlyArray<Token>
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+    const stageId = randomUUID()
+
+    const [duration] = yield* Effect.timed(stage(stageId, tokens)).pipe(
+      Effect.ensuring(
+        drizzle.delete(db.tokenStaging).where(eq(db.tokenStaging.stageId, stageId)).pipe(Effect.ignore)
+      )
+    )
+
+    const ms = Duration.toMillis(duration)
+    console.log(
+      `  ${label.padEnd(8)} ${String(Math.round(ms)).padStart(7)}ms  ${Math.round((tokens.length / ms) * 1000)} rows/s`
+    )
+    return ms
+  })
+
+const program = Effect.gen(function* () {
+  const tokens = yield* loadDataset
+
+  console.log("=".repeat(60))
+  console.log(
+    `Ingest benchmark: ${tokens.length} tokens${args.provider ? ` (${args.provider})` : ""}, ${rounds} rounds`
+  )
+  console.log("=".repeat(60))
+
+  if (tokens.length === 0) {
+    console.log("No stored tokens - run pnpm fetch:providers first")
+    return
+  }
+
+  const results = { legacy: [] as number[], bulk: [] as number[] }
+
+  for (let round = 1; round <= rounds; round++) {
+    console.log(`Round ${round}`)
+    results.legacy.push(yield* timeRun("legacy", legacyStageTokens, tokens))
+    results.bulk.push(yield* timeRun("bulk", stageTokens, tokens))
+  }
+
+  const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)]
+  const legacy = median(results.legacy)
+  const bulk = median(results.bulk)
+
+  console.log("")
+  console.log(`Median legacy: ${Math.round(legacy)}ms, bulk: ${Math.round(bulk)}ms (${(legacy / bulk).toFixed(1)}x)`)
+})
+
+Effect.runPromise(program.pipe(Effect.provide(DatabaseLive), Effect.scoped))
+  .then(() => {
+    console.log("")
+    console.log("Benchmark finished successfully")
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error("")
+    console.error("Benchmark failed with error:")
+    console.error(error)
+    process.exit(1)
+  })
@@ -1,15 +1,105 @@
 import { Effect, Layer } from "effect"
 import { config } from "dotenv"
-import { AdminApiService } from "../lib/api/admin"
+import { parseArgs } from "node:util"
+import {
+  AdminApiService,
+  AdminApiError,
+  describeFetchInProgress,
+  parseProviderList,
+} from "../lib/api/admin"
 import { AllProvidersLive } from "../lib/providers"
-import { ChainRegistry } from "../lib/chains/registry"
+import { LoggingLive } from "../lib/logging/layer"
+import { TracingLive } from "../lib/tracing/layer"
+import { ProviderRegistry } from "../lib/providers/registry"
+import { printFetchDiffDetail } from "../lib/providers/diff"
+import { formatFetchMetrics } from "../lib/providers/metrics"
 
 // Load environment variables
 config({ path: ".env.local" })
 
 /**
- * Main program to fetch data from all providers
- * Uses AdminApiService to keep logic consistent with API endpoint
+ * Command line flags
+ *
+ * --provider <names>  Fetch only these providers (repeatable and/or comma-separated)
+ * --enrich            With --provider, enrich the chains those providers touched
+ * --resume <id>       Resume an interrupted fetch job (e.g. one started by the admin API)
+ * --dry-run           Fetch and normalize, then print what storing would change; writes nothing
+ *
+ * Examples:
+ *   pnpm fetch:providers --provider lifi
+ *   pnpm fetch:providers --provider lifi,relay --enrich
+ *   pnpm fetch:providers --resume 42
+ *   pnpm fetch:providers --provider lifi --dry-run
+ */
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    provider: { type: "string", multiple: true },
+    enrich: { type: "boolean", default: false },
+    resume: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+  },
+})
+
+const selectedProviders = (args.provider ?? []).flatMap(parseProviderList)
+
+const resumeJobId = args.resume ? parseInt(args.resume, 10) : undefined
+
+if (resumeJobId !== undefined && isNaN(resumeJobId)) {
+  console.error("Usage: pnpm fetch:providers --resume <job id>")
+  process.exit(1)
+}
+
+if (resumeJobId !== undefined && args["dry-run"]) {
+  console.error("--dry-run can't be combined with --resume")
+  process.exit(1)
+}
+
+/**
+ * Dry run: no job is created and nothing is written
+ */
+const dryRun = Effect.gen(function* () {
+  const adminApi = yield* AdminApiService
+  const result = yield* adminApi.dryRunFetch(selectedProviders.length > 0 ? selectedProviders : "all")
+
+  console.log("")
+  console.log("=".repeat(60))
+  console.log(`Dry run completed in ${result.durationMs}ms (nothing was written)`)
+  console.log("=".repeat(60))
+
+  for (const r of result.results) {
+    console.log("")
+    if (!r.success) {
+      console.log(`  ${r.provider}: failed - ${r.error}`)
+      continue
+    }
+    console.log(`  ${r.provider}: ${r.chainsCount} chains, ${r.tokensCount} tokens`)
+    if (r.failedChains && r.failedChains.length > 0) {
+      console.log(
+        `    degraded: token requests failed for chains ${r.failedChains.join(", ")} (stored tokens would be kept)`
+      )
+    }
+    if (r.rejected) {
+      console.log(`    rejected: ${r.rejected} items failed schema validation`)
+    }
+    for (const anomaly of r.anomalies ?? []) {
+      console.log(`    would be quarantined: ${anomaly.message}`)
+    }
+    if (r.metrics) {
+      console.log(`    ${formatFetchMetrics(r.metrics)}`)
+    }
+    if (r.diff) {
+      printFetchDiffDetail(r.diff)
+    }
+  }
+
+  return { successes: result.summary.successful, failures: result.summary.failed }
+})
+
+/**
+ * Main program to fetch data from all (or the selected) providers
+ * Creates (or resumes) a fetch job through AdminApiService, the same job mechanism
+ * as the admin API, and waits for it to complete
  */
 const program = Effect.gen(function* () {
   console.log("=".repeat(60))
@@ -17,24 +107,73 @@ const program = Effect.gen(function* () {
   console.log("=".repeat(60))
   console.log("")
 
+  const registry = yield* ProviderRegistry
+  console.log(`Registered providers (${registry.names.length}): ${registry.names.join(", ")}`)
+  console.log("")
+
+  if (selectedProviders.length > 0) {
+    console.log(`Selected providers: ${selectedProviders.join(", ")}`)
+    console.log("")
+  }
+
+  if (args["dry-run"]) {
+    return yield* dryRun
+  }
+
   const adminApi = yield* AdminApiService
-  const result = yield* adminApi.triggerFetch
+  const jobId =
+    resumeJobId ??
+    (yield* adminApi.createFetchJob(selectedProviders.length > 0 ? selectedProviders : "all", {
+      trigger: "cli",
+      enrichChains: args.enrich,
+    }))
+
+  console.log(`${resumeJobId !== undefined ? "Resuming" : "Running"} fetch job ${jobId}`)
+  console.log("")
+
+  const job = yield* adminApi.runFetchJob(jobId)
+  const result = job.result
+  if (!result) {
+    return yield* new AdminApiError({ message: `Fetch job ${jobId} did not complete` })
+  }
+
+  // Recorded by the job, sent now that it has released its locks
+  const deliveries = yield* adminApi.sendSubscriptionDeliveries
 
   console.log("")
   console.log("=".repeat(60))
-  console.log("Fetch job completed")
-  console.log(`Duration: ${result.durationMs}ms`)
+  console.log(`Fetch job ${jobId} completed`)
+  console.log(`Logs: /api/admin/jobs/${jobId}/logs`)
+  console.log(
+    `Duration: ${result.durationMs}ms${result.enrichmentMs !== undefined ? ` (enrichment ${result.enrichmentMs}ms)` : ""}`
+  )
   console.log("=".repeat(60))
   console.log("")
 
   console.log(`Successes: ${result.summary.successful}`)
   console.log(`Failures: ${result.summary.failed}`)
+  if (result.summary.skipped > 0) {
+    console.log(`Skipped: ${result.summary.skipped}`)
+  }
 
   if (result.summary.failed > 0) {
     console.log("")
     console.log("Failed providers:")
     result.results.forEach((r) => {
-      if (!r.success) {
+      if (!r.success && !r.skipped) {
+        console.log(`  - ${r.provider}: ${r.error}`)
+        if (r.quarantineId !== undefined) {
+          console.log(`    review: /api/admin/quarantine/${r.quarantineId}`)
+        }
+      }
+    })
+  }
+
+  if (result.summary.skipped > 0) {
+    console.log("")
+    console.log("Skipped providers (circuit open):")
+    result.results.forEach((r) => {
+      if (r.skipped) {
         console.log(`  - ${r.provider}: ${r.error}`)
       }
     })
@@ -48,6 +187,29 @@ const program = Effect.gen(function* () {
         console.log(
           `  ${r.provider}: ${r.chainsCount} chains, ${r.tokensCount} tokens`
         )
+        if (r.notModified) {
+          console.log(`    fetch ${r.fetchId}: not modified`)
+        } else if (r.diff) {
+          console.log(
+            `    fetch ${r.fetchId}: +${r.diff.tokensAdded} -${r.diff.tokensRemoved} ~${r.diff.tokensChanged} tokens, +${r.diff.chainsAdded.length} -${r.diff.chainsRemoved.length} chains`
+          )
+        }
+        if (r.failedChains && r.failedChains.length > 0) {
+          console.log(
+            `    degraded: token requests failed for chains ${r.failedChains.join(", ")} (stored tokens kept)`
+          )
+        }
+        if (r.rejected) {
+          console.log(`    rejected: ${r.rejected} items failed schema validation (see provider_rejections)`)
+        }
+        if (r.http && (r.http.retries > 0 || r.http.throttled > 0 || r.http.notModified > 0)) {
+          console.log(
+            `    http: ${r.http.requests} requests, ${r.http.retries} retries, ${r.http.rateLimited} rate limited, ${r.http.throttled} throttled, ${r.http.notModified} not modified (304)`
+          )
+        }
+        if (r.metrics) {
+          console.log(`    ${formatFetchMetrics(r.metrics)}`)
+        }
       }
     })
   }
@@ -59,19 +221,42 @@ const program = Effect.gen(function* () {
     )
   }
 
+  if (deliveries.sent > 0) {
+    console.log("")
+    console.log(`Sent ${deliveries.sent} subscription deliveries`)
+  }
+
   return { successes: result.summary.successful, failures: result.summary.failed }
 })
 
 /**
  * Run the program with all required layers
- * AdminApiService.Default needs AllProvidersLive and ChainRegistry.Default
+ * AdminApiService.Default needs AllProvidersLive (which includes ChainRegistry)
+ * Logs go through LoggingLive (LOG_FORMAT, LOG_LEVEL); the job report is printed as is.
+ * Spans are exported by TracingLive (OTEL_TRACES_EXPORTER).
  */
-const AppLive = Layer.mergeAll(
-  AdminApiService.Default,
-  ChainRegistry.Default
-).pipe(Layer.provideMerge(AllProvidersLive))
+const AppLive = AdminApiService.Default.pipe(
+  Layer.provideMerge(Layer.mergeAll(AllProvidersLive, LoggingLive, TracingLive))
+)
 
-Effect.runPromise(program.pipe(Effect.provide(AppLive), Effect.scoped))
+Effect.runPromise(
+  program.pipe(
+    Effect.tapErrorTag("UnknownProviderError", (error) =>
+      Effect.sync(() => {
+        console.error(`Unknown provider(s): ${error.providers.join(", ") || "(none given)"}`)
+        console.error(`Available: ${error.available.join(", ")}`)
+      })
+    ),
+    Effect.tapErrorTag("FetchJobNotFoundError", (error) =>
+      Effect.sync(() => console.error(`No fetch job ${error.jobId}`))
+    ),
+    Effect.tapErrorTag("FetchInProgressError", (error) =>
+      Effect.sync(() => console.error(describeFetchInProgress(error)))
+    ),
+    Effect.provide(AppLive),
+    Effect.scoped
+  )
+)
   .then(({ successes, failures }) => {
     console.log("")
     console.log("Job finished successfully")
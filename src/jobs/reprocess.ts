@@ -0,0 +1,154 @@
+import { Effect, Layer, Option } from "effect"
+import { config } from "dotenv"
+import { parseArgs } from "node:util"
+import { DatabaseLive } from "../lib/db/layer"
+import { ProviderRegistry } from "../lib/providers/registry"
+import { AlertDispatcherLive } from "../lib/alerts/dispatcher"
+import { SubscriptionDispatcher, SubscriptionDispatcherLive } from "../lib/subscriptions/dispatcher"
+import { LoggingLive } from "../lib/logging/layer"
+import { TracingLive } from "../lib/tracing/layer"
+import { HttpPolicy } from "../lib/providers/http"
+import { loadArchive, archiveHttpPolicy } from "../lib/providers/archive"
+import { printFetchDiffDetail } from "../lib/providers/diff"
+import { UnknownProviderError, acquireFetchLocks, describeFetchInProgress } from "../lib/api/admin"
+
+// Load environment variables
+config({ path: ".env.local" })
+
+/**
+ * Re-run a provider's normalization, categorization and chain mapping over an archived fetch
+ * No provider API is called: every request is answered from the archive.
+ * The result is stored as a new fetch (or recorded as not modified if nothing changed).
+ * Takes the provider's fetch lock, so it fails while a fetch job is fetching the provider.
+ * Subscription deliveries for the new fetch are sent once the lock is released.
+ * With --dry-run nothing is stored: the diff against the stored data is printed instead,
+ * e.g. to check a change to normalization or categorizeToken before deploying it.
+ *
+ * Command line flags
+ *
+ * --fetch <id>        Reprocess this fetch's archive
+ * --provider <name>   Reprocess the provider's most recent archive
+ * --dry-run           Print what storing the result would change; writes nothing
+ *
+ * Examples:
+ *   pnpm reprocess --fetch 1234
+ *   pnpm reprocess --provider stargate
+ *   pnpm reprocess --provider stargate --dry-run
+ */
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    fetch: { type: "string" },
+    provider: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+  },
+})
+
+const fetchId = args.fetch ? parseInt(args.fetch, 10) : undefined
+
+if ((fetchId === undefined || isNaN(fetchId)) && !args.provider) {
+  console.error("Usage: pnpm reprocess --fetch <id> | --provider <name>")
+  process.exit(1)
+}
+
+const program = Effect.gen(function* () {
+  const registry = yield* ProviderRegistry
+
+  const archive = yield* loadArchive(
+    fetchId !== undefined && !isNaN(fetchId)
+      ? { fetchId }
+      : { provider: args.provider!.toLowerCase() }
+  )
+
+  const provider = registry.get(archive.providerName)
+  if (Option.isNone(provider)) {
+    return yield* new UnknownProviderError({
+      providers: [archive.providerName],
+      available: registry.names,
+    })
+  }
+
+  console.log("=".repeat(60))
+  console.log(
+    `${args["dry-run"] ? "Dry run: reprocessing" : "Reprocessing"} ${archive.providerName} fetch ${archive.fetchId} (${archive.responses.length} archived responses)`
+  )
+  console.log("=".repeat(60))
+  console.log("")
+
+  if (args["dry-run"]) {
+    const preview = yield* provider.value.pipeline.dryRun.pipe(
+      Effect.provideService(HttpPolicy, archiveHttpPolicy(archive))
+    )
+
+    console.log("")
+    console.log(`Chains: ${preview.chains.length}, tokens: ${preview.tokens.length} (nothing was written)`)
+    for (const anomaly of preview.anomalies) {
+      console.log(`Would be quarantined: ${anomaly.message}`)
+    }
+    printFetchDiffDetail(preview.diff)
+    return
+  }
+
+  const result = yield* acquireFetchLocks("providers", [archive.providerName], null).pipe(
+    Effect.zipRight(provider.value.pipeline.fetch),
+    Effect.provideService(HttpPolicy, archiveHttpPolicy(archive)),
+    Effect.scoped
+  )
+
+  console.log("")
+  console.log(`Chains: ${result.chains.length}, tokens: ${result.tokens.length}`)
+  if (result.notModified) {
+    console.log(`Fetch ${result.fetchId}: not modified (normalized data unchanged)`)
+  } else {
+    console.log(
+      `Fetch ${result.fetchId}: +${result.diff.tokensAdded} -${result.diff.tokensRemoved} ~${result.diff.tokensChanged} tokens, +${result.diff.chainsAdded.length} -${result.diff.chainsRemoved.length} chains vs fetch ${result.diff.previousFetchId ?? "(none)"}`
+    )
+  }
+  const subscriptions = yield* SubscriptionDispatcher
+  const { sent } = yield* subscriptions.sendPending
+  if (sent > 0) {
+    console.log(`Sent ${sent} subscription deliveries`)
+  }
+})
+
+/**
+ * Only the registry, the database and the alert and subscription webhooks are needed: HttpPolicy is replaced by the archive
+ */
+const AppLive = Layer.mergeAll(
+  ProviderRegistry.Default,
+  DatabaseLive,
+  AlertDispatcherLive,
+  SubscriptionDispatcherLive,
+  LoggingLive,
+  TracingLive
+)
+
+Effect.runPromise(
+  program.pipe(
+    Effect.tapErrorTag("ArchiveNotFoundError", (error) =>
+      Effect.sync(() => {
+        console.error(
+          error.fetchId !== undefined
+            ? `No archive for fetch ${error.fetchId}`
+            : `No archive for provider ${error.provider}`
+        )
+      })
+    ),
+    Effect.tapErrorTag("FetchInProgressError", (error) =>
+      Effect.sync(() => console.error(describeFetchInProgress(error)))
+    ),
+    Effect.provide(AppLive),
+    Effect.scoped
+  )
+)
+  .then(() => {
+    console.log("")
+    console.log("Job finished successfully")
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error("")
+    console.error("Job failed with error:")
+    console.error(error)
+    process.exit(1)
+  })
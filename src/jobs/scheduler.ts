@@ -0,0 +1,144 @@
+import { Cause, Config, Duration, Effect, Layer, Schedule } from "effect"
+import { config } from "dotenv"
+import { parseArgs } from "node:util"
+import { AdminApiService, describeFetchInProgress, type ScheduledFetch } from "../lib/api/admin"
+import { AllProvidersLive } from "../lib/providers"
+import { LoggingLive } from "../lib/logging/layer"
+import { TracingLive } from "../lib/tracing/layer"
+
+// Load environment variables
+config({ path: ".env.local" })
+
+/**
+ * Long-running scheduler: fetches each provider on its own cadence
+ * Every tick decides which providers are due (cadence, failure backoff and circuit breaker,
+ * see src/lib/providers/schedule.ts) and runs one fetch job for them, enriching the chains
+ * they touched. /api/admin/schedule applies the same rules for cron-triggered runs.
+ * Alongside the ticks, pending subscription deliveries are sent on their own interval, so a
+ * slow subscriber never holds up a fetch.
+ *
+ * Environment variables:
+ * - SCHEDULER_INTERVAL (default: 5 minutes): time between ticks, with jitter
+ * - SUBSCRIPTION_SEND_INTERVAL (default: 1 minute): time between sends of pending
+ *   subscription deliveries
+ * - FETCH_CADENCE_<PROVIDER>: per-provider cadence override
+ * - LOG_FORMAT, LOG_LEVEL: see src/lib/logging/layer.ts
+ * - OTEL_TRACES_EXPORTER, OTEL_EXPORTER_OTLP_ENDPOINT: see src/lib/tracing/layer.ts
+ *
+ * Command line flags
+ *
+ * --once   Run a single tick, send pending subscription deliveries and exit
+ *
+ * Examples:
+ *   pnpm scheduler
+ *   pnpm scheduler --once
+ */
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    once: { type: "boolean", default: false },
+  },
+})
+
+const logDecisions = ({ decisions }: ScheduledFetch) =>
+  Effect.gen(function* () {
+    const due = decisions.filter((decision) => decision.due)
+    const waiting = decisions.flatMap((decision) =>
+      decision.nextRunAt ? [{ ...decision, nextRunAt: decision.nextRunAt }] : []
+    )
+    const next = [...waiting].sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime())[0]
+
+    yield* Effect.log(`Due: ${due.map((decision) => decision.provider).join(", ") || "none"}`)
+    for (const decision of waiting) {
+      if (decision.reason === "backoff") {
+        yield* Effect.log(
+          `Backing off after ${decision.consecutiveFailures} failures until ${decision.nextRunAt.toISOString()}`
+        ).pipe(Effect.annotateLogs("provider", decision.provider))
+      } else if (decision.reason === "circuit-open") {
+        yield* Effect.log(`Circuit open until ${decision.nextRunAt.toISOString()}`).pipe(
+          Effect.annotateLogs("provider", decision.provider)
+        )
+      }
+    }
+    if (next) {
+      yield* Effect.log(`Next due: ${next.provider} at ${next.nextRunAt.toISOString()}`)
+    }
+  })
+
+/**
+ * Run the providers that are due
+ * Failures are logged so the next tick runs regardless.
+ */
+const tick = Effect.gen(function* () {
+  const adminApi = yield* AdminApiService
+
+  const scheduled = yield* adminApi.createScheduledFetchJob("scheduler")
+  yield* logDecisions(scheduled)
+
+  if (scheduled.jobId === null) {
+    return
+  }
+
+  const job = yield* adminApi.runFetchJob(scheduled.jobId)
+  yield* Effect.log(
+    `Fetch job ${job.id} completed: ${job.progress.succeeded} succeeded, ${job.progress.failed} failed (logs: /api/admin/jobs/${job.id}/logs)`
+  )
+}).pipe(
+  Effect.catchTag("FetchInProgressError", (error) =>
+    Effect.log(`Skipping tick: ${describeFetchInProgress(error)}`)
+  ),
+  Effect.catchAll((error) => Effect.logError("Tick failed", Cause.fail(error)))
+)
+
+/**
+ * Send the subscription deliveries fetches left pending
+ */
+const sendDeliveries = Effect.gen(function* () {
+  const adminApi = yield* AdminApiService
+
+  const { sent } = yield* adminApi.sendSubscriptionDeliveries
+  if (sent > 0) {
+    yield* Effect.log(`Sent ${sent} subscription deliveries`)
+  }
+})
+
+const program = Effect.gen(function* () {
+  if (args.once) {
+    yield* tick
+    return yield* sendDeliveries
+  }
+
+  const interval = yield* Config.duration("SCHEDULER_INTERVAL").pipe(
+    Config.withDefault(Duration.minutes(5))
+  )
+  const sendInterval = yield* Config.duration("SUBSCRIPTION_SEND_INTERVAL").pipe(
+    Config.withDefault(Duration.minutes(1))
+  )
+  yield* Effect.log(`Starting, checking for due providers every ${Duration.format(interval)}`)
+
+  // Jittered spacing keeps several scheduler instances from ticking in lockstep
+  yield* Effect.all(
+    [
+      Effect.repeat(tick, Schedule.spaced(interval).pipe(Schedule.jittered)),
+      Effect.repeat(sendDeliveries, Schedule.spaced(sendInterval)),
+    ],
+    { concurrency: "unbounded", discard: true }
+  )
+}).pipe(Effect.annotateLogs("service", "Scheduler"))
+
+const AppLive = AdminApiService.Default.pipe(
+  Layer.provideMerge(Layer.mergeAll(AllProvidersLive, LoggingLive, TracingLive))
+)
+
+Effect.runPromise(program.pipe(Effect.provide(AppLive), Effect.scoped))
+  .then(() => {
+    console.log("")
+    console.log("Scheduler finished successfully")
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error("")
+    console.error("Scheduler failed with error:")
+    console.error(error)
+    process.exit(1)
+  })
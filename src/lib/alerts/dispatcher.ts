@@ -0,0 +1,160 @@
+/**
+ * Alert dispatcher
+ * Sends alert events from the fetch pipeline to the configured webhook targets (see targets.ts).
+ * createProviderFetch reports every failed fetch and every stored one; deliveries run before
+ * the fetch returns, and their failures are logged without failing it.
+ */
+
+import { HttpClient } from "@effect/platform"
+import { NodeHttpClient } from "@effect/platform-node"
+import { Cause, Clock, Data, Effect, Layer } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { PgClient } from "@effect/sql-pg"
+import { randomUUID } from "node:crypto"
+import { DatabaseLive } from "../db/layer"
+import { DEFAULT_WEBHOOK_RETRY_POLICY, deliverWebhook, type WebhookDelivery } from "../webhooks/delivery"
+import type { ProviderError } from "../providers/types"
+import {
+  getMajorSymbols,
+  loadFetchAlertEvents,
+  providerFailureEvent,
+  type AlertEvent,
+  type ProviderFailureEvent,
+} from "./events"
+import { encodeAlertPayload } from "./payloads"
+import { getAlertTargets, matchesTarget, type AlertTarget } from "./targets"
+
+/**
+ * Delivery to one target
+ */
+export interface AlertDelivery extends WebhookDelivery {
+  readonly target: string
+  readonly events: number
+}
+
+/**
+ * No target with this name in ALERT_WEBHOOKS
+ */
+export class AlertTargetNotFoundError extends Data.TaggedError("AlertTargetNotFoundError")<{
+  readonly target: string
+  readonly available: ReadonlyArray<string>
+}> {}
+
+export class AlertDispatcher extends Effect.Service<AlertDispatcher>()("AlertDispatcher", {
+  effect: Effect.gen(function* () {
+    const client = yield* HttpClient.HttpClient
+    const drizzle = yield* Pg.PgDrizzle
+    const pg = yield* PgClient.PgClient
+    const targets = yield* getAlertTargets
+    const majorSymbols = yield* getMajorSymbols
+
+    const deliver = (target: AlertTarget, events: ReadonlyArray<AlertEvent>, test: boolean) =>
+      Effect.gen(function* () {
+        const sentAt = new Date(yield* Clock.currentTimeMillis).toISOString()
+        const body = encodeAlertPayload(target.format, {
+          id: randomUUID(),
+          target: target.name,
+          sentAt,
+          test,
+          events,
+        })
+
+        const delivery = yield* deliverWebhook(
+          client,
+          // Targets are configured by the operator, whose logs can show their responses
+          { url: target.url, body, secret: target.secret, includeResponseBody: true },
+          {
+            ...DEFAULT_WEBHOOK_RETRY_POLICY,
+            maxRetries: target.maxRetries ?? DEFAULT_WEBHOOK_RETRY_POLICY.maxRetries,
+          }
+        )
+
+        if (delivery.success) {
+          yield* Effect.log(`Sent ${events.length} alert(s) to ${target.name}`)
+        } else {
+          yield* Effect.logError(
+            `Failed to send ${events.length} alert(s) to ${target.name} after ${delivery.attempts} attempt(s): ${delivery.error}`
+          )
+        }
+
+        return { target: target.name, events: events.length, ...delivery } satisfies AlertDelivery
+      }).pipe(Effect.annotateLogs("alertTarget", target.name))
+
+    /**
+     * Send each target the events that pass its filters
+     */
+    const dispatch = (events: ReadonlyArray<AlertEvent>) =>
+      Effect.forEach(
+        targets,
+        (target) => {
+          const matching = events.filter((event) => matchesTarget(target, event))
+          return matching.length > 0
+            ? Effect.map(deliver(target, matching, false), (delivery) => [delivery])
+            : Effect.succeed([])
+        },
+        { concurrency: "unbounded" }
+      ).pipe(
+        Effect.map((deliveries) => deliveries.flat()),
+        Effect.annotateLogs("service", "AlertDispatcher"),
+        Effect.withSpan("alerts.dispatch", { attributes: { events: events.length } })
+      )
+
+    /**
+     * Alert on a failed fetch
+     */
+    const providerFailed = (error: ProviderError) =>
+      targets.length === 0 ? Effect.void : Effect.asVoid(dispatch([providerFailureEvent(error)]))
+
+    /**
+     * Alert on the decimals changes and new address conflicts of a stored fetch
+     */
+    const fetchStored = (providerName: string, fetchId: number) =>
+      targets.length === 0
+        ? Effect.void
+        : loadFetchAlertEvents(providerName, fetchId, majorSymbols).pipe(
+            Effect.provideService(Pg.PgDrizzle, drizzle),
+            Effect.provideService(PgClient.PgClient, pg),
+            Effect.flatMap(dispatch),
+            Effect.asVoid,
+            Effect.catchAll((error) =>
+              Effect.logError("Failed to load alert events", Cause.fail(error)).pipe(
+                Effect.annotateLogs("service", "AlertDispatcher")
+              )
+            )
+          )
+
+    /**
+     * Send a sample provider failure to one target or all of them, ignoring their filters
+     */
+    const sendTest = (targetName?: string) =>
+      Effect.gen(function* () {
+        const selected = targetName ? targets.filter((target) => target.name === targetName) : targets
+        if (targetName && selected.length === 0) {
+          return yield* new AlertTargetNotFoundError({
+            target: targetName,
+            available: targets.map((target) => target.name),
+          })
+        }
+
+        const event: ProviderFailureEvent = {
+          type: "provider-failure",
+          provider: "example",
+          fetchId: null,
+          message: "Test alert, no provider failed",
+          quarantineId: null,
+        }
+        return yield* Effect.forEach(selected, (target) => deliver(target, [event], true), {
+          concurrency: "unbounded",
+        })
+      }).pipe(Effect.annotateLogs("service", "AlertDispatcher"))
+
+    return { targets, dispatch, providerFailed, fetchStored, sendTest }
+  }),
+}) {}
+
+/**
+ * AlertDispatcher with its own HTTP client: alerts bypass HTTP_FIXTURES_MODE
+ */
+export const AlertDispatcherLive = AlertDispatcher.Default.pipe(
+  Layer.provide(Layer.mergeAll(NodeHttpClient.layerUndici, DatabaseLive))
+)
@@ -0,0 +1,164 @@
+/**
+ * Alert events
+ * What the fetch pipeline reports to the alert webhooks (see dispatcher.ts): failed fetches,
+ * and for stored fetches, decimals changes and new address conflicts on major symbols.
+ */
+
+import { Config, Effect } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { PgClient } from "@effect/sql-pg"
+import { eq } from "drizzle-orm"
+import * as db from "../db/schema"
+import { FetchQuarantinedError } from "../providers/guard"
+import type { ProviderError } from "../providers/types"
+
+export const ALERT_EVENT_TYPES = ["provider-failure", "decimals-change", "address-conflict"] as const
+
+export type AlertEventType = (typeof ALERT_EVENT_TYPES)[number]
+
+/**
+ * A provider fetch failed, including snapshots quarantined by the anomaly guard
+ */
+export interface ProviderFailureEvent {
+  readonly type: "provider-failure"
+  readonly provider: string
+  readonly fetchId: null
+  readonly message: string
+  /** Set when the snapshot was quarantined for approval */
+  readonly quarantineId: number | null
+}
+
+/**
+ * A stored fetch changed a listed token's decimals
+ */
+export interface DecimalsChangeEvent {
+  readonly type: "decimals-change"
+  readonly provider: string
+  readonly fetchId: number
+  readonly symbol: string
+  readonly chainId: number
+  readonly address: string
+  readonly from: number | null
+  readonly to: number | null
+}
+
+/**
+ * A stored fetch added a major symbol at an address no other provider lists for it on that
+ * chain, while other providers list it at other addresses
+ */
+export interface AddressConflictEvent {
+  readonly type: "address-conflict"
+  readonly provider: string
+  readonly fetchId: number
+  readonly symbol: string
+  readonly chainId: number
+  readonly address: string
+  /** The other providers' addresses for the symbol on the chain */
+  readonly listedBy: ReadonlyArray<{ readonly provider: string; readonly address: string }>
+}
+
+export type AlertEvent = ProviderFailureEvent | DecimalsChangeEvent | AddressConflictEvent
+
+/**
+ * Symbols whose address conflicts are alerted on
+ * Overridable with ALERT_MAJOR_SYMBOLS (comma separated).
+ */
+export const DEFAULT_MAJOR_SYMBOLS = ["USDC", "USDT", "DAI", "ETH", "WETH", "WBTC"]
+
+export const getMajorSymbols = Config.array(Config.string(), "ALERT_MAJOR_SYMBOLS").pipe(
+  Config.withDefault(DEFAULT_MAJOR_SYMBOLS),
+  Config.map((symbols) => new Set(symbols.map((symbol) => symbol.trim().toUpperCase())))
+)
+
+export const providerFailureEvent = (error: ProviderError): ProviderFailureEvent => ({
+  type: "provider-failure",
+  provider: error.provider,
+  fetchId: null,
+  message: error.message,
+  quarantineId: error.cause instanceof FetchQuarantinedError ? error.cause.quarantineId : null,
+})
+
+const toDecimals = (value: unknown) => (typeof value === "number" ? value : null)
+
+/**
+ * Events for a stored fetch, from its diff against the provider's previous fetch
+ * The diff records an address change as a removal and an addition, so conflicts are
+ * looked up among the added tokens only.
+ */
+export const loadFetchAlertEvents = (providerName: string, fetchId: number, majorSymbols: ReadonlySet<string>) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+    const pg = yield* PgClient.PgClient
+
+    const [diff] = yield* drizzle
+      .select({
+        tokensAdded: db.providerFetchDiffs.tokensAdded,
+        tokensChanged: db.providerFetchDiffs.tokensChanged,
+      })
+      .from(db.providerFetchDiffs)
+      .where(eq(db.providerFetchDiffs.fetchId, fetchId))
+
+    if (!diff) {
+      return []
+    }
+
+    const decimalsChanges = diff.tokensChanged.flatMap((token): Array<DecimalsChangeEvent> =>
+      token.changes.decimals
+        ? [
+            {
+              type: "decimals-change",
+              provider: providerName,
+              fetchId,
+              symbol: token.symbol,
+              chainId: token.chainId,
+              address: token.address,
+              from: toDecimals(token.changes.decimals.from),
+              to: toDecimals(token.changes.decimals.to),
+            },
+          ]
+        : []
+    )
+
+    const added = diff.tokensAdded
+      .filter((token) => majorSymbols.has(token.symbol.toUpperCase()))
+      .map((token) => ({ symbol: token.symbol, chain_id: token.chainId, address: token.address }))
+
+    const conflicts =
+      added.length === 0
+        ? []
+        : yield* pg<{
+            symbol: string
+            chain_id: string // bigint comes back as a string
+            address: string
+            listed_by: Array<{ provider: string; address: string }>
+          }>`
+            SELECT
+              a.symbol,
+              a.chain_id,
+              a.address,
+              json_agg(json_build_object('provider', t.provider_name, 'address', t.address) ORDER BY t.provider_name) AS listed_by
+            FROM jsonb_to_recordset(${pg.json(added)}) AS a(symbol text, chain_id bigint, address text)
+            JOIN tokens t
+              ON t.symbol = a.symbol
+              AND t.chain_id = a.chain_id
+              AND t.provider_name <> ${providerName}
+              AND t.delisted_at IS NULL
+            GROUP BY a.symbol, a.chain_id, a.address
+            HAVING bool_and(t.address <> a.address)
+          `
+
+    return [
+      ...decimalsChanges,
+      ...conflicts.map(
+        (row): AddressConflictEvent => ({
+          type: "address-conflict",
+          provider: providerName,
+          fetchId,
+          symbol: row.symbol,
+          chainId: Number(row.chain_id),
+          address: row.address,
+          listedBy: row.listed_by,
+        })
+      ),
+    ]
+  })
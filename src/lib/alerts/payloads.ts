@@ -0,0 +1,56 @@
+/**
+ * Alert webhook payloads
+ * One delivery per target carries all of a fetch's events that pass the target's filters.
+ */
+
+import type { AlertEvent } from "./events"
+
+/**
+ * Generic JSON payload
+ */
+export interface AlertPayload {
+  /** Unique per delivery (retries keep it), for receivers to deduplicate */
+  readonly id: string
+  readonly target: string
+  readonly sentAt: string
+  /** Sent by /api/admin/alerts/test */
+  readonly test: boolean
+  readonly events: ReadonlyArray<AlertEvent>
+}
+
+/**
+ * Lines shown in a Slack message; the rest are counted
+ */
+const SLACK_MAX_LINES = 20
+
+const shortAddress = (address: string) =>
+  address.length > 14 ? `${address.slice(0, 8)}…${address.slice(-4)}` : address
+
+export const describeAlertEvent = (event: AlertEvent) => {
+  switch (event.type) {
+    case "provider-failure":
+      return `*${event.provider}* fetch failed: ${event.message}`
+    case "decimals-change":
+      return `*${event.provider}* changed ${event.symbol} decimals on chain ${event.chainId} (${shortAddress(event.address)}): ${event.from ?? "?"} → ${event.to ?? "?"}`
+    case "address-conflict":
+      return `*${event.provider}* lists ${event.symbol} on chain ${event.chainId} at ${shortAddress(event.address)}; ${event.listedBy
+        .map((listing) => `${listing.provider} at ${shortAddress(listing.address)}`)
+        .join(", ")}`
+  }
+}
+
+/**
+ * Slack incoming webhook message (mrkdwn text)
+ */
+export const toSlackMessage = (payload: AlertPayload) => {
+  const lines = payload.events.slice(0, SLACK_MAX_LINES).map((event) => `• ${describeAlertEvent(event)}`)
+  const more = payload.events.length - lines.length
+  const title = payload.test ? "Test alert from the token aggregator" : "Token aggregator alert"
+
+  return {
+    text: [`:rotating_light: ${title}`, ...lines, ...(more > 0 ? [`…and ${more} more`] : [])].join("\n"),
+  }
+}
+
+export const encodeAlertPayload = (format: "slack" | "json", payload: AlertPayload) =>
+  JSON.stringify(format === "slack" ? toSlackMessage(payload) : payload)
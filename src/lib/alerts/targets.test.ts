@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import type { AlertEvent } from "./events"
+import { type AlertTarget, matchesTarget } from "./targets"
+
+const target = (filters: Partial<AlertTarget> = {}): AlertTarget => ({
+  name: "ops",
+  url: "https://example.com/hooks",
+  format: "json",
+  ...filters,
+})
+
+const failure: AlertEvent = {
+  type: "provider-failure",
+  provider: "lifi",
+  fetchId: null,
+  message: "HTTP 503",
+  quarantineId: null,
+}
+
+const decimals: AlertEvent = {
+  type: "decimals-change",
+  provider: "relay",
+  fetchId: 7,
+  symbol: "USDC",
+  chainId: 8453,
+  address: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+  from: 6,
+  to: 18,
+}
+
+describe("matchesTarget", () => {
+  it("matches every event when the target sets no filters", () => {
+    expect(matchesTarget(target(), failure)).toBe(true)
+    expect(matchesTarget(target(), decimals)).toBe(true)
+  })
+
+  it("filters on event type", () => {
+    const onlyFailures = target({ events: ["provider-failure"] })
+    expect(matchesTarget(onlyFailures, failure)).toBe(true)
+    expect(matchesTarget(onlyFailures, decimals)).toBe(false)
+  })
+
+  it("compares providers and symbols ignoring case", () => {
+    expect(matchesTarget(target({ providers: ["LiFi"] }), failure)).toBe(true)
+    expect(matchesTarget(target({ providers: ["lifi"] }), decimals)).toBe(false)
+    expect(matchesTarget(target({ symbols: ["usdc"] }), decimals)).toBe(true)
+  })
+
+  it("requires every filter set to match", () => {
+    expect(matchesTarget(target({ symbols: ["USDC"], chainIds: [8453] }), decimals)).toBe(true)
+    expect(matchesTarget(target({ symbols: ["USDC"], chainIds: [1] }), decimals)).toBe(false)
+  })
+
+  it("never matches a symbol or chain filter on a provider failure", () => {
+    expect(matchesTarget(target({ symbols: ["USDC"] }), failure)).toBe(false)
+    expect(matchesTarget(target({ chainIds: [8453] }), failure)).toBe(false)
+  })
+})
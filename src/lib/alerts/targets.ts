@@ -0,0 +1,66 @@
+/**
+ * Alert webhook targets
+ * Configured with ALERT_WEBHOOKS, a JSON array of targets:
+ *
+ *   [{ "name": "ops", "url": "https://hooks.slack.com/services/...", "format": "slack",
+ *      "events": ["provider-failure"], "providers": ["lifi", "relay"] },
+ *    { "name": "pager", "url": "https://example.com/hooks/tokens", "secret": "...",
+ *      "symbols": ["USDC"], "chainIds": [1, 8453] }]
+ *
+ * Filters are optional; an event must match every filter a target sets, and never matches
+ * one on a field it doesn't have (a provider failure has no symbol or chain).
+ */
+
+import { Config, Schema } from "effect"
+import { ALERT_EVENT_TYPES, type AlertEvent } from "./events"
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+export const AlertTargetSchema = Schema.Struct({
+  name: Schema.NonEmptyTrimmedString,
+  url: Schema.String.pipe(Schema.filter(isHttpUrl, { message: () => "Expected an http(s) URL" })),
+  /** slack: Slack incoming webhook message; json: the events as JSON (default) */
+  format: Schema.optionalWith(Schema.Literal("slack", "json"), { default: () => "json" as const }),
+  /** Signs deliveries (see webhooks/delivery.ts) */
+  secret: Schema.optional(Schema.String),
+  /** Retries after the first attempt (default: 3) */
+  maxRetries: Schema.optional(Schema.NonNegativeInt),
+  events: Schema.optional(Schema.Array(Schema.Literal(...ALERT_EVENT_TYPES))),
+  providers: Schema.optional(Schema.Array(Schema.String)),
+  symbols: Schema.optional(Schema.Array(Schema.String)),
+  chainIds: Schema.optional(Schema.Array(Schema.Number)),
+})
+
+export type AlertTarget = typeof AlertTargetSchema.Type
+
+export const getAlertTargets = Schema.Config(
+  "ALERT_WEBHOOKS",
+  Schema.parseJson(Schema.Array(AlertTargetSchema))
+).pipe(Config.withDefault([]))
+
+const includesIgnoringCase = (values: ReadonlyArray<string>, value: string) =>
+  values.some((candidate) => candidate.toLowerCase() === value.toLowerCase())
+
+/**
+ * Whether an event passes a target's filters
+ */
+export const matchesTarget = (target: AlertTarget, event: AlertEvent) =>
+  (!target.events || target.events.includes(event.type)) &&
+  (!target.providers || includesIgnoringCase(target.providers, event.provider)) &&
+  (!target.symbols || ("symbol" in event && includesIgnoringCase(target.symbols, event.symbol))) &&
+  (!target.chainIds || ("chainId" in event && target.chainIds.includes(event.chainId)))
+
+/**
+ * A target as listed by the admin API: the URL's host only, and whether it has a secret
+ */
+export const describeAlertTarget = ({ url, secret, ...target }: AlertTarget) => ({
+  ...target,
+  host: new URL(url).host,
+  signed: Boolean(secret),
+})
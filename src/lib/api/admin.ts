@@ -2,27 +2,35 @@
  * Effect-based service layer for admin operations
  */
 
-import { Effect, Data } from "effect"
-import {
-  AllProvidersLive,
-  RelayProvider,
-  LifiProvider,
-  AcrossProvider,
-  StargateProvider,
-  DebridgeProvider,
-  MayanProvider,
-  RhinoProvider,
-  GasZipProvider,
-  AoriProvider,
-  EcoProvider,
-  MesonProvider,
-  ButterProvider,
-} from "../providers"
-import { enrichChains } from "../chains/enrichment"
+import { Cause, Effect, Data, Logger, LogLevel, Option } from "effect"
+import { randomUUID } from "node:crypto"
+import { ProviderRegistry } from "../providers/registry"
+import type { ProviderAdapter, ProviderRequirements } from "../providers/factory"
+import { enrichChains, enrichChainsByIds } from "../chains/enrichment"
 import { ChainRegistry } from "../chains/registry"
 import * as Pg from "@effect/sql-drizzle/Pg"
-import { HttpClient } from "@effect/platform"
-import type { Scope } from "effect"
+import { and, eq, gt, inArray, ne, sql } from "drizzle-orm"
+import * as db from "../db/schema"
+import { advisoryLock, tryAdvisoryLocks } from "../db/locks"
+import { UnknownProviderError, type FetchDiffDetail, type FetchDiffSummary } from "../providers/types"
+import type { HttpStats } from "../providers/http"
+import type { FetchMetrics } from "../providers/metrics"
+import { planProviderFetches, type ScheduleDecision } from "../providers/schedule"
+import { loadProviderCircuits, type ProviderCircuit } from "../providers/breaker"
+import { FetchQuarantinedError, type Anomaly } from "../providers/guard"
+import {
+  QuarantineNotFoundError,
+  approveQuarantinedFetch as approveQuarantined,
+  getQuarantinedFetch as getQuarantined,
+  listQuarantinedFetches as listQuarantined,
+  rejectQuarantinedFetch as rejectQuarantined,
+  type QuarantineStatus,
+} from "../providers/quarantine"
+import { makeRunLogBuffer, type RunLogEntry } from "../logging/buffer"
+import { recordProviderFetch } from "../metrics/definitions"
+import { AlertDispatcher } from "../alerts/dispatcher"
+import { describeAlertTarget } from "../alerts/targets"
+import { SubscriptionDispatcher } from "../subscriptions/dispatcher"
 
 /**
  * Result of a provider fetch operation
@@ -32,6 +40,23 @@ export interface FetchResult {
   readonly success: boolean
   readonly chainsCount?: number
   readonly tokensCount?: number
+  readonly fetchId?: number
+  /** Payload unchanged since the last stored fetch; storage was skipped */
+  readonly notModified?: boolean
+  /** Chains whose token request failed (partial fetch); their stored tokens were kept */
+  readonly failedChains?: ReadonlyArray<number>
+  /** Items dropped because they failed schema validation (see provider_rejections) */
+  readonly rejected?: number
+  /** Changes against the provider's previous successful fetch */
+  readonly diff?: FetchDiffSummary
+  /** Requests, retries and throttling during the fetch */
+  readonly http?: HttpStats
+  /** Stage timings and transfer counters (see providers/metrics.ts) */
+  readonly metrics?: FetchMetrics
+  /** Not fetched because the provider's circuit breaker is open (see providers/breaker.ts) */
+  readonly skipped?: boolean
+  /** The snapshot failed the anomaly guard and awaits approval (see providers/guard.ts) */
+  readonly quarantineId?: number
   readonly error?: string
 }
 
@@ -44,14 +69,54 @@ export interface FetchResponse {
     readonly total: number
     readonly successful: number
     readonly failed: number
+    readonly skipped: number
   }
   readonly chainEnrichment?: {
     readonly enrichedCount: number
     readonly totalChains: number
   }
+  /** Time spent enriching chains, included in durationMs */
+  readonly enrichmentMs?: number
   readonly durationMs: number
 }
 
+/**
+ * Result of a provider dry run
+ */
+export interface DryRunResult {
+  readonly provider: string
+  readonly success: boolean
+  readonly chainsCount?: number
+  readonly tokensCount?: number
+  /** Chains whose token request failed; storing would keep their tokens */
+  readonly failedChains?: ReadonlyArray<number>
+  /** Items that failed schema validation */
+  readonly rejected?: number
+  /** What storing the fetch would change in tokens and chain_provider_support */
+  readonly diff?: FetchDiffDetail
+  /** Failed sanity checks: storing would quarantine the snapshot */
+  readonly anomalies?: ReadonlyArray<Anomaly>
+  readonly http?: HttpStats
+  readonly metrics?: FetchMetrics
+  readonly error?: string
+}
+
+/**
+ * Response from a dry run: nothing was written
+ */
+export interface DryRunResponse {
+  readonly dryRun: true
+  readonly results: ReadonlyArray<DryRunResult>
+  readonly summary: {
+    readonly total: number
+    readonly successful: number
+    readonly failed: number
+  }
+  readonly durationMs: number
+}
+
+export { UnknownProviderError }
+
 /**
  * Custom error types for admin operations
  */
@@ -61,95 +126,977 @@ export class AdminApiError extends Data.TaggedError("AdminApiError")<{
 }> {}
 
 /**
- * Admin API Service
+ * No fetch job with this ID
  */
-export class AdminApiService extends Effect.Service<AdminApiService>()("AdminApiService", {
-  effect: Effect.gen(function* () {
-    // Get all 12 provider services
-    const relay = yield* RelayProvider
-  const lifi = yield* LifiProvider
-  const across = yield* AcrossProvider
-  const stargate = yield* StargateProvider
-  const debridge = yield* DebridgeProvider
-  const mayan = yield* MayanProvider
-  const rhino = yield* RhinoProvider
-  const gaszip = yield* GasZipProvider
-  const aori = yield* AoriProvider
-  const eco = yield* EcoProvider
-  const meson = yield* MesonProvider
-  const butter = yield* ButterProvider
-
-  const triggerFetch = Effect.gen(function* () {
-    const startTime = Date.now()
-
-    // Fetch all 12 providers in parallel
-    // Use mode: "either" to get both successes and failures
-    const results = yield* Effect.all(
-      [
-        relay.fetch.pipe(Effect.map((data) => ({ provider: "relay", data }))),
-        lifi.fetch.pipe(Effect.map((data) => ({ provider: "lifi", data }))),
-        across.fetch.pipe(Effect.map((data) => ({ provider: "across", data }))),
-        stargate.fetch.pipe(Effect.map((data) => ({ provider: "stargate", data }))),
-        debridge.fetch.pipe(Effect.map((data) => ({ provider: "debridge", data }))),
-        mayan.fetch.pipe(Effect.map((data) => ({ provider: "mayan", data }))),
-        rhino.fetch.pipe(Effect.map((data) => ({ provider: "rhino", data }))),
-        gaszip.fetch.pipe(Effect.map((data) => ({ provider: "gaszip", data }))),
-        aori.fetch.pipe(Effect.map((data) => ({ provider: "aori", data }))),
-        eco.fetch.pipe(Effect.map((data) => ({ provider: "eco", data }))),
-        meson.fetch.pipe(Effect.map((data) => ({ provider: "meson", data }))),
-        butter.fetch.pipe(Effect.map((data) => ({ provider: "butter", data }))),
-      ],
-      { concurrency: "unbounded", mode: "either" }
-    )
+export class FetchJobNotFoundError extends Data.TaggedError("FetchJobNotFoundError")<{
+  readonly jobId: number
+}> {}
 
-    const durationMs = Date.now() - startTime
+/**
+ * Another fetch of some of the same providers is running, or queued as a pending job
+ * jobId is null when the lock is held outside a fetch job (e.g. by pnpm reprocess).
+ */
+export class FetchInProgressError extends Data.TaggedError("FetchInProgressError")<{
+  readonly jobId: number | null
+  readonly status: "pending" | "running"
+  /** When the job started (when it was created, if still pending) */
+  readonly startedAt: Date | null
+  /** The providers both fetches would touch */
+  readonly providers: ReadonlyArray<string>
+}> {}
 
-    // Transform results to FetchResult format
-    const fetchResults: FetchResult[] = results.map((result, index) => {
-      const providerName = ["relay", "lifi", "across", "stargate", "debridge", "mayan", "rhino", "gaszip", "aori", "eco", "meson", "butter"][index]
+export const describeFetchInProgress = (error: FetchInProgressError) =>
+  error.jobId === null
+    ? `A fetch of ${error.providers.join(", ")} is already running`
+    : `Fetch job ${error.jobId} is already ${error.status === "pending" ? "queued" : "running"} (since ${error.startedAt?.toISOString() ?? "unknown"}) for ${error.providers.join(", ")}`
 
-      if (result._tag === "Right") {
-        return {
-          provider: providerName,
-          success: true,
-          chainsCount: result.right.data.chains.length,
-          tokensCount: result.right.data.tokens.length,
-        }
-      } else {
-        return {
-          provider: providerName,
-          success: false,
-          error: String(result.left),
-        }
+/**
+ * Options for fetching a subset of providers
+ */
+export interface ProviderFetchOptions {
+  /** Enrich only the chains the fetched providers returned (default: false) */
+  readonly enrichChains?: boolean
+}
+
+/**
+ * Options for creating a fetch job
+ */
+export interface FetchJobOptions extends ProviderFetchOptions {
+  /** Who created the job (manual, vercel-cron, cli) */
+  readonly trigger: string
+}
+
+/**
+ * Step of a fetch job: one per provider, plus "enrich" when chains are enriched
+ * Providers whose circuit breaker is open when the step runs are skipped.
+ */
+export interface FetchJobStep {
+  readonly name: string
+  readonly kind: "provider" | "enrich"
+  readonly status: "pending" | "running" | "succeeded" | "failed" | "skipped"
+  readonly result: FetchResult | null
+  readonly enrichment: { readonly enrichedCount: number; readonly totalChains: number } | null
+  readonly error: string | null
+  readonly startedAt: Date | null
+  readonly finishedAt: Date | null
+}
+
+/**
+ * Fetch job with per-step progress
+ * A running job whose steps haven't changed for JOB_STALE_AFTER_MS is reported as
+ * interrupted (e.g. the serverless function running it timed out) and can be resumed.
+ */
+export interface FetchJobStatus {
+  readonly id: number
+  readonly status: "pending" | "running" | "interrupted" | "completed"
+  readonly trigger: string
+  /** All providers, or the subset in steps */
+  readonly scope: "all" | "providers"
+  readonly enrich: "all" | "touched" | "none"
+  readonly createdAt: Date
+  readonly startedAt: Date | null
+  readonly finishedAt: Date | null
+  readonly progress: {
+    readonly total: number
+    readonly pending: number
+    readonly running: number
+    readonly succeeded: number
+    readonly failed: number
+    readonly skipped: number
+  }
+  readonly steps: ReadonlyArray<FetchJobStep>
+  /** Set once the job has completed */
+  readonly result: FetchResponse | null
+}
+
+/**
+ * Outcome of a scheduled fetch: the per-provider decisions, and the job created
+ * for the due providers (null when none was due)
+ */
+export interface ScheduledFetch {
+  readonly jobId: number | null
+  readonly decisions: ReadonlyArray<ScheduleDecision>
+}
+
+/**
+ * Logs captured by one run of a fetch job (a resumed job has one run per attempt)
+ */
+export interface FetchJobRun {
+  /** The runId annotation of the run's log lines */
+  readonly runId: string
+  readonly startedAt: Date
+  readonly finishedAt: Date | null
+  /** Null until the run ends; stays null if its process died */
+  readonly logs: ReadonlyArray<RunLogEntry> | null
+  /** Entries past RUN_LOG_CAPACITY, not kept */
+  readonly droppedLogs: number
+}
+
+/**
+ * Filters for a fetch job's logs
+ */
+export interface FetchJobLogsOptions {
+  /** Only this run */
+  readonly runId?: string
+  /** Only entries at this level or above */
+  readonly minimumLevel?: LogLevel.LogLevel
+  /** Only entries annotated with this provider */
+  readonly provider?: string
+}
+
+const JOB_STALE_AFTER_MS = 15 * 60 * 1000
+
+type FetchScope = (typeof db.fetchJobs.$inferSelect)["scope"]
+
+/**
+ * Advisory lock names
+ * A fetch of all providers holds the whole-run lock exclusively. Fetches of a subset share
+ * the whole-run lock and hold one lock per provider, so two subsets only conflict when
+ * they have a provider in common.
+ */
+const FETCH_RUN_LOCK = "fetch:run"
+const providerFetchLock = (providerName: string) => `fetch:provider:${providerName}`
+// Serializes job creation, so two requests can't both pass the conflict check
+const FETCH_JOBS_LOCK = "fetch:jobs"
+
+/**
+ * Find a pending or running job that conflicts with a fetch of these providers
+ */
+const findConflictingJob = (
+  scope: FetchScope,
+  providerNames: ReadonlyArray<string>,
+  options: {
+    readonly excludeJobId?: number
+    /** Ignore jobs not updated since (e.g. interrupted ones) */
+    readonly activeSince?: Date
+    /** Ignore pending jobs */
+    readonly runningOnly?: boolean
+  }
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const jobs = yield* drizzle
+      .select({
+        id: db.fetchJobs.id,
+        status: db.fetchJobs.status,
+        scope: db.fetchJobs.scope,
+        createdAt: db.fetchJobs.createdAt,
+        startedAt: db.fetchJobs.startedAt,
+      })
+      .from(db.fetchJobs)
+      .where(
+        and(
+          inArray(db.fetchJobs.status, options.runningOnly ? ["running"] : ["pending", "running"]),
+          options.excludeJobId !== undefined ? ne(db.fetchJobs.id, options.excludeJobId) : undefined,
+          options.activeSince ? gt(db.fetchJobs.updatedAt, options.activeSince) : undefined
+        )
+      )
+      .orderBy(db.fetchJobs.id)
+
+    if (jobs.length === 0) {
+      return undefined
+    }
+
+    const steps = yield* drizzle
+      .select({ jobId: db.fetchJobSteps.jobId, name: db.fetchJobSteps.name })
+      .from(db.fetchJobSteps)
+      .where(
+        and(
+          inArray(db.fetchJobSteps.jobId, jobs.map((job) => job.id)),
+          eq(db.fetchJobSteps.kind, "provider")
+        )
+      )
+
+    for (const job of jobs) {
+      const jobProviders = steps.filter((step) => step.jobId === job.id).map((step) => step.name)
+      const shared =
+        scope === "all"
+          ? jobProviders
+          : job.scope === "all"
+            ? [...providerNames]
+            : jobProviders.filter((name) => providerNames.includes(name))
+
+      if (shared.length > 0) {
+        return new FetchInProgressError({
+          jobId: job.id,
+          status: job.status === "pending" ? "pending" : "running",
+          startedAt: job.startedAt ?? job.createdAt,
+          providers: shared,
+        })
       }
-    })
+    }
 
-    const successful = fetchResults.filter((r) => r.success).length
-    const failed = fetchResults.filter((r) => !r.success).length
+    return undefined
+  })
+
+/**
+ * Lock a fetch of these providers for the current scope
+ * Fails with FetchInProgressError naming the running job when a lock is held elsewhere.
+ * Used by fetch jobs and by jobs that store provider data outside of them (pnpm reprocess).
+ */
+export const acquireFetchLocks = (
+  scope: FetchScope,
+  providerNames: ReadonlyArray<string>,
+  jobId: number | null
+) =>
+  Effect.gen(function* () {
+    const acquired = yield* tryAdvisoryLocks([
+      { name: FETCH_RUN_LOCK, shared: scope !== "all" },
+      ...(scope === "all" ? [] : providerNames.map((name) => ({ name: providerFetchLock(name) }))),
+    ])
+    if (acquired) {
+      return
+    }
 
-    // Enrich chains with metadata from Chainlist
-    // This runs after providers have populated the chains table
-    const chainEnrichment = yield* enrichChains.pipe(
-      Effect.catchAll((error) => {
-        console.error("[AdminApi] Chain enrichment failed:", error)
-        return Effect.succeed(null) // Don't fail the entire operation
+    const running = yield* findConflictingJob(scope, providerNames, {
+      excludeJobId: jobId ?? undefined,
+      runningOnly: true,
+    })
+    return yield* running ??
+      new FetchInProgressError({
+        jobId: null,
+        status: "running",
+        startedAt: null,
+        providers: providerNames,
       })
+  })
+
+/**
+ * Parse a comma-separated provider list ("lifi,relay") into unique, lowercased names
+ */
+export const parseProviderList = (value: string): ReadonlyArray<string> =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name.length > 0)
     )
+  )
 
-    return {
+/**
+ * Admin API Service
+ * Provider fetches run as jobs: createFetchJob persists a job with one step per provider
+ * (plus chain enrichment), runFetchJob runs whatever steps are left, so the same call
+ * starts a new job or resumes an interrupted one.
+ */
+export class AdminApiService extends Effect.Service<AdminApiService>()("AdminApiService", {
+  effect: Effect.gen(function* () {
+    const registry = yield* ProviderRegistry
+    const drizzle = yield* Pg.PgDrizzle
+
+    // Resolve fetch and enrichment dependencies once at layer creation
+    // so they don't leak into the service's public method types
+    const context = yield* Effect.context<ProviderRequirements | ChainRegistry>()
+    const alerts = yield* AlertDispatcher
+    const subscriptions = yield* SubscriptionDispatcher
+
+    /**
+     * Fetch one provider
+     * Effect.either keeps failures as values so one provider can't abort the others.
+     * Also returns the chain IDs a successful fetch touched.
+     */
+    const fetchProvider = (provider: ProviderAdapter) =>
+      provider.pipeline.fetch.pipe(
+        Effect.either,
+        Effect.map((result): { result: FetchResult; chainIds: Array<number> } =>
+          result._tag === "Right"
+            ? {
+                result: {
+                  provider: provider.name,
+                  success: true,
+                  chainsCount: result.right.chains.length,
+                  tokensCount: result.right.tokens.length,
+                  fetchId: result.right.fetchId,
+                  notModified: result.right.notModified,
+                  failedChains: result.right.failedChains,
+                  rejected: result.right.rejected,
+                  diff: result.right.diff,
+                  http: result.right.http,
+                  metrics: result.right.metrics,
+                },
+                chainIds: result.right.chains.map((chain) => chain.id),
+              }
+            : {
+                result: {
+                  provider: provider.name,
+                  success: false,
+                  error: String(result.left),
+                  http: result.left.http,
+                  metrics: result.left.metrics,
+                  quarantineId:
+                    result.left.cause instanceof FetchQuarantinedError
+                      ? result.left.cause.quarantineId
+                      : undefined,
+                },
+                chainIds: [],
+              }
+        )
+      )
+
+    const toFetchResponse = (
+      fetchResults: ReadonlyArray<FetchResult>,
+      chainEnrichment: FetchResponse["chainEnrichment"] | null,
+      enrichmentMs: number | null,
+      durationMs: number
+    ): FetchResponse => ({
       results: fetchResults,
       summary: {
         total: fetchResults.length,
-        successful,
-        failed,
+        successful: fetchResults.filter((r) => r.success).length,
+        failed: fetchResults.filter((r) => !r.success && !r.skipped).length,
+        skipped: fetchResults.filter((r) => r.skipped).length,
       },
       chainEnrichment: chainEnrichment ?? undefined,
+      enrichmentMs: enrichmentMs ?? undefined,
       durationMs,
-    }
-  }).pipe(
-    Effect.mapError((error) => new AdminApiError({ message: "Failed to trigger fetch", cause: error }))
-  )
+    })
+
+    const touchJob = (jobId: number) =>
+      drizzle
+        .update(db.fetchJobs)
+        .set({ updatedAt: sql`NOW()` })
+        .where(eq(db.fetchJobs.id, jobId))
+
+    const updateStep = (
+      jobId: number,
+      name: string,
+      values: Partial<typeof db.fetchJobSteps.$inferInsert>
+    ) =>
+      Effect.zipRight(
+        drizzle
+          .update(db.fetchJobSteps)
+          .set(values)
+          .where(and(eq(db.fetchJobSteps.jobId, jobId), eq(db.fetchJobSteps.name, name))),
+        touchJob(jobId)
+      )
+
+    const loadSteps = (jobId: number) =>
+      drizzle
+        .select()
+        .from(db.fetchJobSteps)
+        .where(eq(db.fetchJobSteps.jobId, jobId))
+        .orderBy(db.fetchJobSteps.id)
+
+    const loadJob = (jobId: number) =>
+      Effect.gen(function* () {
+        const [job] = yield* drizzle.select().from(db.fetchJobs).where(eq(db.fetchJobs.id, jobId))
+        if (!job) {
+          return yield* new FetchJobNotFoundError({ jobId })
+        }
+        return job
+      })
+
+    /**
+     * All provider names, or the given ones if they are all registered
+     */
+    const resolveProviderNames = (providerNames: ReadonlyArray<string> | "all") =>
+      Effect.gen(function* () {
+        if (providerNames === "all") {
+          return registry.names
+        }
+
+        const unknown = providerNames.filter((name) => Option.isNone(registry.get(name)))
+        if (unknown.length > 0 || providerNames.length === 0) {
+          return yield* new UnknownProviderError({
+            providers: unknown,
+            available: registry.names,
+          })
+        }
+        return providerNames
+      })
+
+    /**
+     * Fail with FetchInProgressError if a fetch of these providers is queued or running
+     * Holds the job creation lock for the rest of the scope, so the check and the job insert
+     * that follows can't interleave with another request's.
+     * Interrupted jobs don't count; running fetches are also detected through their locks.
+     */
+    const ensureNoConflictingFetch = (
+      scope: FetchScope,
+      providerNames: ReadonlyArray<string>,
+      excludeJobId?: number
+    ) =>
+      Effect.gen(function* () {
+        yield* advisoryLock({ name: FETCH_JOBS_LOCK })
+
+        const conflict = yield* findConflictingJob(scope, providerNames, {
+          excludeJobId,
+          activeSince: new Date(Date.now() - JOB_STALE_AFTER_MS),
+        })
+        if (conflict) {
+          return yield* conflict
+        }
+
+        yield* Effect.scoped(acquireFetchLocks(scope, providerNames, excludeJobId ?? null))
+      })
+
+    /**
+     * Create a job for all providers (enriching all chains) or the named subset
+     */
+    const createFetchJob = (providerNames: ReadonlyArray<string> | "all", options: FetchJobOptions) =>
+      Effect.gen(function* () {
+        const names = yield* resolveProviderNames(providerNames)
+        const scope = providerNames === "all" ? "all" : "providers"
+        const enrich = providerNames === "all" ? "all" : options.enrichChains ? "touched" : "none"
+
+        yield* ensureNoConflictingFetch(scope, names)
+
+        const [job] = yield* drizzle
+          .insert(db.fetchJobs)
+          .values({ status: "pending", trigger: options.trigger, scope, enrich })
+          .returning({ id: db.fetchJobs.id })
+
+        yield* drizzle.insert(db.fetchJobSteps).values([
+          ...names.map((name) => ({
+            jobId: job.id,
+            name,
+            kind: "provider" as const,
+            status: "pending" as const,
+          })),
+          ...(enrich === "none"
+            ? []
+            : [{ jobId: job.id, name: "enrich", kind: "enrich" as const, status: "pending" as const }]),
+        ])
+
+        yield* Effect.log(`Created fetch job ${job.id} (${names.length} providers, enrich: ${enrich})`)
+        return job.id
+      }).pipe(
+        Effect.scoped,
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: "Failed to create fetch job", cause: error }))
+        ),
+        Effect.provide(context)
+      )
+
+    const getFetchJob = (jobId: number) =>
+      Effect.gen(function* () {
+        const job = yield* loadJob(jobId)
+        const steps = yield* loadSteps(jobId)
+
+        const stale = Date.now() - job.updatedAt.getTime() > JOB_STALE_AFTER_MS
+        const count = (status: FetchJobStep["status"]) =>
+          steps.filter((step) => step.status === status).length
+
+        return {
+          id: job.id,
+          status: job.status === "running" && stale ? "interrupted" : job.status,
+          trigger: job.trigger,
+          scope: job.scope,
+          enrich: job.enrich,
+          createdAt: job.createdAt,
+          startedAt: job.startedAt,
+          finishedAt: job.finishedAt,
+          progress: {
+            total: steps.length,
+            pending: count("pending"),
+            running: count("running"),
+            succeeded: count("succeeded"),
+            failed: count("failed"),
+            skipped: count("skipped"),
+          },
+          steps: steps.map((step) => ({
+            name: step.name,
+            kind: step.kind,
+            status: step.status,
+            result: step.fetchResult,
+            enrichment: step.enrichment,
+            error: step.error,
+            startedAt: step.startedAt,
+            finishedAt: step.finishedAt,
+          })),
+          result: job.result,
+        } satisfies FetchJobStatus
+      }).pipe(
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: "Failed to load fetch job", cause: error }))
+        )
+      )
+
+    /**
+     * Fetch one provider, unless its circuit is open
+     * A half-open circuit lets the fetch through as a probe.
+     */
+    const runProviderStep = (jobId: number, name: string, circuit: ProviderCircuit) =>
+      Effect.gen(function* () {
+        if (circuit.state === "open") {
+          const error = `Circuit open after ${circuit.consecutiveFailures} consecutive failures, retrying after ${circuit.retryAt?.toISOString()}`
+          yield* Effect.logWarning(`Skipping ${name}: ${error}`)
+          yield* recordProviderFetch(name, "skipped")
+          yield* updateStep(jobId, name, {
+            status: "skipped",
+            fetchResult: { provider: name, success: false, skipped: true, error },
+            error,
+            finishedAt: new Date(),
+          })
+          return
+        }
+
+        yield* updateStep(jobId, name, { status: "running", startedAt: new Date() })
+
+        const provider = registry.get(name)
+        if (Option.isNone(provider)) {
+          yield* updateStep(jobId, name, {
+            status: "failed",
+            error: `Provider ${name} is no longer registered`,
+            finishedAt: new Date(),
+          })
+          return
+        }
+
+        if (circuit.state === "half-open") {
+          yield* Effect.log(
+            `Probing ${name} (circuit half-open after ${circuit.consecutiveFailures} consecutive failures)`
+          )
+        }
+
+        const { result, chainIds } = yield* fetchProvider(provider.value)
+        yield* updateStep(jobId, name, {
+          status: result.success ? "succeeded" : "failed",
+          fetchResult: result,
+          chainIds,
+          error: result.error ?? null,
+          finishedAt: new Date(),
+        })
+      }).pipe(Effect.annotateLogs("provider", name))
+
+    /**
+     * Enrich all chains, or the chains the job's providers touched
+     * A failed enrichment is recorded on the step without failing the job
+     */
+    const runEnrichStep = (jobId: number, enrich: "all" | "touched") =>
+      Effect.gen(function* () {
+        yield* updateStep(jobId, "enrich", { status: "running", startedAt: new Date() })
+
+        const steps = yield* loadSteps(jobId)
+        const touchedChainIds = Array.from(new Set(steps.flatMap((step) => step.chainIds ?? [])))
+
+        const enrichment = yield* Effect.either(
+          enrich === "all" ? enrichChains : enrichChainsByIds(touchedChainIds)
+        )
+
+        if (enrichment._tag === "Left") {
+          yield* Effect.logError("Chain enrichment failed", Cause.fail(enrichment.left))
+        }
+
+        yield* updateStep(
+          jobId,
+          "enrich",
+          enrichment._tag === "Right"
+            ? { status: "succeeded", enrichment: enrichment.right, finishedAt: new Date() }
+            : { status: "failed", error: String(enrichment.left), finishedAt: new Date() }
+        )
+      })
+
+    /**
+     * Record a run of the job, and store the logs it captures when it ends
+     * Log lines are annotated with the job and run IDs, including those of forked fibers.
+     */
+    const withRunLogs =
+      (jobId: number) =>
+      <A, E, R>(run: Effect.Effect<A, E, R>) =>
+        Effect.gen(function* () {
+          const runId = randomUUID()
+          yield* drizzle.insert(db.fetchJobRuns).values({ id: runId, jobId })
+
+          const buffer = makeRunLogBuffer()
+          const storeLogs = drizzle
+            .update(db.fetchJobRuns)
+            .set({ logs: [...buffer.entries()], droppedLogs: buffer.dropped(), finishedAt: new Date() })
+            .where(eq(db.fetchJobRuns.id, runId))
+            .pipe(
+              Effect.catchAll((error) =>
+                Effect.logError(`Failed to store the logs of run ${runId}`, Cause.fail(error))
+              )
+            )
+
+          return yield* run.pipe(
+            Effect.provide(Logger.add(buffer.logger)),
+            Effect.annotateLogs({ jobId, runId }),
+            Effect.ensuring(storeLogs)
+          )
+        })
+
+    /**
+     * Run a job's remaining steps and complete it
+     * Providers run in parallel; steps that already finished are kept as they are, and
+     * steps left "running" by an interrupted run are run again.
+     */
+    const runJobSteps = (job: typeof db.fetchJobs.$inferSelect) =>
+      Effect.gen(function* () {
+        const jobId = job.id
+        const steps = yield* loadSteps(jobId)
+        const isRemaining = (step: (typeof steps)[number]) =>
+          step.status === "pending" || step.status === "running"
+
+        const remaining = steps.filter((step) => step.kind === "provider" && isRemaining(step))
 
-    return { triggerFetch }
+        // Held until the job completes (or its process dies)
+        yield* acquireFetchLocks(
+          job.scope,
+          job.scope === "all" ? registry.names : remaining.map((step) => step.name),
+          jobId
+        )
+
+        const startedAt = job.startedAt ?? new Date()
+        yield* drizzle
+          .update(db.fetchJobs)
+          .set({ status: "running", startedAt, updatedAt: sql`NOW()` })
+          .where(eq(db.fetchJobs.id, jobId))
+
+        const providerSteps = steps.filter((step) => step.kind === "provider").length
+        if (remaining.length < providerSteps) {
+          yield* Effect.log(`Resuming fetch job ${jobId}: ${remaining.length}/${providerSteps} providers left`)
+        }
+
+        // Open circuits are skipped, half-open ones probed (see providers/breaker.ts)
+        const circuits = yield* loadProviderCircuits(remaining.map((step) => step.name)).pipe(
+          Effect.catchTag("ConfigError", (error) =>
+            Effect.fail(new AdminApiError({ message: "Invalid circuit breaker settings", cause: error }))
+          )
+        )
+
+        yield* Effect.forEach(
+          remaining,
+          (step) =>
+            Effect.gen(function* () {
+              const circuit = circuits.get(step.name)
+              if (!circuit) {
+                return yield* new UnknownProviderError({ providers: [step.name], available: registry.names })
+              }
+              return yield* runProviderStep(jobId, step.name, circuit)
+            }),
+          { concurrency: "unbounded" }
+        )
+
+        const enrichStep = steps.find((step) => step.kind === "enrich")
+        if (enrichStep && isRemaining(enrichStep) && job.enrich !== "none") {
+          yield* runEnrichStep(jobId, job.enrich)
+        }
+
+        const finished = yield* loadSteps(jobId)
+        const enriched = finished.find((step) => step.kind === "enrich")
+        const result = toFetchResponse(
+          finished.flatMap((step) => (step.fetchResult ? [step.fetchResult] : [])),
+          enriched?.enrichment ?? null,
+          enriched?.startedAt && enriched.finishedAt
+            ? enriched.finishedAt.getTime() - enriched.startedAt.getTime()
+            : null,
+          Date.now() - startedAt.getTime()
+        )
+
+        yield* drizzle
+          .update(db.fetchJobs)
+          .set({ status: "completed", result, updatedAt: sql`NOW()`, finishedAt: new Date() })
+          .where(eq(db.fetchJobs.id, jobId))
+
+        yield* Effect.log(
+          `Fetch job ${jobId} completed: ${result.summary.successful}/${result.summary.total} providers succeeded`
+        )
+
+        return yield* getFetchJob(jobId)
+      })
+
+    /**
+     * Run a job (see runJobSteps), unless it has already completed
+     * Each run's logs are kept with the job (see getFetchJobLogs).
+     */
+    const runFetchJob = (jobId: number) =>
+      Effect.gen(function* () {
+        const job = yield* loadJob(jobId)
+        if (job.status === "completed") {
+          return yield* getFetchJob(jobId)
+        }
+
+        return yield* runJobSteps(job).pipe(withRunLogs(jobId))
+      }).pipe(
+        Effect.scoped,
+        Effect.withSpan("AdminApiService.runFetchJob", { attributes: { jobId } }),
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: `Failed to run fetch job ${jobId}`, cause: error }))
+        ),
+        Effect.provide(context)
+      )
+
+    /**
+     * A fetch job's runs with their logs, oldest first
+     */
+    const getFetchJobLogs = (jobId: number, options: FetchJobLogsOptions = {}) =>
+      Effect.gen(function* () {
+        yield* loadJob(jobId)
+
+        const runs = yield* drizzle
+          .select()
+          .from(db.fetchJobRuns)
+          .where(
+            and(
+              eq(db.fetchJobRuns.jobId, jobId),
+              options.runId ? eq(db.fetchJobRuns.id, options.runId) : undefined
+            )
+          )
+          .orderBy(db.fetchJobRuns.startedAt)
+
+        const minimumLevel = options.minimumLevel
+        const matches = (entry: RunLogEntry) =>
+          (minimumLevel === undefined ||
+            LogLevel.greaterThanEqual(
+              LogLevel.allLevels.find((level) => level.label === entry.level) ?? LogLevel.All,
+              minimumLevel
+            )) &&
+          (options.provider === undefined || entry.annotations.provider === options.provider)
+
+        return runs.map(
+          (run): FetchJobRun => ({
+            runId: run.id,
+            startedAt: run.startedAt,
+            finishedAt: run.finishedAt,
+            logs: run.logs?.filter(matches) ?? null,
+            droppedLogs: run.droppedLogs,
+          })
+        )
+      }).pipe(
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: `Failed to load logs of fetch job ${jobId}`, cause: error }))
+        )
+      )
+
+    /**
+     * Check that a job can be resumed now, before resuming it in the background
+     * Fails with FetchInProgressError if the job itself is still running, or if another
+     * job conflicts with its remaining providers.
+     */
+    const checkFetchJobResumable = (jobId: number) =>
+      Effect.gen(function* () {
+        const job = yield* getFetchJob(jobId)
+        if (job.status === "running") {
+          return yield* new FetchInProgressError({
+            jobId,
+            status: "running",
+            startedAt: job.startedAt,
+            providers: job.steps.filter((step) => step.kind === "provider").map((step) => step.name),
+          })
+        }
+        if (job.status === "completed") {
+          return job
+        }
+
+        const remaining = job.steps
+          .filter((step) => step.kind === "provider" && (step.status === "pending" || step.status === "running"))
+          .map((step) => step.name)
+
+        yield* ensureNoConflictingFetch(job.scope, job.scope === "all" ? registry.names : remaining, jobId)
+        return job
+      }).pipe(
+        Effect.scoped,
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: `Failed to check fetch job ${jobId}`, cause: error }))
+        ),
+        Effect.provide(context)
+      )
+
+    /**
+     * Fetch and normalize providers in parallel without writing anything, returning the diff
+     * each would produce against the stored data
+     * Runs outside of fetch jobs and takes no locks.
+     */
+    const dryRunFetch = (providerNames: ReadonlyArray<string> | "all") =>
+      Effect.gen(function* () {
+        const names = yield* resolveProviderNames(providerNames)
+        const startTime = Date.now()
+
+        const results = yield* Effect.forEach(
+          names.flatMap((name) => Option.toArray(registry.get(name))),
+          (provider) =>
+            provider.pipeline.dryRun.pipe(
+              Effect.either,
+              Effect.map(
+                (result): DryRunResult =>
+                  result._tag === "Right"
+                    ? {
+                        provider: provider.name,
+                        success: true,
+                        chainsCount: result.right.chains.length,
+                        tokensCount: result.right.tokens.length,
+                        failedChains: result.right.failedChains,
+                        rejected: result.right.rejected,
+                        diff: result.right.diff,
+                        anomalies: result.right.anomalies,
+                        http: result.right.http,
+                        metrics: result.right.metrics,
+                      }
+                    : {
+                        provider: provider.name,
+                        success: false,
+                        error: String(result.left),
+                        http: result.left.http,
+                        metrics: result.left.metrics,
+                      }
+              )
+            ),
+          { concurrency: "unbounded" }
+        )
+
+        return {
+          dryRun: true,
+          results,
+          summary: {
+            total: results.length,
+            successful: results.filter((r) => r.success).length,
+            failed: results.filter((r) => !r.success).length,
+          },
+          durationMs: Date.now() - startTime,
+        } satisfies DryRunResponse
+      }).pipe(
+        Effect.withSpan("AdminApiService.dryRunFetch", {
+          attributes: { providers: providerNames === "all" ? "all" : providerNames.join(",") },
+        }),
+        Effect.provide(context)
+      )
+
+    /**
+     * Decide which providers are due, from their cadence and backoff (see providers/schedule.ts)
+     */
+    const planScheduledFetch = planProviderFetches(registry.names).pipe(
+      Effect.catchTags({
+        SqlError: (error) =>
+          Effect.fail(new AdminApiError({ message: "Failed to load fetch history", cause: error })),
+        ConfigError: (error) =>
+          Effect.fail(new AdminApiError({ message: "Invalid fetch cadence", cause: error })),
+      }),
+      Effect.provide(context)
+    )
+
+    /**
+     * Create a job for the providers that are due, enriching the chains they touch
+     */
+    const createScheduledFetchJob = (trigger: string) =>
+      Effect.gen(function* () {
+        const decisions = yield* planScheduledFetch
+        const due = decisions.filter((decision) => decision.due).map((decision) => decision.provider)
+
+        if (due.length === 0) {
+          return { jobId: null, decisions } satisfies ScheduledFetch
+        }
+
+        const jobId = yield* createFetchJob(due, { trigger, enrichChains: true })
+        return { jobId, decisions } satisfies ScheduledFetch
+      })
+
+    /**
+     * Quarantined snapshots, newest first
+     */
+    const listQuarantinedFetches = (status?: QuarantineStatus) =>
+      listQuarantined(status).pipe(
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: "Failed to load quarantined fetches", cause: error }))
+        ),
+        Effect.provide(context)
+      )
+
+    const getQuarantinedFetch = (quarantineId: number) =>
+      getQuarantined(quarantineId).pipe(
+        Effect.catchTags({
+          SqlError: (error) =>
+            Effect.fail(new AdminApiError({ message: "Failed to load quarantined fetch", cause: error })),
+          ParseError: (error) =>
+            Effect.fail(new AdminApiError({ message: "Invalid quarantined snapshot", cause: error })),
+          ConfigError: (error) =>
+            Effect.fail(new AdminApiError({ message: "Invalid anomaly thresholds", cause: error })),
+        }),
+        Effect.provide(context)
+      )
+
+    /**
+     * Review a quarantined snapshot while holding its provider's fetch lock
+     * Fails with FetchInProgressError while the provider is being fetched.
+     */
+    const reviewQuarantinedFetch = <A, E, R>(
+      quarantineId: number,
+      review: Effect.Effect<A, E, R>
+    ) =>
+      Effect.gen(function* () {
+        const [row] = yield* drizzle
+          .select({ provider: db.quarantinedFetches.providerName })
+          .from(db.quarantinedFetches)
+          .where(eq(db.quarantinedFetches.id, quarantineId))
+
+        if (!row) {
+          return yield* new QuarantineNotFoundError({ quarantineId })
+        }
+
+        yield* acquireFetchLocks("providers", [row.provider], null)
+        return yield* review
+      }).pipe(Effect.scoped)
+
+    /**
+     * Store a pending quarantined snapshot as the provider's current data
+     */
+    const approveQuarantinedFetch = (quarantineId: number, reviewedBy: string) =>
+      reviewQuarantinedFetch(quarantineId, approveQuarantined(quarantineId, reviewedBy)).pipe(
+        // Approved snapshots are what decimals-change alerts are most likely to come from.
+        // Subscription deliveries are only recorded (see sendSubscriptionDeliveries)
+        Effect.tap((approved) =>
+          Effect.zip(
+            alerts.fetchStored(approved.quarantine.provider, approved.fetchId),
+            subscriptions.fetchStored(approved.quarantine.provider, approved.fetchId)
+          )
+        ),
+        Effect.catchTags({
+          SqlError: (error) =>
+            Effect.fail(new AdminApiError({ message: `Failed to approve quarantined fetch ${quarantineId}`, cause: error })),
+          ParseError: (error) =>
+            Effect.fail(new AdminApiError({ message: "Invalid quarantined snapshot", cause: error })),
+          ConfigError: (error) =>
+            Effect.fail(new AdminApiError({ message: "Invalid storage settings", cause: error })),
+        }),
+        Effect.provide(context)
+      )
+
+    const rejectQuarantinedFetch = (quarantineId: number, reviewedBy: string) =>
+      reviewQuarantinedFetch(quarantineId, rejectQuarantined(quarantineId, reviewedBy)).pipe(
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new AdminApiError({ message: `Failed to reject quarantined fetch ${quarantineId}`, cause: error }))
+        ),
+        Effect.provide(context)
+      )
+
+    /**
+     * Alert webhook targets from ALERT_WEBHOOKS, without their URLs and secrets
+     */
+    const listAlertTargets = alerts.targets.map(describeAlertTarget)
+
+    /**
+     * Send a test alert to one target or all of them
+     * Fails with AlertTargetNotFoundError for an unknown target.
+     */
+    const sendTestAlert = (targetName?: string) =>
+      alerts.sendTest(targetName).pipe(Effect.withSpan("AdminApiService.sendTestAlert"))
+
+    /**
+     * Send the subscription deliveries fetches have left pending
+     * Fetches only record them, so callers run this once fetch jobs have released their locks.
+     */
+    const sendSubscriptionDeliveries = subscriptions.sendPending.pipe(
+      Effect.withSpan("AdminApiService.sendSubscriptionDeliveries")
+    )
+
+    return {
+      createFetchJob,
+      getFetchJob,
+      runFetchJob,
+      getFetchJobLogs,
+      checkFetchJobResumable,
+      dryRunFetch,
+      planScheduledFetch,
+      createScheduledFetchJob,
+      listQuarantinedFetches,
+      getQuarantinedFetch,
+      approveQuarantinedFetch,
+      rejectQuarantinedFetch,
+      listAlertTargets,
+      sendTestAlert,
+      sendSubscriptionDeliveries,
+    }
   })
 }) {}
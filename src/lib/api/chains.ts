@@ -6,7 +6,9 @@ import { Effect } from "effect"
 import * as Pg from "@effect/sql-drizzle/Pg"
 import { SqlError } from "@effect/sql/SqlError"
 import { chains, chainProviderSupport, tokens } from "@/lib/db/schema"
-import { sql } from "drizzle-orm"
+import { sql, and } from "drizzle-orm"
+import { listedTokensCondition, type ListingOptions } from "./listing"
+import { withQuerySpan } from "@/lib/tracing/spans"
 
 export interface ChainInfo {
   readonly chainId: number
@@ -50,71 +52,79 @@ export class ChainApiService extends Effect.Service<ChainApiService>()("ChainApi
   effect: Effect.gen(function* () {
     const drizzle = yield* Pg.PgDrizzle
 
-    const getChains = Effect.gen(function* () {
-    const chainList = yield* drizzle
-      .select({
-        chainId: chains.chainId,
-        name: chains.name,
-        shortName: chains.shortName,
-        chainType: chains.chainType,
-        icon: chains.icon,
-        infoUrl: chains.infoUrl,
-        explorers: chains.explorers,
-        nativeCurrencyName: chains.nativeCurrencyName,
-        nativeCurrencySymbol: chains.nativeCurrencySymbol,
-        nativeCurrencyDecimals: chains.nativeCurrencyDecimals,
-        providerCount: sql<number>`COUNT(DISTINCT ${chainProviderSupport.providerName})`,
-        tokenCount: sql<number>`COUNT(DISTINCT ${tokens.id})`,
-        providers: sql<string[]>`ARRAY_AGG(DISTINCT ${chainProviderSupport.providerName})`,
-      })
-      .from(chains)
-      .leftJoin(chainProviderSupport, sql`${chains.chainId} = ${chainProviderSupport.chainId}`)
-      .leftJoin(tokens, sql`${chains.chainId} = ${tokens.chainId}`)
-      .groupBy(
-        chains.chainId,
-        chains.name,
-        chains.shortName,
-        chains.chainType,
-        chains.icon,
-        chains.infoUrl,
-        chains.explorers,
-        chains.nativeCurrencyName,
-        chains.nativeCurrencySymbol,
-        chains.nativeCurrencyDecimals
-      )
-      .orderBy(sql`COUNT(DISTINCT ${chainProviderSupport.providerName}) DESC`, chains.chainId)
+    const getChains = (options: ListingOptions = {}) =>
+      Effect.gen(function* () {
+      const chainList = yield* drizzle
+        .select({
+          chainId: chains.chainId,
+          name: chains.name,
+          shortName: chains.shortName,
+          chainType: chains.chainType,
+          icon: chains.icon,
+          infoUrl: chains.infoUrl,
+          explorers: chains.explorers,
+          nativeCurrencyName: chains.nativeCurrencyName,
+          nativeCurrencySymbol: chains.nativeCurrencySymbol,
+          nativeCurrencyDecimals: chains.nativeCurrencyDecimals,
+          providerCount: sql<number>`COUNT(DISTINCT ${chainProviderSupport.providerName})`,
+          tokenCount: sql<number>`COUNT(DISTINCT ${tokens.id})`,
+          providers: sql<string[]>`ARRAY_AGG(DISTINCT ${chainProviderSupport.providerName})`,
+        })
+        .from(chains)
+        .leftJoin(chainProviderSupport, sql`${chains.chainId} = ${chainProviderSupport.chainId}`)
+        .leftJoin(
+          tokens,
+          and(sql`${chains.chainId} = ${tokens.chainId}`, listedTokensCondition(options))
+        )
+        .groupBy(
+          chains.chainId,
+          chains.name,
+          chains.shortName,
+          chains.chainType,
+          chains.icon,
+          chains.infoUrl,
+          chains.explorers,
+          chains.nativeCurrencyName,
+          chains.nativeCurrencySymbol,
+          chains.nativeCurrencyDecimals
+        )
+        .orderBy(sql`COUNT(DISTINCT ${chainProviderSupport.providerName}) DESC`, chains.chainId)
+        .pipe(withQuerySpan("chains.list"))
 
-    const chainInfos: ChainInfo[] = chainList.map((chain) => ({
-      chainId: chain.chainId,
-      name: chain.name,
-      shortName: chain.shortName ?? undefined,
-      chainType: chain.chainType ?? undefined,
-      icon: chain.icon ?? undefined,
-      infoUrl: chain.infoUrl ?? undefined,
-      explorers: chain.explorers as any ?? undefined,
-      nativeCurrency: {
-        name: chain.nativeCurrencyName,
-        symbol: chain.nativeCurrencySymbol,
-        decimals: chain.nativeCurrencyDecimals,
-      },
-      providerCount: chain.providerCount,
-      tokenCount: chain.tokenCount,
-      providers: chain.providers,
-    }))
+      const chainInfos: ChainInfo[] = chainList.map((chain) => ({
+        chainId: chain.chainId,
+        name: chain.name,
+        shortName: chain.shortName ?? undefined,
+        chainType: chain.chainType ?? undefined,
+        icon: chain.icon ?? undefined,
+        infoUrl: chain.infoUrl ?? undefined,
+        explorers: chain.explorers as any ?? undefined,
+        nativeCurrency: {
+          name: chain.nativeCurrencyName,
+          symbol: chain.nativeCurrencySymbol,
+          decimals: chain.nativeCurrencyDecimals,
+        },
+        providerCount: chain.providerCount,
+        tokenCount: chain.tokenCount,
+        providers: chain.providers,
+      }))
 
-    return {
-      chains: chainInfos,
-      summary: {
-        totalChains: chainInfos.length,
-        multiProviderChains: chainInfos.filter((c) => c.providerCount > 1).length,
-        totalTokens: chainInfos.reduce((sum, c) => sum + Number(c.tokenCount), 0),
-      },
-    }
-  }).pipe(
-    Effect.mapError((error) => new ChainApiError("Failed to fetch chains", error))
-  )
+      return {
+        chains: chainInfos,
+        summary: {
+          totalChains: chainInfos.length,
+          multiProviderChains: chainInfos.filter((c) => c.providerCount > 1).length,
+          totalTokens: chainInfos.reduce((sum, c) => sum + Number(c.tokenCount), 0),
+        },
+      }
+    }).pipe(
+      Effect.mapError((error) => new ChainApiError("Failed to fetch chains", error)),
+      Effect.withSpan("ChainApiService.getChains", {
+        attributes: { includeDelisted: options.includeDelisted ?? false },
+      })
+    )
 
-  const getChainById = (chainId: number) =>
+  const getChainById = (chainId: number, options: ListingOptions = {}) =>
     Effect.gen(function* () {
       const chainList = yield* drizzle
         .select({
@@ -134,7 +144,10 @@ export class ChainApiService extends Effect.Service<ChainApiService>()("ChainApi
         })
         .from(chains)
         .leftJoin(chainProviderSupport, sql`${chains.chainId} = ${chainProviderSupport.chainId}`)
-        .leftJoin(tokens, sql`${chains.chainId} = ${tokens.chainId}`)
+        .leftJoin(
+          tokens,
+          and(sql`${chains.chainId} = ${tokens.chainId}`, listedTokensCondition(options))
+        )
         .where(sql`${chains.chainId} = ${chainId}`)
         .groupBy(
           chains.chainId,
@@ -148,6 +161,7 @@ export class ChainApiService extends Effect.Service<ChainApiService>()("ChainApi
           chains.nativeCurrencySymbol,
           chains.nativeCurrencyDecimals
         )
+        .pipe(withQuerySpan("chains.byId"))
 
       if (chainList.length === 0) {
         return yield* Effect.fail(new ChainApiError(`Chain not found: ${chainId}`))
@@ -177,7 +191,10 @@ export class ChainApiService extends Effect.Service<ChainApiService>()("ChainApi
         error instanceof ChainApiError
           ? error
           : new ChainApiError("Failed to fetch chain by ID", error)
-      )
+      ),
+      Effect.withSpan("ChainApiService.getChainById", {
+        attributes: { chainId, includeDelisted: options.includeDelisted ?? false },
+      })
     )
 
     const getChainMetadata = Effect.gen(function* () {
@@ -191,6 +208,7 @@ export class ChainApiService extends Effect.Service<ChainApiService>()("ChainApi
           explorers: chains.explorers,
         })
         .from(chains)
+        .pipe(withQuerySpan("chains.metadata"))
 
       return chainList.map((chain) => ({
         chainId: chain.chainId,
@@ -200,7 +218,8 @@ export class ChainApiService extends Effect.Service<ChainApiService>()("ChainApi
         explorers: chain.explorers as any ?? undefined,
       }))
     }).pipe(
-      Effect.mapError((error) => new ChainApiError("Failed to fetch chain metadata", error))
+      Effect.mapError((error) => new ChainApiError("Failed to fetch chain metadata", error)),
+      Effect.withSpan("ChainApiService.getChainMetadata")
     )
 
     return { getChains, getChainById, getChainMetadata }
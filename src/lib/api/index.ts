@@ -5,30 +5,88 @@
 
 import { Layer } from "effect"
 import { DatabaseLive } from "../db/layer"
-import { AllProvidersLive } from "../providers"
+import { LoggingLive } from "../logging/layer"
+import { TracingLive } from "../tracing/layer"
+import { AllProvidersLive, ProviderRegistry } from "../providers"
 import { ProviderApiService } from "./providers"
 import { ChainApiService } from "./chains"
 import { TokenApiService } from "./tokens"
 import { AdminApiService } from "./admin"
+import { SubscriptionApiService } from "./subscriptions"
+import { SubscriptionDispatcherLive } from "../subscriptions/dispatcher"
 
 /**
  * Export all services and types
  */
-export { ProviderApiService, ChainApiService, TokenApiService, AdminApiService }
-export type { ProvidersResponse, ProviderMetadata } from "./providers"
+export { ProviderApiService, ChainApiService, TokenApiService, AdminApiService, SubscriptionApiService }
+export type {
+  ProvidersResponse,
+  ProviderStatus,
+  ProviderMetadata,
+  FetchDiffResponse,
+} from "./providers"
+export { FetchDiffNotFoundError, FETCH_METRICS_LIMIT } from "./providers"
 export type { ChainsResponse, ChainInfo } from "./chains"
-export type { TokensResponse, TokenDetailResponse } from "./tokens"
+export type { TokensResponse, TokenDetailResponse, TokenQueryOptions } from "./tokens"
 export { TokenListQuery, TokenNotFoundError } from "./tokens"
-export type { FetchResponse } from "./admin"
+export type {
+  FetchResponse,
+  FetchResult,
+  ProviderFetchOptions,
+  FetchJobOptions,
+  FetchJobStatus,
+  FetchJobStep,
+  ScheduledFetch,
+  FetchJobRun,
+  FetchJobLogsOptions,
+  DryRunResult,
+  DryRunResponse,
+} from "./admin"
+export type { ScheduleDecision } from "../providers/schedule"
+export type { QuarantineStatus, QuarantinedFetch, QuarantinedFetchDetail } from "../providers/quarantine"
+export type { Anomaly } from "../providers/guard"
+export type { FetchMetrics, FetchMetricsPoint } from "../providers/metrics"
+export type { RunLogEntry } from "../logging/buffer"
+export type { AlertDelivery } from "../alerts/dispatcher"
+export type { AlertEvent } from "../alerts/events"
+export type {
+  Subscription,
+  CreatedSubscription,
+  SubscriptionDelivery,
+  SubscriptionDeliveryStatus,
+  SubscriptionDeliveriesOptions,
+} from "./subscriptions"
+export type { SubscriptionChange } from "../subscriptions/changes"
+export type { SubscriptionPayload } from "../subscriptions/payloads"
+export { SUBSCRIPTION_DELIVERY_HEADER } from "../subscriptions/dispatcher"
+export {
+  InvalidSubscriptionError,
+  SubscriptionLimitError,
+  SubscriptionNotFoundError,
+  SubscriptionDeliveryInProgressError,
+  SubscriptionApiError,
+} from "./subscriptions"
+export {
+  UnknownProviderError,
+  FetchJobNotFoundError,
+  FetchInProgressError,
+  describeFetchInProgress,
+  parseProviderList,
+} from "./admin"
 
 /**
  * Combined API layer with all services and database
  * Uses Layer.provideMerge to provide DatabaseLive to all service layers
  * Now using Effect.Service pattern with .Default auto-generated layers
  */
-const ProvidersLive = ProviderApiService.Default.pipe(Layer.provideMerge(DatabaseLive))
+const ProvidersLive = ProviderApiService.Default.pipe(
+  Layer.provideMerge(Layer.mergeAll(DatabaseLive, ProviderRegistry.Default))
+)
 const ChainsLive = ChainApiService.Default.pipe(Layer.provideMerge(DatabaseLive))
 const TokensLive = TokenApiService.Default.pipe(Layer.provideMerge(DatabaseLive))
+const SubscriptionsLive = SubscriptionApiService.Default.pipe(
+  Layer.provideMerge(Layer.mergeAll(DatabaseLive, SubscriptionDispatcherLive))
+)
 
 /**
  * Admin service requires AllProvidersLive (which includes DatabaseLive)
@@ -37,8 +95,10 @@ const AdminLive = AdminApiService.Default.pipe(Layer.provideMerge(AllProvidersLi
 
 /**
  * All API services in one layer
+ * Includes LoggingLive and TracingLive, so effects run with it log in the configured format
+ * and export their spans
  */
-export const ApiServicesLive = Layer.mergeAll(ProvidersLive, ChainsLive, TokensLive)
+export const ApiServicesLive = Layer.mergeAll(ProvidersLive, ChainsLive, TokensLive, LoggingLive, TracingLive)
 
 /**
  * Admin API services (includes provider fetch capabilities)
@@ -47,5 +107,12 @@ export const AdminApiServicesLive = Layer.mergeAll(
   ProvidersLive,
   ChainsLive,
   TokensLive,
-  AdminLive
+  AdminLive,
+  LoggingLive,
+  TracingLive
 )
+
+/**
+ * Subscription API services (includes the dispatcher, for redeliveries)
+ */
+export const SubscriptionApiServicesLive = Layer.mergeAll(SubscriptionsLive, LoggingLive, TracingLive)
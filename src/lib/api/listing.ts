@@ -0,0 +1,36 @@
+/**
+ * Shared filters for excluding delisted tokens from API queries
+ * Delisted tokens are hidden by default; callers opt in with includeDelisted.
+ */
+
+import { sql, isNull, type SQL } from "drizzle-orm"
+import { tokens } from "@/lib/db/schema"
+
+/**
+ * Options accepted by token, chain and provider queries
+ */
+export interface ListingOptions {
+  /** Include tokens the provider no longer lists (default: false) */
+  readonly includeDelisted?: boolean
+}
+
+/**
+ * Condition on the tokens table, or undefined (no filter) when delisted rows are included
+ * Meant to be combined with drizzle's and(), which ignores undefined conditions
+ */
+export const listedTokensCondition = (options: ListingOptions = {}): SQL | undefined =>
+  options.includeDelisted ? undefined : isNull(tokens.delistedAt)
+
+/**
+ * Raw SQL fragment for subqueries over an aliased tokens table
+ * e.g. sql`SELECT ... FROM tokens t2 WHERE t2.symbol = tokens.symbol ${listedTokensFragment("t2", options)}`
+ */
+export const listedTokensFragment = (alias: string, options: ListingOptions = {}): SQL =>
+  options.includeDelisted ? sql`` : sql`AND ${sql.raw(alias)}.delisted_at IS NULL`
+
+/**
+ * Read the includeDelisted query parameter (?includeDelisted=true)
+ */
+export const parseListingOptions = (searchParams: URLSearchParams): ListingOptions => ({
+  includeDelisted: searchParams.get("includeDelisted") === "true",
+})
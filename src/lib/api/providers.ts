@@ -3,18 +3,36 @@
  * This demonstrates Effect patterns for database queries and error handling
  */
 
-import { Effect } from "effect"
+import { Clock, Data, Effect, Option } from "effect"
 import * as Pg from "@effect/sql-drizzle/Pg"
+import { PgClient } from "@effect/sql-pg"
 import { SqlError } from "@effect/sql/SqlError"
-import { providerFetches, tokens } from "@/lib/db/schema"
-import { sql, eq } from "drizzle-orm"
+import { providerFetchDiffs, providerFetches, tokens } from "@/lib/db/schema"
+import { sql, eq, and } from "drizzle-orm"
+import { listedTokensCondition, type ListingOptions } from "./listing"
+import { withQuerySpan } from "@/lib/tracing/spans"
+import { ProviderRegistry } from "@/lib/providers/registry"
+import type { ProviderInfo } from "@/lib/providers/metadata"
+import { isStale, loadProviderCircuits, type ProviderCircuit } from "@/lib/providers/breaker"
+import { loadFetchMetrics, type FetchMetricsPoint } from "@/lib/providers/metrics"
+import { recordProviderGauges } from "@/lib/metrics/definitions"
+import type { DiffTokenChange, DiffTokenRef } from "@/lib/db/schema"
 
 /**
  * Provider summary statistics
  */
+/**
+ * Provider health from its latest fetch
+ * - healthy: succeeded
+ * - degraded: succeeded for some chains only (partial fetch, see provider_fetch_chains)
+ * - error: failed
+ */
+export type ProviderStatus = "healthy" | "degraded" | "error"
+
 export interface ProviderSummary {
   readonly name: string
-  readonly status: "healthy" | "error"
+  readonly displayName: string
+  readonly status: ProviderStatus
   readonly lastFetchedAt: Date
   readonly successRate: string
   readonly stats: {
@@ -24,10 +42,15 @@ export interface ProviderSummary {
   }
   readonly lastFetch: {
     readonly success: boolean
+    readonly partial: boolean
     readonly chainsCount: number | null
     readonly tokensCount: number | null
     readonly error: string | null
   }
+  /** Circuit breaker state, from the provider's recent fetches (see providers/breaker.ts) */
+  readonly circuit: ProviderCircuit
+  /** The circuit isn't closed: the stored data is from before the failing fetches */
+  readonly stale: boolean
 }
 
 export interface ProvidersResponse {
@@ -35,14 +58,48 @@ export interface ProvidersResponse {
   readonly summary: {
     readonly total: number
     readonly healthy: number
+    readonly degraded: number
     readonly error: number
+    readonly stale: number
   }
 }
 
 export interface ProviderMetadata {
   readonly provider: string
+  readonly info: ProviderInfo
   readonly totalTokens: number
   readonly uniqueSymbols: number
+  readonly circuit: ProviderCircuit
+  readonly stale: boolean
+  /** Stage timings of the latest fetches, oldest first (see provider_fetch_metrics) */
+  readonly fetchMetrics: ReadonlyArray<FetchMetricsPoint>
+}
+
+/**
+ * Fetches charted on the provider page
+ */
+export const FETCH_METRICS_LIMIT = 30
+
+/**
+ * Diff report for one fetch against the provider's previous successful fetch
+ */
+export interface FetchDiffResponse {
+  readonly provider: string
+  readonly fetchId: number
+  readonly previousFetchId: number | null
+  readonly fetchedAt: Date
+  readonly summary: {
+    readonly tokensAdded: number
+    readonly tokensRemoved: number
+    readonly tokensChanged: number
+    readonly chainsAdded: number
+    readonly chainsRemoved: number
+  }
+  readonly chainsAdded: ReadonlyArray<number>
+  readonly chainsRemoved: ReadonlyArray<number>
+  readonly tokensAdded: ReadonlyArray<DiffTokenRef>
+  readonly tokensRemoved: ReadonlyArray<DiffTokenRef>
+  readonly tokensChanged: ReadonlyArray<DiffTokenChange>
 }
 
 /**
@@ -55,6 +112,15 @@ export class ProviderApiError extends Error {
   }
 }
 
+/**
+ * No diff recorded for this provider and fetch ID
+ * (failed fetches and fetches stored before diffs existed have none)
+ */
+export class FetchDiffNotFoundError extends Data.TaggedError("FetchDiffNotFoundError")<{
+  readonly provider: string
+  readonly fetchId: number
+}> {}
+
 /**
  * Provider API Service
  * Uses Effect.Service pattern for dependency injection
@@ -62,6 +128,31 @@ export class ProviderApiError extends Error {
 export class ProviderApiService extends Effect.Service<ProviderApiService>()("ProviderApiService", {
   effect: Effect.gen(function* () {
     const drizzle = yield* Pg.PgDrizzle
+    const pg = yield* PgClient.PgClient
+    const registry = yield* ProviderRegistry
+
+    const loadCircuits = (providerNames: ReadonlyArray<string>) =>
+      loadProviderCircuits(providerNames).pipe(Effect.provideService(PgClient.PgClient, pg))
+
+    /**
+     * Circuit breaker state of one provider
+     */
+    const getProviderCircuit = (provider: string) =>
+      loadCircuits([provider]).pipe(
+        Effect.map((circuits) => circuits.get(provider)!),
+        Effect.mapError((error) => new ProviderApiError("Failed to load circuit breaker state", error)),
+        Effect.withSpan("ProviderApiService.getProviderCircuit", { attributes: { provider } })
+      )
+
+    /**
+     * Stage timings and transfer counters of the provider's latest fetches
+     */
+    const getFetchMetrics = (provider: string, limit: number = FETCH_METRICS_LIMIT) =>
+      loadFetchMetrics(provider, limit).pipe(
+        Effect.provideService(Pg.PgDrizzle, drizzle),
+        Effect.mapError((error) => new ProviderApiError("Failed to load fetch metrics", error)),
+        Effect.withSpan("ProviderApiService.getFetchMetrics", { attributes: { provider, limit } })
+      )
 
     const getProviders = Effect.gen(function* () {
     // Get all provider fetches and group them to find latest per provider
@@ -69,6 +160,7 @@ export class ProviderApiService extends Effect.Service<ProviderApiService>()("Pr
       .select()
       .from(providerFetches)
       .orderBy(providerFetches.fetchedAt)
+      .pipe(withQuerySpan("providerFetches.all"))
 
     // Group by provider and get latest + stats
     const providerMap = new Map<string, {
@@ -99,10 +191,22 @@ export class ProviderApiService extends Effect.Service<ProviderApiService>()("Pr
       }
     }
 
-    const providers: ProviderSummary[] = Array.from(providerMap.entries())
-      .map(([name, data]) => ({
-        name,
-        status: (data.latest.success ? "healthy" : "error") as "healthy" | "error",
+    const circuits = yield* loadCircuits(registry.names)
+
+    // Enumerate registered providers in registry order, skipping any never fetched
+    const providers: ProviderSummary[] = registry.providers
+      .flatMap((provider) => {
+        const data = providerMap.get(provider.name)
+        return data ? [{ provider, data }] : []
+      })
+      .map(({ provider, data }) => ({
+        name: provider.name,
+        displayName: provider.info.displayName,
+        status: (!data.latest.success
+          ? "error"
+          : data.latest.partial
+            ? "degraded"
+            : "healthy") as ProviderStatus,
         lastFetchedAt: data.latest.fetchedAt,
         successRate:
           data.total > 0
@@ -115,34 +219,45 @@ export class ProviderApiService extends Effect.Service<ProviderApiService>()("Pr
         },
         lastFetch: {
           success: data.latest.success,
+          partial: data.latest.partial,
           chainsCount: data.latest.chainsCount,
           tokensCount: data.latest.tokensCount,
           error: data.latest.errorMessage,
         },
+        circuit: circuits.get(provider.name)!,
+        stale: isStale(circuits.get(provider.name)),
       }))
-      .sort((a, b) => a.name.localeCompare(b.name)) // Sort alphabetically by name
 
     return {
       providers,
       summary: {
         total: providers.length,
         healthy: providers.filter((p) => p.status === "healthy").length,
+        degraded: providers.filter((p) => p.status === "degraded").length,
         error: providers.filter((p) => p.status === "error").length,
+        stale: providers.filter((p) => p.stale).length,
       },
     }
   }).pipe(
-    Effect.mapError((error) => new ProviderApiError("Failed to fetch providers", error))
+    Effect.mapError((error) => new ProviderApiError("Failed to fetch providers", error)),
+    Effect.withSpan("ProviderApiService.getProviders")
   )
 
-  const getProviderMetadata = (provider: string) =>
+  const getProviderMetadata = (provider: string, options: ListingOptions = {}) =>
     Effect.gen(function* () {
+      const registered = registry.get(provider)
+      if (Option.isNone(registered)) {
+        return yield* Effect.fail(new ProviderApiError(`Provider not found: ${provider}`))
+      }
+
       // Get total token instances
       const totalInstancesResult = yield* drizzle
         .select({
           count: sql<number>`COUNT(*)`,
         })
         .from(tokens)
-        .where(eq(tokens.providerName, provider))
+        .where(and(eq(tokens.providerName, provider), listedTokensCondition(options)))
+        .pipe(withQuerySpan("tokens.countByProvider"))
 
       const totalInstances = totalInstancesResult[0]?.count || 0
 
@@ -152,7 +267,8 @@ export class ProviderApiService extends Effect.Service<ProviderApiService>()("Pr
           count: sql<number>`COUNT(DISTINCT ${tokens.symbol})`,
         })
         .from(tokens)
-        .where(eq(tokens.providerName, provider))
+        .where(and(eq(tokens.providerName, provider), listedTokensCondition(options)))
+        .pipe(withQuerySpan("tokens.countSymbolsByProvider"))
 
       const uniqueSymbols = uniqueSymbolsResult[0]?.count || 0
 
@@ -161,19 +277,150 @@ export class ProviderApiService extends Effect.Service<ProviderApiService>()("Pr
         return yield* Effect.fail(new ProviderApiError(`Provider not found: ${provider}`))
       }
 
+      const circuits = yield* loadCircuits([provider])
+      const fetchMetrics = yield* getFetchMetrics(provider)
+
       return {
         provider,
+        info: registered.value.info,
         totalTokens: totalInstances,
         uniqueSymbols,
+        circuit: circuits.get(provider)!,
+        stale: isStale(circuits.get(provider)),
+        fetchMetrics,
       }
     }).pipe(
       Effect.mapError((error) =>
         error instanceof ProviderApiError
           ? error
           : new ProviderApiError("Failed to fetch provider metadata", error)
+      ),
+      Effect.withSpan("ProviderApiService.getProviderMetadata", {
+        attributes: { provider, includeDelisted: options.includeDelisted ?? false },
+      })
+    )
+
+  const getFetchDiff = (provider: string, fetchId: number) =>
+    Effect.gen(function* () {
+      const [row] = yield* drizzle
+        .select({
+          diff: providerFetchDiffs,
+          fetchedAt: providerFetches.fetchedAt,
+        })
+        .from(providerFetchDiffs)
+        .innerJoin(providerFetches, eq(providerFetchDiffs.fetchId, providerFetches.id))
+        .where(
+          and(
+            eq(providerFetchDiffs.providerName, provider),
+            eq(providerFetchDiffs.fetchId, fetchId)
+          )
+        )
+        .limit(1)
+        .pipe(withQuerySpan("providerFetchDiffs.byFetch"))
+
+      if (!row) {
+        return yield* new FetchDiffNotFoundError({ provider, fetchId })
+      }
+
+      const { diff } = row
+      return {
+        provider,
+        fetchId,
+        previousFetchId: diff.previousFetchId,
+        fetchedAt: row.fetchedAt,
+        summary: {
+          tokensAdded: diff.tokensAddedCount,
+          tokensRemoved: diff.tokensRemovedCount,
+          tokensChanged: diff.tokensChangedCount,
+          chainsAdded: diff.chainsAdded.length,
+          chainsRemoved: diff.chainsRemoved.length,
+        },
+        chainsAdded: diff.chainsAdded,
+        chainsRemoved: diff.chainsRemoved,
+        tokensAdded: diff.tokensAdded,
+        tokensRemoved: diff.tokensRemoved,
+        tokensChanged: diff.tokensChanged,
+      } satisfies FetchDiffResponse
+    }).pipe(
+      Effect.catchTag("SqlError", (error) =>
+        Effect.fail(new ProviderApiError("Failed to fetch diff", error))
+      ),
+      Effect.withSpan("ProviderApiService.getFetchDiff", { attributes: { provider, fetchId } })
+    )
+
+  /**
+   * Set the per-provider Prometheus gauges from the database (see metrics/definitions.ts)
+   * Run by /api/metrics before each scrape. A conflict is a symbol and chain where the
+   * provider lists a different address than another provider, delisted tokens aside.
+   */
+  const refreshProviderGauges = Effect.gen(function* () {
+    const rows = yield* pg<{
+      name: string
+      tokens: number
+      conflicts: number
+      chains: number | null
+      last_success_at: Date | null
+    }>`
+      WITH listed AS (
+        SELECT provider_name, COUNT(*)::int AS tokens
+        FROM tokens
+        WHERE delisted_at IS NULL
+        GROUP BY provider_name
+      ),
+      conflicts AS (
+        SELECT t.provider_name, COUNT(DISTINCT (t.symbol, t.chain_id))::int AS conflicts
+        FROM tokens t
+        JOIN tokens o ON o.symbol = t.symbol AND o.chain_id = t.chain_id AND o.address <> t.address
+        WHERE t.delisted_at IS NULL AND o.delisted_at IS NULL
+        GROUP BY t.provider_name
+      ),
+      latest AS (
+        SELECT DISTINCT ON (provider_name) provider_name, chains_count, fetched_at
+        FROM provider_fetches
+        WHERE success
+        ORDER BY provider_name, fetched_at DESC
       )
+      SELECT
+        latest.provider_name AS name,
+        COALESCE(listed.tokens, 0) AS tokens,
+        COALESCE(conflicts.conflicts, 0) AS conflicts,
+        latest.chains_count AS chains,
+        latest.fetched_at AS last_success_at
+      FROM latest
+      LEFT JOIN listed ON listed.provider_name = latest.provider_name
+      LEFT JOIN conflicts ON conflicts.provider_name = latest.provider_name
+    `.pipe(withQuerySpan("providerGauges"))
+
+    const byName = new Map(rows.map((row) => [row.name, row]))
+    const now = yield* Clock.currentTimeMillis
+
+    // Registered providers only; one that never succeeded reports zeros and no age
+    yield* Effect.forEach(
+      registry.names,
+      (name) => {
+        const row = byName.get(name)
+        return recordProviderGauges({
+          provider: name,
+          tokens: row?.tokens ?? 0,
+          chains: row?.chains ?? 0,
+          conflicts: row?.conflicts ?? 0,
+          lastSuccessAgeSeconds: row?.last_success_at ? (now - row.last_success_at.getTime()) / 1000 : null,
+        })
+      },
+      { discard: true }
     )
+  }).pipe(
+    Effect.mapError((error) => new ProviderApiError("Failed to refresh provider metrics", error)),
+    Effect.withSpan("ProviderApiService.refreshProviderGauges")
+  )
 
-    return { getProviders, getProviderMetadata }
+    return {
+      getProviders,
+      getProviderMetadata,
+      getProviderCircuit,
+      getFetchMetrics,
+      getFetchDiff,
+      refreshProviderGauges,
+    }
   })
 }) {}
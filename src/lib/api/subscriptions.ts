@@ -0,0 +1,357 @@
+/**
+ * Effect-based service layer for webhook subscriptions
+ * Clients register a callback URL with change filters (see lib/subscriptions); the secret
+ * returned on creation signs every delivery and authenticates the client on the other
+ * operations. A wrong secret is reported like an unknown subscription.
+ * Callback URLs must resolve to public addresses, and subscriptions are capped per callback
+ * host and overall (see subscriptions/settings.ts).
+ */
+
+import { Cause, Data, Effect, ParseResult, Schema } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { and, count, desc, eq, sql } from "drizzle-orm"
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto"
+import { webhookDeliveries, webhookSubscriptions } from "@/lib/db/schema"
+import { withQuerySpan } from "@/lib/tracing/spans"
+import { SUBSCRIPTION_CHANGE_TYPES, type SubscriptionFilters } from "@/lib/subscriptions/changes"
+import { SubscriptionDispatcher } from "@/lib/subscriptions/dispatcher"
+import { getSubscriptionSettings } from "@/lib/subscriptions/settings"
+import { checkWebhookDestination } from "@/lib/webhooks/destination"
+import type { WebhookAttempt } from "@/lib/webhooks/delivery"
+
+/**
+ * Values per filter
+ */
+export const MAX_FILTER_VALUES = 100
+
+const FilterValues = <A, I>(value: Schema.Schema<A, I, never>) =>
+  Schema.optionalWith(Schema.Array(value).pipe(Schema.minItems(1), Schema.maxItems(MAX_FILTER_VALUES)), {
+    exact: true,
+  })
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Request body of POST /api/subscriptions
+ */
+export const SubscriptionInput = Schema.Struct({
+  callbackUrl: Schema.String.pipe(Schema.filter(isHttpUrl, { message: () => "Expected an http(s) URL" })),
+  filters: Schema.optionalWith(
+    Schema.Struct({
+      events: FilterValues(Schema.Literal(...SUBSCRIPTION_CHANGE_TYPES)),
+      symbols: FilterValues(Schema.NonEmptyTrimmedString),
+      chainIds: FilterValues(Schema.Int),
+      providers: FilterValues(Schema.NonEmptyTrimmedString),
+      addresses: FilterValues(Schema.NonEmptyTrimmedString),
+    }),
+    { exact: true, default: () => ({}) }
+  ),
+})
+
+export interface Subscription {
+  readonly id: string
+  readonly callbackUrl: string
+  readonly filters: SubscriptionFilters
+  readonly createdAt: Date
+}
+
+/**
+ * A newly created subscription, the only response with its secret
+ */
+export interface CreatedSubscription extends Subscription {
+  readonly secret: string
+}
+
+export type SubscriptionDeliveryStatus = (typeof webhookDeliveries.$inferSelect)["status"]
+
+/**
+ * A delivery as listed to its subscriber (without the payload)
+ */
+export interface SubscriptionDelivery {
+  readonly id: string
+  readonly fetchId: number
+  readonly provider: string
+  readonly status: SubscriptionDeliveryStatus
+  readonly events: number
+  readonly attempts: number
+  readonly lastStatus: number | null
+  readonly lastError: string | null
+  readonly attemptLog: ReadonlyArray<WebhookAttempt>
+  readonly createdAt: Date
+  readonly lastAttemptAt: Date | null
+  /** When a pending delivery that failed is sent again */
+  readonly nextAttemptAt: Date | null
+}
+
+export interface SubscriptionDeliveriesOptions {
+  readonly limit: number
+  readonly status?: SubscriptionDeliveryStatus
+}
+
+/**
+ * Invalid request body, with the decoding issues
+ */
+export class InvalidSubscriptionError extends Data.TaggedError("InvalidSubscriptionError")<{
+  readonly message: string
+}> {}
+
+/**
+ * Too many subscriptions for the callback host, or overall
+ */
+export class SubscriptionLimitError extends Data.TaggedError("SubscriptionLimitError")<{
+  readonly message: string
+}> {}
+
+/**
+ * No subscription with this ID, or the secret doesn't match
+ */
+export class SubscriptionNotFoundError extends Data.TaggedError("SubscriptionNotFoundError")<{
+  readonly id: string
+}> {}
+
+/**
+ * The delivery is being sent already, by a pending send or another redelivery
+ */
+export class SubscriptionDeliveryInProgressError extends Data.TaggedError("SubscriptionDeliveryInProgressError")<{
+  readonly deliveryId: string
+}> {}
+
+export class SubscriptionApiError extends Data.TaggedError("SubscriptionApiError")<{
+  readonly message: string
+  readonly cause?: unknown
+}> {}
+
+const sameSecret = (expected: string, actual: string) => {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+const toSubscription = ({
+  secret: _secret,
+  callbackHost: _callbackHost,
+  ...subscription
+}: typeof webhookSubscriptions.$inferSelect) => subscription satisfies Subscription
+
+const deliveryColumns = {
+  id: webhookDeliveries.id,
+  fetchId: webhookDeliveries.fetchId,
+  provider: webhookDeliveries.providerName,
+  status: webhookDeliveries.status,
+  events: webhookDeliveries.eventsCount,
+  attempts: webhookDeliveries.attempts,
+  lastStatus: webhookDeliveries.lastStatus,
+  lastError: webhookDeliveries.lastError,
+  attemptLog: webhookDeliveries.attemptLog,
+  createdAt: webhookDeliveries.createdAt,
+  lastAttemptAt: webhookDeliveries.lastAttemptAt,
+  nextAttemptAt: webhookDeliveries.nextAttemptAt,
+}
+
+/**
+ * Subscription API Service
+ */
+export class SubscriptionApiService extends Effect.Service<SubscriptionApiService>()("SubscriptionApiService", {
+  effect: Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+    const dispatcher = yield* SubscriptionDispatcher
+    const settings = yield* getSubscriptionSettings
+
+    /**
+     * The subscription, if the secret is its own
+     */
+    const authorize = (id: string, secret: string) =>
+      Effect.gen(function* () {
+        const [subscription] = yield* drizzle
+          .select()
+          .from(webhookSubscriptions)
+          .where(eq(webhookSubscriptions.id, id))
+          .pipe(withQuerySpan("webhookSubscriptions.byId"))
+
+        if (!subscription || !sameSecret(subscription.secret, secret)) {
+          return yield* new SubscriptionNotFoundError({ id })
+        }
+        return subscription
+      })
+
+    const decodeInput = (body: unknown) =>
+      Schema.decodeUnknown(SubscriptionInput)(body, { errors: "all" }).pipe(
+        Effect.mapError(
+          (error) =>
+            new InvalidSubscriptionError({
+              message: ParseResult.ArrayFormatter.formatErrorSync(error)
+                .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+                .join("; "),
+            })
+        ),
+        Effect.filterOrFail(
+          (input) => settings.allowHttp || new URL(input.callbackUrl).protocol === "https:",
+          () => new InvalidSubscriptionError({ message: "callbackUrl must use https" })
+        ),
+        Effect.tap((input) =>
+          settings.allowPrivateNetworks
+            ? Effect.void
+            : checkWebhookDestination(input.callbackUrl).pipe(
+                Effect.mapError((error) => new InvalidSubscriptionError({ message: `callbackUrl: ${error.message}` }))
+              )
+        )
+      )
+
+    /**
+     * Fail when the host, or the service, has as many subscriptions as allowed
+     */
+    const checkLimits = (callbackHost: string) =>
+      Effect.gen(function* () {
+        const [totals] = yield* drizzle
+          .select({
+            total: count(),
+            forHost: count(sql`CASE WHEN ${webhookSubscriptions.callbackHost} = ${callbackHost} THEN 1 END`),
+          })
+          .from(webhookSubscriptions)
+          .pipe(withQuerySpan("webhookSubscriptions.count"))
+
+        if (totals.forHost >= settings.maxPerHost) {
+          return yield* new SubscriptionLimitError({
+            message: `${callbackHost} already has ${totals.forHost} subscriptions (the limit is ${settings.maxPerHost})`,
+          })
+        }
+        if (totals.total >= settings.maxTotal) {
+          return yield* new SubscriptionLimitError({ message: "No more subscriptions are accepted" })
+        }
+      })
+
+    const createSubscription = (body: unknown) =>
+      decodeInput(body).pipe(
+        Effect.map((input) => ({ ...input, callbackHost: new URL(input.callbackUrl).hostname.toLowerCase() })),
+        Effect.tap((input) => checkLimits(input.callbackHost)),
+        Effect.flatMap((input) =>
+          drizzle
+            .insert(webhookSubscriptions)
+            .values({
+              id: randomUUID(),
+              callbackUrl: input.callbackUrl,
+              callbackHost: input.callbackHost,
+              secret: randomBytes(32).toString("hex"),
+              filters: input.filters,
+            })
+            .returning()
+            .pipe(withQuerySpan("webhookSubscriptions.insert"))
+        ),
+        Effect.map(([subscription]) => subscription),
+        Effect.tap((subscription) => Effect.log(`Created subscription ${subscription.id}`)),
+        Effect.map(
+          (subscription): CreatedSubscription => ({ ...toSubscription(subscription), secret: subscription.secret })
+        ),
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new SubscriptionApiError({ message: "Failed to create subscription", cause: error }))
+        ),
+        Effect.annotateLogs("service", "SubscriptionApiService"),
+        Effect.withSpan("SubscriptionApiService.createSubscription")
+      )
+
+    const getSubscription = (id: string, secret: string) =>
+      authorize(id, secret).pipe(
+        Effect.map(toSubscription),
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new SubscriptionApiError({ message: "Failed to load subscription", cause: error }))
+        ),
+        Effect.withSpan("SubscriptionApiService.getSubscription", { attributes: { id } })
+      )
+
+    /**
+     * Delete a subscription and its delivery history
+     */
+    const deleteSubscription = (id: string, secret: string) =>
+      Effect.gen(function* () {
+        yield* authorize(id, secret)
+        yield* drizzle
+          .delete(webhookSubscriptions)
+          .where(eq(webhookSubscriptions.id, id))
+          .returning({ id: webhookSubscriptions.id })
+          .pipe(withQuerySpan("webhookSubscriptions.delete"))
+        yield* Effect.log(`Deleted subscription ${id}`)
+      }).pipe(
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new SubscriptionApiError({ message: "Failed to delete subscription", cause: error }))
+        ),
+        Effect.annotateLogs("service", "SubscriptionApiService"),
+        Effect.withSpan("SubscriptionApiService.deleteSubscription", { attributes: { id } })
+      )
+
+    /**
+     * Latest deliveries of a subscription, newest first, with their attempt logs
+     */
+    const listDeliveries = (id: string, secret: string, options: SubscriptionDeliveriesOptions) =>
+      Effect.gen(function* () {
+        yield* authorize(id, secret)
+        const deliveries: ReadonlyArray<SubscriptionDelivery> = yield* drizzle
+          .select(deliveryColumns)
+          .from(webhookDeliveries)
+          .where(
+            and(
+              eq(webhookDeliveries.subscriptionId, id),
+              options.status ? eq(webhookDeliveries.status, options.status) : undefined
+            )
+          )
+          .orderBy(desc(webhookDeliveries.createdAt))
+          .limit(options.limit)
+          .pipe(withQuerySpan("webhookDeliveries.bySubscription"))
+        return deliveries
+      }).pipe(
+        Effect.catchTag("SqlError", (error) =>
+          Effect.fail(new SubscriptionApiError({ message: "Failed to load deliveries", cause: error }))
+        ),
+        Effect.withSpan("SubscriptionApiService.listDeliveries", { attributes: { id, ...options } })
+      )
+
+    /**
+     * Claim one of the subscription's deliveries to be sent again (same payload and id) by
+     * sendRedelivery, and return it as it is
+     */
+    const redeliver = (id: string, secret: string, deliveryId: string) =>
+      Effect.gen(function* () {
+        yield* authorize(id, secret)
+        const [delivery] = yield* drizzle
+          .select(deliveryColumns)
+          .from(webhookDeliveries)
+          .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.subscriptionId, id)))
+          .pipe(withQuerySpan("webhookDeliveries.byId"))
+        if (!delivery) {
+          return yield* new SubscriptionNotFoundError({ id })
+        }
+
+        yield* dispatcher.claim(deliveryId)
+        return delivery satisfies SubscriptionDelivery
+      }).pipe(
+        Effect.catchTags({
+          SqlError: (error) =>
+            Effect.fail(new SubscriptionApiError({ message: "Failed to redeliver", cause: error })),
+          // Deleted since it was checked
+          SubscriptionDeliveryNotFoundError: () => Effect.fail(new SubscriptionNotFoundError({ id })),
+          SubscriptionDeliveryClaimedError: () => Effect.fail(new SubscriptionDeliveryInProgressError({ deliveryId })),
+        }),
+        Effect.annotateLogs("service", "SubscriptionApiService"),
+        Effect.withSpan("SubscriptionApiService.redeliver", { attributes: { id, deliveryId } })
+      )
+
+    /**
+     * Send a delivery claimed by redeliver, appending the attempts to its log
+     * Never fails: takes as long as the retries do, so routes run it after responding.
+     */
+    const sendRedelivery = (deliveryId: string) =>
+      dispatcher.redeliver(deliveryId).pipe(
+        Effect.asVoid,
+        Effect.catchAll((error) => Effect.logError("Failed to redeliver", Cause.fail(error))),
+        Effect.annotateLogs({ service: "SubscriptionApiService", deliveryId }),
+        Effect.withSpan("SubscriptionApiService.sendRedelivery", { attributes: { deliveryId } })
+      )
+
+    return { createSubscription, getSubscription, deleteSubscription, listDeliveries, redeliver, sendRedelivery }
+  }),
+}) {}
@@ -2,11 +2,15 @@
  * Effect-based service layer for token API operations
  */
 
-import { Effect, Data } from "effect"
+import { ConfigError, Effect, Data } from "effect"
 import * as Pg from "@effect/sql-drizzle/Pg"
+import { PgClient } from "@effect/sql-pg"
 import { SqlError } from "@effect/sql/SqlError"
-import { tokens, chains } from "@/lib/db/schema"
-import { sql, eq } from "drizzle-orm"
+import { tokens, chains, tokenHistory } from "@/lib/db/schema"
+import { sql, eq, and, lte, desc, type SQL } from "drizzle-orm"
+import { listedTokensCondition, listedTokensFragment, type ListingOptions } from "./listing"
+import { spanAttributes, withQuerySpan } from "@/lib/tracing/spans"
+import { isStale, loadProviderCircuits } from "@/lib/providers/breaker"
 
 /**
  * Query parameters for token list
@@ -17,8 +21,18 @@ export class TokenListQuery extends Data.Class<{
   readonly symbol?: string
   readonly tag?: string
   readonly chainId?: number
+  readonly includeDelisted?: boolean
+  readonly asOf?: Date
 }> {}
 
+/**
+ * Options for token detail queries
+ */
+export interface TokenQueryOptions extends ListingOptions {
+  /** Reconstruct the dataset as it was at this point in time (from token_history) */
+  readonly asOf?: Date
+}
+
 export interface TokenAggregate {
   readonly symbol: string
   readonly providerCount: number
@@ -34,6 +48,8 @@ export interface TokenAggregate {
 
 export interface TokensResponse {
   readonly tokens: ReadonlyArray<TokenAggregate>
+  /** Providers of these tokens whose circuit breaker is open (see providers/breaker.ts) */
+  readonly staleProviders: ReadonlyArray<string>
   readonly pagination: {
     readonly limit: number
     readonly offset: number
@@ -50,7 +66,10 @@ export interface TokenInstance {
   readonly logoUri: string | null
   readonly tags: ReadonlyArray<string>
   readonly createdAt: Date
+  readonly delistedAt: Date | null
   readonly rawData: unknown
+  /** The provider's circuit breaker is open: this instance may be out of date */
+  readonly stale: boolean
 }
 
 export interface TokenChainGroup {
@@ -75,6 +94,7 @@ export interface TokenDetailResponse {
     readonly hasConflicts: boolean
   }
   readonly providers: ReadonlyArray<string>
+  readonly staleProviders: ReadonlyArray<string>
   readonly chains: ReadonlyArray<TokenChainGroup>
   readonly conflicts?: ReadonlyArray<TokenConflict>
 }
@@ -91,11 +111,95 @@ export class TokenNotFoundError extends Data.TaggedError("TokenNotFoundError")<{
 export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApiService", {
   effect: Effect.gen(function* () {
     const drizzle = yield* Pg.PgDrizzle
+    const pg = yield* PgClient.PgClient
+
+    /**
+     * The providers whose data the API flags as stale
+     * Historical (asOf) queries are never flagged.
+     */
+    const staleProviders = (providerNames: ReadonlyArray<string>, asOf?: Date) =>
+      asOf || providerNames.length === 0
+        ? Effect.succeed(new Set<string>())
+        : loadProviderCircuits(providerNames).pipe(
+            Effect.map(
+              (circuits) =>
+                new Set(Array.from(circuits.values()).filter(isStale).map((circuit) => circuit.provider))
+            ),
+            Effect.provideService(PgClient.PgClient, pg)
+          )
+
+    /**
+     * CTEs for the query: when asOf is set, a CTE named "tokens" rebuilt from token_history
+     * (latest entry per provider/chain/address recorded at or before asOf).
+     * Because it shadows the tokens table for the whole statement, the regular queries -
+     * including their raw subqueries - run unchanged against the historical snapshot.
+     * History entries of type "delisted" surface as a non-null delisted_at.
+     */
+    const tokensSource = (asOf?: Date) => {
+      if (!asOf) return []
+
+      const key = [tokenHistory.providerName, tokenHistory.chainId, tokenHistory.address]
+      return [
+        drizzle.$with("tokens").as(
+          drizzle
+            .selectDistinctOn(key, {
+              id: tokenHistory.id,
+              providerName: tokenHistory.providerName,
+              chainId: tokenHistory.chainId,
+              address: tokenHistory.address,
+              symbol: tokenHistory.symbol,
+              name: tokenHistory.name,
+              decimals: tokenHistory.decimals,
+              logoUri: tokenHistory.logoUri,
+              tags: tokenHistory.tags,
+              fetchId: tokenHistory.fetchId,
+              rawData: sql<unknown>`NULL::jsonb`.as("raw_data"),
+              createdAt: sql<Date>`MIN(${tokenHistory.recordedAt}) OVER (PARTITION BY ${sql.join(key, sql`, `)})`.as("created_at"),
+              delistedAt: sql<Date | null>`CASE WHEN ${tokenHistory.changeType} = 'delisted' THEN ${tokenHistory.recordedAt} END`.as("delisted_at"),
+            })
+            .from(tokenHistory)
+            .where(lte(tokenHistory.recordedAt, asOf))
+            .orderBy(...key, desc(tokenHistory.recordedAt), desc(tokenHistory.id))
+        ),
+      ]
+    }
 
     const getTokens = (query: TokenListQuery) =>
       Effect.gen(function* () {
-      // Build base query
-      let dbQuery = drizzle
+      // Collect filters so they combine (drizzle's .where() replaces earlier conditions)
+      const conditions: Array<SQL | undefined> = [listedTokensCondition(query)]
+
+      // Apply symbol filter if provided
+      if (query.symbol) {
+        conditions.push(sql`${tokens.symbol} ILIKE ${`%${query.symbol}%`}`)
+      }
+
+      // Apply chainId filter if provided
+      if (query.chainId !== undefined) {
+        conditions.push(eq(tokens.chainId, query.chainId))
+      }
+
+      // Apply tag filter if provided
+      if (query.tag) {
+        conditions.push(
+          sql`EXISTS (
+            SELECT 1 FROM tokens t
+            WHERE t.symbol = ${tokens.symbol}
+            ${listedTokensFragment("t", query)}
+            AND ${query.tag} = ANY(
+              SELECT jsonb_array_elements_text(
+                CASE WHEN jsonb_typeof(t.tags) = 'array' THEN t.tags ELSE '[]'::jsonb END
+              )
+            )
+          )`
+        )
+      }
+
+      const where = and(...conditions)
+
+      // Execute query with pagination
+      const tokenList = yield* drizzle
+        .with(...tokensSource(query.asOf))
         .select({
           symbol: tokens.symbol,
           providerCount: sql<number>`COUNT(DISTINCT ${tokens.providerName})`,
@@ -110,6 +214,7 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
             FROM tokens t
             WHERE t.symbol = ${tokens.symbol}
             AND t.logo_uri IS NOT NULL
+            ${listedTokensFragment("t", query)}
             LIMIT 1
           )`,
           tags: sql<string[]>`
@@ -121,78 +226,32 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
                   CASE WHEN jsonb_typeof(t2.tags) = 'array' THEN t2.tags ELSE '[]'::jsonb END
                 ) AS tag
                 WHERE t2.symbol = tokens.symbol
+                ${listedTokensFragment("t2", query)}
               ),
               ARRAY[]::text[]
             )
           `,
         })
         .from(tokens)
-        .$dynamic()
-
-      // Apply symbol filter if provided
-      if (query.symbol) {
-        dbQuery = dbQuery.where(sql`${tokens.symbol} ILIKE ${`%${query.symbol}%`}`)
-      }
-
-      // Apply chainId filter if provided
-      if (query.chainId !== undefined) {
-        dbQuery = dbQuery.where(eq(tokens.chainId, query.chainId))
-      }
-
-      // Apply tag filter if provided
-      if (query.tag) {
-        dbQuery = dbQuery.where(
-          sql`EXISTS (
-            SELECT 1 FROM tokens t
-            WHERE t.symbol = ${tokens.symbol}
-            AND ${query.tag} = ANY(
-              SELECT jsonb_array_elements_text(
-                CASE WHEN jsonb_typeof(t.tags) = 'array' THEN t.tags ELSE '[]'::jsonb END
-              )
-            )
-          )`
-        )
-      }
-
-      // Execute query with pagination
-      const tokenList = yield* dbQuery
+        .where(where)
         .groupBy(tokens.symbol)
         .orderBy(sql`COUNT(DISTINCT ${tokens.providerName}) DESC`, tokens.symbol)
         .limit(query.limit)
         .offset(query.offset)
+        .pipe(withQuerySpan(query.asOf ? "tokens.listAsOf" : "tokens.list"))
 
       // Get total count for pagination (respecting filters)
-      let countQuery = drizzle
+      const totalCountResult = yield* drizzle
+        .with(...tokensSource(query.asOf))
         .select({
           count: sql<number>`COUNT(DISTINCT ${tokens.symbol})`,
         })
         .from(tokens)
-        .$dynamic()
-
-      if (query.symbol) {
-        countQuery = countQuery.where(sql`${tokens.symbol} ILIKE ${`%${query.symbol}%`}`)
-      }
-
-      if (query.chainId !== undefined) {
-        countQuery = countQuery.where(eq(tokens.chainId, query.chainId))
-      }
-
-      if (query.tag) {
-        countQuery = countQuery.where(
-          sql`EXISTS (
-            SELECT 1 FROM tokens t
-            WHERE t.symbol = ${tokens.symbol}
-            AND ${query.tag} = ANY(
-              SELECT jsonb_array_elements_text(
-                CASE WHEN jsonb_typeof(t.tags) = 'array' THEN t.tags ELSE '[]'::jsonb END
-              )
-            )
-          )`
-        )
-      }
+        .where(where)
+        .pipe(withQuerySpan(query.asOf ? "tokens.countAsOf" : "tokens.count"))
 
-      const totalCountResult = yield* countQuery
       const total = totalCountResult[0]?.count || 0
+      yield* Effect.annotateCurrentSpan("total", Number(total))
 
       // Ensure numeric fields are actually numbers (Drizzle sometimes returns strings)
       const parsedTokens = tokenList.map((token) => ({
@@ -203,8 +262,14 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
         decimals: token.decimals !== null ? Number(token.decimals) : null,
       }))
 
+      const stale = yield* staleProviders(
+        Array.from(new Set(parsedTokens.flatMap((token) => token.providers))),
+        query.asOf
+      )
+
       return {
         tokens: parsedTokens,
+        staleProviders: Array.from(stale),
         pagination: {
           limit: query.limit,
           offset: query.offset,
@@ -212,12 +277,26 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
           hasMore: query.offset + query.limit < Number(total),
         },
       }
-    }).pipe(Effect.mapError((error) => new TokenApiError({ message: "Failed to fetch tokens", cause: error })))
+    }).pipe(
+      Effect.mapError((error) => new TokenApiError({ message: "Failed to fetch tokens", cause: error })),
+      Effect.withSpan("TokenApiService.getTokens", {
+        attributes: spanAttributes({
+          limit: query.limit,
+          offset: query.offset,
+          symbol: query.symbol,
+          tag: query.tag,
+          chainId: query.chainId,
+          includeDelisted: query.includeDelisted ?? false,
+          asOf: query.asOf?.toISOString(),
+        }),
+      })
+    )
 
-  const getTokenBySymbol = (symbol: string) =>
+  const getTokenBySymbol = (symbol: string, options: TokenQueryOptions = {}) =>
     Effect.gen(function* () {
       // Get all token instances for this symbol (case-insensitive)
       const tokenInstances = yield* drizzle
+        .with(...tokensSource(options.asOf))
         .select({
           id: tokens.id,
           providerName: tokens.providerName,
@@ -230,18 +309,30 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
           logoUri: tokens.logoUri,
           tags: tokens.tags,
           createdAt: tokens.createdAt,
+          delistedAt: tokens.delistedAt,
           rawData: tokens.rawData,
         })
         .from(tokens)
         .leftJoin(chains, eq(tokens.chainId, chains.chainId))
-        .where(sql`UPPER(${tokens.symbol}) = UPPER(${symbol})`)
+        .where(
+          and(
+            sql`UPPER(${tokens.symbol}) = UPPER(${symbol})`,
+            listedTokensCondition(options)
+          )
+        )
         .orderBy(tokens.providerName, tokens.chainId)
+        .pipe(withQuerySpan(options.asOf ? "tokens.bySymbolAsOf" : "tokens.bySymbol"))
 
       // Check if token exists
       if (tokenInstances.length === 0) {
         return yield* new TokenNotFoundError({ symbol })
       }
 
+      const stale = yield* staleProviders(
+        Array.from(new Set(tokenInstances.map((t) => t.providerName))),
+        options.asOf
+      )
+
       // Group instances by chain
       const byChain = tokenInstances.reduce(
         (acc, instance) => {
@@ -261,7 +352,9 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
             logoUri: instance.logoUri,
             tags: Array.isArray(instance.tags) ? instance.tags : [],
             createdAt: instance.createdAt,
+            delistedAt: instance.delistedAt,
             rawData: instance.rawData,
+            stale: stale.has(instance.providerName),
           })
           return acc
         },
@@ -284,6 +377,7 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
           chainName: chain.chainName,
           addresses: [...new Set(chain.instances.map((i) => i.address))],
         }))
+      yield* Effect.annotateCurrentSpan("conflicts", conflicts.length)
 
       return {
         symbol: tokenInstances[0].symbol,
@@ -295,15 +389,23 @@ export class TokenApiService extends Effect.Service<TokenApiService>()("TokenApi
           hasConflicts: conflicts.length > 0,
         },
         providers,
+        staleProviders: Array.from(stale),
         chains: Object.values(byChain),
         conflicts: conflicts.length > 0 ? conflicts : undefined,
       }
     }).pipe(
-      Effect.catchAll((error: TokenNotFoundError | SqlError): Effect.Effect<never, TokenNotFoundError | TokenApiError> => {
+      Effect.catchAll((error: TokenNotFoundError | SqlError | ConfigError.ConfigError): Effect.Effect<never, TokenNotFoundError | TokenApiError> => {
         if (error._tag === "TokenNotFoundError") {
           return Effect.fail(error)
         }
         return Effect.fail(new TokenApiError({ message: "Failed to fetch token details", cause: error }))
+      }),
+      Effect.withSpan("TokenApiService.getTokenBySymbol", {
+        attributes: spanAttributes({
+          symbol,
+          includeDelisted: options.includeDelisted ?? false,
+          asOf: options.asOf?.toISOString(),
+        }),
       })
     )
 
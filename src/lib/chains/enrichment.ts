@@ -7,75 +7,104 @@ import { Effect } from "effect"
 import * as Pg from "@effect/sql-drizzle/Pg"
 import * as db from "../db/schema"
 import { ChainRegistry } from "./registry"
-import { sql } from "drizzle-orm"
+import { sql, inArray } from "drizzle-orm"
 
 /**
  * Enrich chains in the database with metadata from registry
- * Updates existing chains with additional metadata
+ * Updates existing chains with additional metadata.
+ * When chainIds is given, only those chains are considered.
  */
-export const enrichChains = Effect.gen(function* () {
-  const drizzle = yield* Pg.PgDrizzle
-  const registry = yield* ChainRegistry
+const enrich = (chainIds?: ReadonlyArray<number>) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+    const registry = yield* ChainRegistry
 
-  console.log("[ChainEnrichment] Starting chain enrichment process...")
+    yield* Effect.log(
+      chainIds ? `Starting chain enrichment for ${chainIds.length} chains` : "Starting chain enrichment"
+    )
 
-  // Fetch all chain metadata from registry
-  const chainMetadata = yield* registry.fetchAll
+    if (chainIds && chainIds.length === 0) {
+      yield* Effect.log("No chains to enrich")
+      return { enrichedCount: 0, totalChains: 0 }
+    }
 
-  // Get existing chain IDs to filter what we need to update
-  const existingChains = yield* drizzle
-    .select({ chainId: db.chains.chainId })
-    .from(db.chains)
+    // Fetch all chain metadata from registry
+    const chainMetadata = yield* registry.fetchAll
 
-  const existingChainIds = new Set(existingChains.map((c) => Number(c.chainId)))
+    // Get existing chain IDs to filter what we need to update
+    const existingChains = yield* (chainIds
+      ? drizzle
+          .select({ chainId: db.chains.chainId })
+          .from(db.chains)
+          .where(inArray(db.chains.chainId, [...chainIds]))
+      : drizzle.select({ chainId: db.chains.chainId }).from(db.chains))
 
-  console.log(
-    `[ChainEnrichment] Found ${existingChainIds.size} chains in database, ${chainMetadata.length} in registry`
-  )
+    const existingChainIds = new Set(existingChains.map((c) => Number(c.chainId)))
+    yield* Effect.annotateCurrentSpan({ registryChains: chainMetadata.length, storedChains: existingChainIds.size })
 
-  // Filter to only chains we actually have in our database
-  const chainsToUpdate = chainMetadata.filter((metadata) =>
-    existingChainIds.has(metadata.chainId)
-  )
+    yield* Effect.log(
+      `Found ${existingChainIds.size} chains in database, ${chainMetadata.length} in registry`
+    )
 
-  if (chainsToUpdate.length === 0) {
-    console.log("[ChainEnrichment] No chains to enrich")
-    return { enrichedCount: 0, totalChains: existingChainIds.size }
-  }
+    // Filter to only chains we actually have in our database
+    const chainsToUpdate = chainMetadata.filter((metadata) =>
+      existingChainIds.has(metadata.chainId)
+    )
 
-  console.log(`[ChainEnrichment] Will update ${chainsToUpdate.length} chains`)
+    if (chainsToUpdate.length === 0) {
+      yield* Effect.log("No chains to enrich")
+      return { enrichedCount: 0, totalChains: existingChainIds.size }
+    }
 
-  // Batch all updates using Effect.all for parallel execution
-  // Note: Neon's Postgres Proxy driver doesn't support transactions, so we use parallel updates
-  const updates = chainsToUpdate.map((metadata) =>
-    drizzle
-      .update(db.chains)
-      .set({
-        name: metadata.name,
-        shortName: metadata.shortName,
-        chainType: metadata.chainType,
-        icon: metadata.icon,
-        infoUrl: metadata.infoUrl,
-        explorers: metadata.explorers as any,
-        rpc: metadata.rpc as any,
-        faucets: metadata.faucets as any,
-        ens: metadata.ens as any,
-        features: metadata.features as any,
-        nativeCurrencyName: metadata.nativeCurrency.name,
-        nativeCurrencySymbol: metadata.nativeCurrency.symbol,
-        nativeCurrencyDecimals: metadata.nativeCurrency.decimals,
-        updatedAt: sql`NOW()`,
-      })
-      .where(sql`${db.chains.chainId} = ${metadata.chainId}`)
+    yield* Effect.logDebug(`Will update ${chainsToUpdate.length} chains`)
+
+    // Batch all updates using Effect.all for parallel execution
+    // Note: Neon's Postgres Proxy driver doesn't support transactions, so we use parallel updates
+    const updates = chainsToUpdate.map((metadata) =>
+      drizzle
+        .update(db.chains)
+        .set({
+          name: metadata.name,
+          shortName: metadata.shortName,
+          chainType: metadata.chainType,
+          icon: metadata.icon,
+          infoUrl: metadata.infoUrl,
+          explorers: metadata.explorers as any,
+          rpc: metadata.rpc as any,
+          faucets: metadata.faucets as any,
+          ens: metadata.ens as any,
+          features: metadata.features as any,
+          nativeCurrencyName: metadata.nativeCurrency.name,
+          nativeCurrencySymbol: metadata.nativeCurrency.symbol,
+          nativeCurrencyDecimals: metadata.nativeCurrency.decimals,
+          updatedAt: sql`NOW()`,
+        })
+        .where(sql`${db.chains.chainId} = ${metadata.chainId}`)
+    )
+
+    // Execute all updates in parallel with concurrency limit
+    yield* Effect.all(updates, { concurrency: 10 })
+
+    yield* Effect.log(`Enriched ${chainsToUpdate.length} chains`)
+    yield* Effect.annotateCurrentSpan("enrichedCount", chainsToUpdate.length)
+
+    return { enrichedCount: chainsToUpdate.length, totalChains: existingChainIds.size }
+  }).pipe(
+    Effect.annotateLogs("service", "ChainEnrichment"),
+    Effect.withSpan("chains.enrich", {
+      attributes: chainIds ? { scope: "chains", chainIds: chainIds.length } : { scope: "all" },
+    })
   )
 
-  // Execute all updates in parallel with concurrency limit
-  yield* Effect.all(updates, { concurrency: 10 })
-
-  console.log(`[ChainEnrichment] Successfully enriched ${chainsToUpdate.length} chains`)
+/**
+ * Enrich every chain in the database
+ */
+export const enrichChains = enrich()
 
-  return { enrichedCount: chainsToUpdate.length, totalChains: existingChainIds.size }
-})
+/**
+ * Enrich only the given chains (e.g. those touched by a single provider fetch)
+ */
+export const enrichChainsByIds = (chainIds: ReadonlyArray<number>) => enrich(chainIds)
 
 /**
  * Enrich a single chain by ID
@@ -88,7 +117,7 @@ export const enrichChainById = (chainId: number) =>
     const metadata = yield* registry.fetchByChainId(chainId)
 
     if (!metadata) {
-      console.log(`[ChainEnrichment] No metadata found for chain ${chainId}`)
+      yield* Effect.logWarning(`No metadata found for chain ${chainId}`)
       return null
     }
 
@@ -109,7 +138,10 @@ export const enrichChainById = (chainId: number) =>
       })
       .where(sql`${db.chains.chainId} = ${chainId}`)
 
-    console.log(`[ChainEnrichment] Successfully enriched chain ${chainId}`)
+    yield* Effect.log(`Enriched chain ${chainId}`)
 
     return metadata
-  })
+  }).pipe(
+    Effect.annotateLogs("service", "ChainEnrichment"),
+    Effect.withSpan("chains.enrichById", { attributes: { chainId } })
+  )
@@ -8,7 +8,7 @@
  * Excludes testnets from both sources.
  */
 
-import { Effect, Schema } from "effect"
+import { Cause, Effect, Schema } from "effect"
 import { HttpClient } from "@effect/platform"
 import { applyManualOverrides } from "./manual-overrides"
 
@@ -283,7 +283,7 @@ export class ChainRegistry extends Effect.Service<ChainRegistry>()("ChainRegistr
     const client = yield* HttpClient.HttpClient
 
     const fetchAll = Effect.gen(function* () {
-        console.log("[ChainRegistry] Fetching chain metadata from chainlist.org (primary)...")
+        yield* Effect.log("Fetching chain metadata from chainlist.org (primary)")
 
         // Fetch from primary source (chainlist.org)
         const primaryResponse = yield* client.get(CHAINLIST_ORG_API).pipe(
@@ -296,6 +296,7 @@ export class ChainRegistry extends Effect.Service<ChainRegistry>()("ChainRegistr
               cause: error,
             })
           ),
+          Effect.tapError((error) => Effect.logWarning(error.message, Cause.fail(error))),
           Effect.orElse(() => Effect.succeed(null)) // Don't fail if primary source is down
         )
 
@@ -306,19 +307,19 @@ export class ChainRegistry extends Effect.Service<ChainRegistry>()("ChainRegistr
             { errors: "all", onExcessProperty: "ignore" }
           )(primaryResponse).pipe(
             Effect.tapError((error) =>
-              Effect.sync(() => {
-                console.error("[ChainRegistry] Failed to parse chainlist.org response:", error)
-              })
+              Effect.logError("Failed to parse chainlist.org response", Cause.fail(error))
             ),
-            Effect.orElse(() => {
-              console.warn("[ChainRegistry] Falling back due to parse error, using empty array")
-              return Effect.succeed([] as const)
-            })
+            Effect.orElse(() =>
+              Effect.as(
+                Effect.logWarning("Falling back due to parse error, using empty array"),
+                [] as const
+              )
+            )
           )
         }
 
-        console.log(`[ChainRegistry] Fetched ${primaryChains.length} chains from chainlist.org`)
-        console.log("[ChainRegistry] Fetching chain metadata from chainid.network (fallback)...")
+        yield* Effect.log(`Fetched ${primaryChains.length} chains from chainlist.org`)
+        yield* Effect.log("Fetching chain metadata from chainid.network (fallback)")
 
         // Fetch from fallback source (chainid.network)
         const fallbackResponse = yield* client.get(CHAINID_NETWORK_API).pipe(
@@ -345,7 +346,7 @@ export class ChainRegistry extends Effect.Service<ChainRegistry>()("ChainRegistr
           )
         )
 
-        console.log(`[ChainRegistry] Fetched ${fallbackChains.length} chains from chainid.network`)
+        yield* Effect.log(`Fetched ${fallbackChains.length} chains from chainid.network`)
 
         // Merge chains: primary source takes precedence
         const chainMap = new Map<number, ChainMetadata>()
@@ -367,10 +368,19 @@ export class ChainRegistry extends Effect.Service<ChainRegistry>()("ChainRegistr
         // Get final metadata array and apply manual overrides
         const metadata: ChainMetadata[] = Array.from(chainMap.values()).map(applyManualOverrides)
 
-        console.log(`[ChainRegistry] Successfully merged ${metadata.length} mainnet chains (with manual overrides applied)`)
+        yield* Effect.log(`Merged ${metadata.length} mainnet chains (with manual overrides applied)`)
+        yield* Effect.annotateCurrentSpan({
+          primaryChains: primaryChains.length,
+          fallbackChains: fallbackChains.length,
+          chains: metadata.length,
+        })
 
         return metadata
-      }).pipe(Effect.scoped)
+      }).pipe(
+        Effect.scoped,
+        Effect.annotateLogs("service", "ChainRegistry"),
+        Effect.withSpan("ChainRegistry.fetchAll")
+      )
 
     const fetchByChainId = (chainId: number) =>
       Effect.gen(function* () {
@@ -0,0 +1,78 @@
+import { PgClient } from "@effect/sql-pg"
+import type { Connection } from "@effect/sql/SqlConnection"
+import { Cause, Effect } from "effect"
+
+/**
+ * Postgres advisory locks
+ *
+ * Locks are session-level and named: the name is hashed with hashtext() into the lock key.
+ * They are held on a connection reserved from the pool for the current scope, so closing
+ * the scope releases them, and so does a crashed process (its connection is dropped).
+ *
+ * Note: session-level locks need a direct connection; behind a transaction-mode pooler
+ * (e.g. PgBouncer) they are not reliable.
+ */
+
+export interface AdvisoryLock {
+  readonly name: string
+  /** Shared locks only conflict with exclusive ones (default: exclusive) */
+  readonly shared?: boolean
+}
+
+const lockFunction = (lock: AdvisoryLock, action: "try" | "wait" | "unlock") =>
+  `pg${action === "try" ? "_try" : ""}_advisory_${action === "unlock" ? "unlock" : "lock"}${lock.shared ? "_shared" : ""}`
+
+/**
+ * Unlock when the scope closes
+ * Added after the connection was reserved, so it runs before the connection is returned to the pool.
+ */
+const releaseOnClose = (connection: Connection, lock: AdvisoryLock) =>
+  Effect.addFinalizer(() =>
+    connection
+      .executeValues(`SELECT ${lockFunction(lock, "unlock")}(hashtext($1))`, [lock.name])
+      .pipe(
+        Effect.tapError((error) =>
+          Effect.logError(`Failed to release advisory lock ${lock.name}`, Cause.fail(error))
+        ),
+        Effect.ignore
+      )
+  )
+
+/**
+ * Take all of the locks for the current scope, or none of them
+ * Never waits: returns false as soon as one is held elsewhere (locks already taken are
+ * released with the scope).
+ * All locks share one reserved connection.
+ */
+export const tryAdvisoryLocks = (locks: ReadonlyArray<AdvisoryLock>) =>
+  Effect.gen(function* () {
+    const pg = yield* PgClient.PgClient
+    const connection = yield* pg.reserve
+
+    for (const lock of locks) {
+      const [[acquired]] = yield* connection.executeValues(
+        `SELECT ${lockFunction(lock, "try")}(hashtext($1))`,
+        [lock.name]
+      )
+      if (acquired !== true) {
+        return false
+      }
+
+      yield* releaseOnClose(connection, lock)
+    }
+
+    return true
+  })
+
+/**
+ * Take a lock for the current scope, waiting until it is free
+ * Meant for short critical sections.
+ */
+export const advisoryLock = (lock: AdvisoryLock) =>
+  Effect.gen(function* () {
+    const pg = yield* PgClient.PgClient
+    const connection = yield* pg.reserve
+
+    yield* connection.executeValues(`SELECT ${lockFunction(lock, "wait")}(hashtext($1))`, [lock.name])
+    yield* releaseOnClose(connection, lock)
+  })
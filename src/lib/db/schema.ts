@@ -9,10 +9,25 @@ import {
   serial,
   index,
   unique,
+  customType,
 } from "drizzle-orm/pg-core"
+import type { FetchResponse, FetchResult } from "../api/admin"
+import type { Anomaly } from "../providers/guard"
+import type { RunLogEntry } from "../logging/buffer"
+import type { SubscriptionFilters } from "../subscriptions/changes"
+import type { WebhookAttempt } from "../webhooks/delivery"
+
+/**
+ * Binary column (drizzle has no built-in bytea type)
+ */
+const bytea = customType<{ data: Buffer }>({
+  dataType: () => "bytea",
+})
 
 /**
  * Tracks each fetch attempt from a provider
+ * payload_hash is a SHA-256 of the normalized response; a successful fetch whose hash
+ * matches the last stored fetch is recorded with not_modified = true and stores nothing else.
  */
 export const providerFetches = pgTable("provider_fetches", {
   id: serial("id").primaryKey(),
@@ -22,6 +37,71 @@ export const providerFetches = pgTable("provider_fetches", {
   chainsCount: integer("chains_count"),
   tokensCount: integer("tokens_count"),
   errorMessage: text("error_message"),
+  payloadHash: text("payload_hash"),
+  notModified: boolean("not_modified").default(false).notNull(),
+  // Some chains failed; their previously stored tokens were kept (see provider_fetch_chains)
+  partial: boolean("partial").default(false).notNull(),
+  // Items that failed schema validation and were dropped (see provider_rejections)
+  rejectedCount: integer("rejected_count").default(0).notNull(),
+})
+
+/**
+ * Provider items rejected by schema validation, with their parse issues and raw JSON
+ * At most 1000 are stored per fetch; provider_fetches.rejected_count has the total.
+ */
+export const providerRejections = pgTable(
+  "provider_rejections",
+  {
+    id: serial("id").primaryKey(),
+    fetchId: integer("fetch_id")
+      .notNull()
+      .references(() => providerFetches.id),
+    providerName: text("provider_name").notNull(),
+    location: text("location").notNull(), // Index or key of the item in its list
+    issues: jsonb("issues").$type<Array<{ path: string; message: string }>>().notNull(),
+    rawData: jsonb("raw_data"), // null when the item itself was null
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    providerRejectionsFetchIdx: index("provider_rejections_fetch_idx").on(
+      table.providerName,
+      table.fetchId
+    ),
+  })
+)
+
+/**
+ * Per-chain outcome of a fetch, for providers that request tokens chain by chain
+ */
+export const providerFetchChains = pgTable(
+  "provider_fetch_chains",
+  {
+    id: serial("id").primaryKey(),
+    fetchId: integer("fetch_id")
+      .notNull()
+      .references(() => providerFetches.id),
+    providerName: text("provider_name").notNull(),
+    chainId: bigint("chain_id", { mode: "number" }).notNull(),
+    success: boolean("success").notNull(),
+    tokensCount: integer("tokens_count").notNull(),
+    errorMessage: text("error_message"),
+  },
+  (table) => ({
+    providerFetchChainsFetchIdx: index("provider_fetch_chains_fetch_idx").on(table.fetchId),
+  })
+)
+
+/**
+ * Last response per URL with its ETag / Last-Modified validators
+ * Used to send conditional requests; a 304 is answered from the cached body.
+ */
+export const httpResponseCache = pgTable("http_response_cache", {
+  url: text("url").primaryKey(),
+  providerName: text("provider_name").notNull(),
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  body: jsonb("body").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 })
 
 /**
@@ -80,6 +160,11 @@ export const chainProviderSupport = pgTable(
 /**
  * Token instances on specific chains from specific providers
  * raw_data stores the complete original token object from provider's API
+ * (decoded with excess properties preserved, see decodeProviderPayload)
+ *
+ * Rows are reconciled after each successful fetch: tokens the provider no longer lists
+ * get delisted_at set (last_seen_* record when it was last present) instead of being deleted.
+ * A token that reappears is relisted on upsert.
  */
 export const tokens = pgTable(
   "tokens",
@@ -100,6 +185,10 @@ export const tokens = pgTable(
       .references(() => providerFetches.id),
     rawData: jsonb("raw_data").notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
+    // Delisting reconciliation
+    lastSeenFetchId: integer("last_seen_fetch_id").references(() => providerFetches.id),
+    lastSeenAt: timestamp("last_seen_at"),
+    delistedAt: timestamp("delisted_at"), // null while the provider still lists the token
   },
   (table) => ({
     providerChainAddressUnique: unique("provider_chain_address_unique").on(
@@ -113,5 +202,317 @@ export const tokens = pgTable(
       table.address
     ),
     symbolIdx: index("symbol_idx").on(table.symbol),
+    providerDelistedIdx: index("provider_delisted_idx").on(
+      table.providerName,
+      table.delistedAt
+    ),
+  })
+)
+
+/**
+ * Staging area for a provider's next token snapshot
+ * Rows are written in batches under a per-fetch stage_id (invisible to readers),
+ * then swapped into tokens in a single statement and deleted.
+ */
+export const tokenStaging = pgTable(
+  "token_staging",
+  {
+    id: serial("id").primaryKey(),
+    stageId: text("stage_id").notNull(),
+    chainId: bigint("chain_id", { mode: "number" }).notNull(),
+    address: text("address").notNull(),
+    symbol: text("symbol").notNull(),
+    name: text("name").notNull(),
+    decimals: integer("decimals"),
+    logoUri: text("logo_uri"),
+    tags: jsonb("tags").$type<string[]>(),
+    rawData: jsonb("raw_data").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenStagingKeyIdx: index("token_staging_key_idx").on(
+      table.stageId,
+      table.chainId,
+      table.address
+    ),
+  })
+)
+
+/**
+ * Change log of token instances per (provider, chain, address)
+ * Each row is a full snapshot of the token's fields at the time of the change,
+ * so the dataset at any point in time is the latest row per key recorded before it.
+ */
+export const tokenHistory = pgTable(
+  "token_history",
+  {
+    id: serial("id").primaryKey(),
+    providerName: text("provider_name").notNull(),
+    chainId: bigint("chain_id", { mode: "number" }).notNull(),
+    address: text("address").notNull(),
+    symbol: text("symbol").notNull(),
+    name: text("name").notNull(),
+    decimals: integer("decimals"),
+    logoUri: text("logo_uri"),
+    tags: jsonb("tags").$type<string[]>(),
+    changeType: text("change_type").$type<"listed" | "updated" | "delisted">().notNull(),
+    fetchId: integer("fetch_id")
+      .notNull()
+      .references(() => providerFetches.id),
+    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenHistoryKeyIdx: index("token_history_key_idx").on(
+      table.providerName,
+      table.chainId,
+      table.address,
+      table.recordedAt
+    ),
+    tokenHistoryRecordedAtIdx: index("token_history_recorded_at_idx").on(table.recordedAt),
+  })
+)
+
+/**
+ * Token reference stored in fetch diffs
+ */
+export interface DiffTokenRef {
+  chainId: number
+  address: string
+  symbol: string
+  name: string
+}
+
+/**
+ * Field change stored in fetch diffs, e.g. { decimals: { from: 6, to: 18 } }
+ */
+export interface DiffTokenChange extends DiffTokenRef {
+  changes: Record<string, { from: unknown; to: unknown }>
+}
+
+/**
+ * Diff of each successful fetch against the provider's previous successful fetch
+ * Counts are denormalized so fetch lists don't need to load the jsonb details.
+ */
+export const providerFetchDiffs = pgTable(
+  "provider_fetch_diffs",
+  {
+    fetchId: integer("fetch_id")
+      .primaryKey()
+      .references(() => providerFetches.id),
+    providerName: text("provider_name").notNull(),
+    previousFetchId: integer("previous_fetch_id").references(() => providerFetches.id), // null on first fetch
+    tokensAddedCount: integer("tokens_added_count").notNull(),
+    tokensRemovedCount: integer("tokens_removed_count").notNull(),
+    tokensChangedCount: integer("tokens_changed_count").notNull(),
+    chainsAdded: jsonb("chains_added").$type<number[]>().notNull(),
+    chainsRemoved: jsonb("chains_removed").$type<number[]>().notNull(),
+    tokensAdded: jsonb("tokens_added").$type<DiffTokenRef[]>().notNull(),
+    tokensRemoved: jsonb("tokens_removed").$type<DiffTokenRef[]>().notNull(),
+    tokensChanged: jsonb("tokens_changed").$type<DiffTokenChange[]>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    providerFetchDiffsProviderIdx: index("provider_fetch_diffs_provider_idx").on(
+      table.providerName,
+      table.fetchId
+    ),
+  })
+)
+
+/**
+ * Compressed archive of every HTTP response body a stored fetch was built from
+ * payload is gzipped JSON: { responses: [{ url, body }] }. The reprocess job replays it
+ * through the provider pipeline, so normalization changes can be backfilled offline.
+ */
+export const providerFetchArchives = pgTable(
+  "provider_fetch_archives",
+  {
+    fetchId: integer("fetch_id")
+      .primaryKey()
+      .references(() => providerFetches.id),
+    providerName: text("provider_name").notNull(),
+    responsesCount: integer("responses_count").notNull(),
+    sizeBytes: integer("size_bytes").notNull(), // Uncompressed JSON size
+    payload: bytea("payload").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    providerFetchArchivesProviderIdx: index("provider_fetch_archives_provider_idx").on(
+      table.providerName,
+      table.fetchId
+    ),
+  })
+)
+
+/**
+ * Stage timings (milliseconds) and transfer counters per fetch
+ * Recorded for stored and not-modified fetches, and for fetches that failed before storage.
+ */
+export const providerFetchMetrics = pgTable(
+  "provider_fetch_metrics",
+  {
+    fetchId: integer("fetch_id")
+      .primaryKey()
+      .references(() => providerFetches.id),
+    providerName: text("provider_name").notNull(),
+    httpMs: integer("http_ms").notNull(),
+    decodeMs: integer("decode_ms").notNull(),
+    normalizeMs: integer("normalize_ms").notNull(),
+    storageMs: integer("storage_ms").notNull(),
+    totalMs: integer("total_ms").notNull(),
+    bytes: bigint("bytes", { mode: "number" }).notNull(),
+    requests: integer("requests").notNull(),
+    retries: integer("retries").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    providerFetchMetricsProviderIdx: index("provider_fetch_metrics_provider_idx").on(
+      table.providerName,
+      table.fetchId
+    ),
+  })
+)
+
+/**
+ * Snapshots refused by the anomaly guard, awaiting manual approval
+ * payload is gzipped JSON: { chains, tokens, chainStatuses }, as they would have been stored.
+ * Pending snapshots become "superseded" once newer data is stored for the provider.
+ */
+export const quarantinedFetches = pgTable(
+  "quarantined_fetches",
+  {
+    id: serial("id").primaryKey(),
+    providerName: text("provider_name").notNull(),
+    status: text("status").$type<"pending" | "approved" | "rejected" | "superseded">().notNull(),
+    anomalies: jsonb("anomalies").$type<Anomaly[]>().notNull(),
+    chainsCount: integer("chains_count").notNull(),
+    tokensCount: integer("tokens_count").notNull(),
+    payloadHash: text("payload_hash").notNull(),
+    payload: bytea("payload").notNull(),
+    // The fetch stored when the snapshot was approved
+    fetchId: integer("fetch_id").references(() => providerFetches.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewedBy: text("reviewed_by"),
+  },
+  (table) => ({
+    quarantinedFetchesProviderIdx: index("quarantined_fetches_provider_idx").on(
+      table.providerName,
+      table.status
+    ),
+  })
+)
+
+/**
+ * Provider fetch jobs (admin API and CLI)
+ * A job has one step per provider plus an optional "enrich" step. Step state is persisted
+ * as it changes, so an interrupted job can be resumed: finished steps are kept and only
+ * pending or interrupted (still "running") steps are run again.
+ */
+export const fetchJobs = pgTable("fetch_jobs", {
+  id: serial("id").primaryKey(),
+  status: text("status").$type<"pending" | "running" | "completed">().notNull(),
+  trigger: text("trigger").notNull(), // manual, vercel-cron, cli
+  scope: text("scope").$type<"all" | "providers">().notNull().default("providers"), // All providers, or a subset (see steps)
+  enrich: text("enrich").$type<"all" | "touched" | "none">().notNull(),
+  result: jsonb("result").$type<FetchResponse>(), // Set when the job completes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // Touched on every step change
+  finishedAt: timestamp("finished_at"),
+})
+
+export const fetchJobSteps = pgTable(
+  "fetch_job_steps",
+  {
+    id: serial("id").primaryKey(),
+    jobId: integer("job_id")
+      .notNull()
+      .references(() => fetchJobs.id),
+    name: text("name").notNull(), // Provider name, or "enrich"
+    kind: text("kind").$type<"provider" | "enrich">().notNull(),
+    status: text("status").$type<"pending" | "running" | "succeeded" | "failed" | "skipped">().notNull(),
+    fetchResult: jsonb("fetch_result").$type<FetchResult>(),
+    chainIds: jsonb("chain_ids").$type<number[]>(), // Chains a provider step touched (for "touched" enrichment)
+    enrichment: jsonb("enrichment").$type<{ enrichedCount: number; totalChains: number }>(),
+    error: text("error"),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => ({
+    fetchJobStepUnique: unique("fetch_job_step_unique").on(table.jobId, table.name),
+  })
+)
+
+/**
+ * Runs of fetch jobs (a resumed job has one per run), with the logs they captured
+ * logs is written when the run ends, so a run whose process died has none.
+ */
+export const fetchJobRuns = pgTable(
+  "fetch_job_runs",
+  {
+    id: text("id").primaryKey(), // UUID, the runId log annotation
+    jobId: integer("job_id")
+      .notNull()
+      .references(() => fetchJobs.id),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+    logs: jsonb("logs").$type<RunLogEntry[]>(),
+    droppedLogs: integer("dropped_logs").notNull().default(0), // Entries past RUN_LOG_CAPACITY
+  },
+  (table) => ({
+    fetchJobRunsJobIdx: index("fetch_job_runs_job_idx").on(table.jobId, table.startedAt),
+  })
+)
+
+/**
+ * Webhook subscriptions of API clients (see lib/subscriptions)
+ * The secret signs deliveries and authenticates the subscriber on the subscription routes.
+ */
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: text("id").primaryKey(), // UUID
+  callbackUrl: text("callback_url").notNull(),
+  callbackHost: text("callback_host").notNull(), // Lowercased hostname, for the per-host limit
+  secret: text("secret").notNull(),
+  filters: jsonb("filters").$type<SubscriptionFilters>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+})
+
+/**
+ * Deliveries to subscriptions, one per matching batch of a stored fetch
+ * The row is inserted as pending while the fetch is stored, then claimed and sent once the
+ * fetch job has released its locks and updated when retries end. A send that fails leaves it
+ * pending until nextAttemptAt, up to a maximum number of attempts; a redelivery appends to
+ * attemptLog.
+ */
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(), // UUID, also the payload id
+    subscriptionId: text("subscription_id")
+      .notNull()
+      .references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+    fetchId: integer("fetch_id")
+      .notNull()
+      .references(() => providerFetches.id),
+    providerName: text("provider_name").notNull(),
+    status: text("status").$type<"pending" | "delivered" | "failed">().notNull(),
+    eventsCount: integer("events_count").notNull(),
+    payload: jsonb("payload").notNull(), // The JSON body, re-sent as is on redelivery
+    attempts: integer("attempts").notNull().default(0),
+    lastStatus: integer("last_status"), // Response status of the last attempt, null when none was received
+    lastError: text("last_error"),
+    attemptLog: jsonb("attempt_log").$type<WebhookAttempt[]>().notNull().default([]),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    claimedAt: timestamp("claimed_at"), // When a sender picked up the pending row, see SubscriptionDispatcher
+    nextAttemptAt: timestamp("next_attempt_at"), // When a pending row that failed may be sent again
+  },
+  (table) => ({
+    webhookDeliveriesStatusIdx: index("webhook_deliveries_status_idx").on(table.status, table.createdAt),
+    webhookDeliveriesSubscriptionIdx: index("webhook_deliveries_subscription_idx").on(
+      table.subscriptionId,
+      table.createdAt
+    ),
   })
 )
@@ -0,0 +1,132 @@
+import { HttpClient, HttpClientError, HttpClientRequest, HttpClientResponse, Headers } from "@effect/platform"
+import { NodeHttpClient } from "@effect/platform-node"
+import { Cause, Config, Effect, Layer } from "effect"
+import { createHash } from "node:crypto"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+
+/**
+ * HttpClient layer with optional record/replay of responses
+ * Used by the providers (through HttpPolicy) and ChainRegistry, so a whole
+ * ingestion run can be recorded once and replayed offline.
+ *
+ * Environment variables:
+ * - HTTP_FIXTURES_MODE (default: live)
+ *   - live: plain HTTP client
+ *   - record: real requests; every response is also written to the fixtures directory
+ *   - replay: no network; responses are served from the fixtures directory
+ * - HTTP_FIXTURES_DIR (default: fixtures/http)
+ *
+ * Fixtures are keyed by URL: <dir>/<host>/<sha256(url)>.json
+ */
+
+export type HttpFixturesMode = "live" | "record" | "replay"
+
+/**
+ * A recorded response
+ * The body is kept as text so replay returns exactly what the server sent.
+ */
+interface HttpFixture {
+  readonly url: string
+  readonly status: number
+  readonly headers: Record<string, string>
+  readonly body: string
+}
+
+// Statuses whose Response must not carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+const fixturePath = (dir: string, url: URL) =>
+  join(dir, url.host, `${createHash("sha256").update(url.toString()).digest("hex")}.json`)
+
+const toResponse = (request: HttpClientRequest.HttpClientRequest, fixture: HttpFixture) =>
+  HttpClientResponse.fromWeb(
+    request,
+    new Response(NULL_BODY_STATUSES.has(fixture.status) ? null : fixture.body, {
+      status: fixture.status,
+      headers: fixture.headers,
+    })
+  )
+
+/**
+ * Client that serves every request from fixtures
+ * A missing fixture fails like a transport error.
+ */
+const replayClient = (dir: string) =>
+  HttpClient.make((request, url) =>
+    Effect.tryPromise({
+      try: async () => {
+        const content = await readFile(fixturePath(dir, url), "utf8")
+        return toResponse(request, JSON.parse(content) as HttpFixture)
+      },
+      catch: (cause) =>
+        new HttpClientError.RequestError({
+          request,
+          reason: "Transport",
+          cause,
+          description: `No recorded fixture for ${url.toString()} in ${dir}`,
+        }),
+    })
+  )
+
+/**
+ * Client that passes requests through and writes each response to the fixtures directory
+ * Conditional headers are dropped so full bodies (never 304s) get recorded.
+ */
+const recordingClient = (client: HttpClient.HttpClient, dir: string) =>
+  HttpClient.make((request, url) =>
+    Effect.gen(function* () {
+      const unconditional = HttpClientRequest.make(request.method)(url, {
+        headers: Headers.remove(request.headers, ["if-none-match", "if-modified-since"]),
+      })
+      const response = yield* client.execute(unconditional)
+      const body = yield* response.text
+
+      const fixture: HttpFixture = {
+        url: url.toString(),
+        status: response.status,
+        headers: { ...response.headers },
+        body,
+      }
+
+      yield* Effect.tryPromise(async () => {
+        const path = fixturePath(dir, url)
+        await mkdir(join(dir, url.host), { recursive: true })
+        await writeFile(path, JSON.stringify(fixture, null, 2))
+      }).pipe(
+        Effect.tapError((error) =>
+          Effect.logError(`Failed to record ${url.toString()}`, Cause.fail(error))
+        ),
+        Effect.ignore
+      )
+
+      return toResponse(request, fixture)
+    })
+  )
+
+/**
+ * HttpClient for the configured fixtures mode
+ */
+export const HttpClientLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const mode = yield* Config.literal("live", "record", "replay")("HTTP_FIXTURES_MODE").pipe(
+      Config.withDefault("live" as const)
+    )
+    const dir = yield* Config.string("HTTP_FIXTURES_DIR").pipe(Config.withDefault("fixtures/http"))
+
+    if (mode === "replay") {
+      yield* Effect.log(`Replaying HTTP responses from ${dir}`)
+      return Layer.succeed(HttpClient.HttpClient, replayClient(dir))
+    }
+
+    if (mode === "record") {
+      yield* Effect.log(`Recording HTTP responses to ${dir}`)
+      return Layer.effect(
+        HttpClient.HttpClient,
+        Effect.map(HttpClient.HttpClient, (client) => recordingClient(client, dir))
+      ).pipe(Layer.provide(NodeHttpClient.layerUndici))
+    }
+
+    return NodeHttpClient.layerUndici
+  })
+)
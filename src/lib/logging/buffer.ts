@@ -0,0 +1,57 @@
+import { Logger } from "effect"
+
+/**
+ * A log line captured during a run
+ */
+export interface RunLogEntry {
+  /** ISO 8601 */
+  readonly timestamp: string
+  /** Effect log level label (DEBUG, INFO, WARN, ERROR, ...) */
+  readonly level: string
+  readonly message: unknown
+  /** provider, fetchId, jobId, runId, service, ... */
+  readonly annotations: Readonly<Record<string, unknown>>
+  /** Pretty-printed cause, for logs that carry one */
+  readonly cause?: string
+}
+
+/**
+ * Entries kept per run; later ones are counted but dropped
+ */
+export const RUN_LOG_CAPACITY = 5000
+
+export interface RunLogBuffer {
+  /** Add with Logger.add, alongside the configured logger */
+  readonly logger: Logger.Logger<unknown, void>
+  readonly entries: () => ReadonlyArray<RunLogEntry>
+  readonly dropped: () => number
+}
+
+/**
+ * In-memory buffer for the logs of one run
+ * Captures what passes the minimum log level, like the configured logger.
+ */
+export const makeRunLogBuffer = (capacity = RUN_LOG_CAPACITY): RunLogBuffer => {
+  const entries: Array<RunLogEntry> = []
+  let dropped = 0
+
+  const logger = Logger.map(Logger.structuredLogger, (log) => {
+    if (entries.length >= capacity) {
+      dropped++
+      return
+    }
+    entries.push({
+      timestamp: log.timestamp,
+      level: log.logLevel,
+      message: log.message,
+      annotations: log.annotations,
+      ...(log.cause ? { cause: log.cause } : {}),
+    })
+  })
+
+  return {
+    logger,
+    entries: () => entries,
+    dropped: () => dropped,
+  }
+}
@@ -0,0 +1,28 @@
+import { Config, Effect, Layer, Logger, LogLevel } from "effect"
+
+/**
+ * Logger layer for the configured format and level
+ *
+ * Replaces Effect's default logger. Log lines carry annotations such as provider,
+ * fetchId, jobId and runId (see createProviderFetch and AdminApiService.runFetchJob),
+ * so concurrent provider fetches can be told apart and filtered.
+ *
+ * Environment variables:
+ * - LOG_FORMAT: pretty, json or logfmt (default: json in production, pretty otherwise)
+ * - LOG_LEVEL: All, Trace, Debug, Info, Warning, Error, Fatal or None (default: Info)
+ */
+export const LoggingLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const production = yield* Config.string("NODE_ENV").pipe(
+      Config.map((env) => env === "production"),
+      Config.withDefault(false)
+    )
+    const format = yield* Config.literal("pretty", "json", "logfmt")("LOG_FORMAT").pipe(
+      Config.withDefault(production ? ("json" as const) : ("pretty" as const))
+    )
+    const level = yield* Config.logLevel("LOG_LEVEL").pipe(Config.withDefault(LogLevel.Info))
+
+    const logger = format === "json" ? Logger.json : format === "logfmt" ? Logger.logFmt : Logger.pretty
+    return Layer.merge(logger, Logger.minimumLogLevel(level))
+  })
+)
@@ -0,0 +1,107 @@
+/**
+ * Prometheus metrics
+ * Effect metrics recorded by the fetch pipeline, the API routes and ProviderApiService,
+ * served in the Prometheus text format by /api/metrics (see prometheus.ts).
+ *
+ * Counters and histograms live in the process that records them: fetches run by the
+ * fetch-providers CLI or the scheduler don't show up in the web server's counters. Gauges
+ * are read from the database on each scrape, so they cover every process.
+ */
+
+import { Effect, Metric, MetricBoundaries } from "effect"
+import type { FetchMetrics } from "../providers/metrics"
+
+/**
+ * How a provider fetch ended
+ * - stored: new data stored
+ * - not_modified: unchanged payload, only the fetch recorded
+ * - quarantined: failed the anomaly guard (see providers/guard.ts)
+ * - failed: any other failure
+ * - skipped: not attempted, the provider's circuit is open (see providers/breaker.ts)
+ */
+export type FetchOutcome = "stored" | "not_modified" | "quarantined" | "failed" | "skipped"
+
+export const providerFetchesTotal = Metric.counter("provider_fetches_total", {
+  description: "Provider fetches by outcome",
+  incremental: true,
+})
+
+export const providerFetchDuration = Metric.histogram(
+  "provider_fetch_duration_seconds",
+  MetricBoundaries.exponential({ start: 0.1, factor: 2, count: 12 }),
+  "Duration of provider fetches, storage included"
+)
+
+export const providerStorageDuration = Metric.histogram(
+  "provider_storage_duration_seconds",
+  MetricBoundaries.exponential({ start: 0.05, factor: 2, count: 10 }),
+  "Duration of the storage stage of provider fetches (anomaly guard, staging, swap, history and diff)"
+)
+
+export const providerTokens = Metric.gauge("provider_tokens", {
+  description: "Tokens listed by the provider",
+})
+
+export const providerChains = Metric.gauge("provider_chains", {
+  description: "Chains in the provider's latest successful fetch",
+})
+
+export const providerConflicts = Metric.gauge("provider_conflicts", {
+  description: "Symbol and chain pairs where the provider's address differs from another provider's",
+})
+
+export const providerLastSuccessAge = Metric.gauge("provider_last_success_age_seconds", {
+  description: "Seconds since the provider's latest successful fetch",
+})
+
+export const apiRequestDuration = Metric.histogram(
+  "api_request_duration_seconds",
+  MetricBoundaries.exponential({ start: 0.005, factor: 2, count: 12 }),
+  "Duration of API requests by route, method and status"
+)
+
+/**
+ * Count a provider fetch, with its durations when it ran
+ */
+export const recordProviderFetch = (provider: string, outcome: FetchOutcome, metrics?: FetchMetrics) =>
+  Effect.gen(function* () {
+    yield* Metric.increment(Metric.tagged(providerFetchesTotal, "outcome", outcome))
+    if (metrics) {
+      yield* Metric.update(providerFetchDuration, metrics.totalMs / 1000)
+      // 0 when the fetch failed before storage
+      if (metrics.storageMs > 0) {
+        yield* Metric.update(providerStorageDuration, metrics.storageMs / 1000)
+      }
+    }
+  }).pipe(Effect.tagMetrics("provider", provider))
+
+/**
+ * Current per-provider figures, read from the database
+ */
+export interface ProviderGauges {
+  readonly provider: string
+  readonly tokens: number
+  readonly chains: number
+  readonly conflicts: number
+  /** Null until the provider's first successful fetch */
+  readonly lastSuccessAgeSeconds: number | null
+}
+
+export const recordProviderGauges = (gauges: ProviderGauges) =>
+  Effect.gen(function* () {
+    yield* Metric.set(providerTokens, gauges.tokens)
+    yield* Metric.set(providerChains, gauges.chains)
+    yield* Metric.set(providerConflicts, gauges.conflicts)
+    if (gauges.lastSuccessAgeSeconds !== null) {
+      yield* Metric.set(providerLastSuccessAge, gauges.lastSuccessAgeSeconds)
+    }
+  }).pipe(Effect.tagMetrics("provider", gauges.provider))
+
+/**
+ * Record an API request's duration
+ * route is the route pattern (e.g. /api/tokens/[symbol]), not the path, to keep label values bounded.
+ */
+export const recordApiRequest = (route: string, method: string, status: number, durationMs: number) =>
+  Metric.update(apiRequestDuration, durationMs / 1000).pipe(
+    Effect.tagMetrics({ route, method, status: String(status) })
+  )
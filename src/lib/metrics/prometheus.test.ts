@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Metric, MetricBoundaries } from "effect"
+import { encodePrometheus } from "./prometheus"
+
+/**
+ * Encode the registry's metrics with this prefix, after running the effect
+ */
+const encode = <A>(prefix: string, effect: Effect.Effect<A>) =>
+  Effect.runSync(
+    Effect.zipRight(
+      effect,
+      Effect.map(Metric.snapshot, (pairs) => encodePrometheus(pairs.filter((pair) => pair.metricKey.name.startsWith(prefix))))
+    )
+  )
+
+describe("encodePrometheus", () => {
+  it("groups a counter's samples under one HELP and TYPE header", () => {
+    const fetches = Metric.counter("test_counter_fetches_total", { description: "Fetches\nper provider" })
+    const text = encode(
+      "test_counter_",
+      Effect.all([
+        Metric.increment(Metric.tagged(fetches, "provider", "lifi")),
+        Metric.incrementBy(Metric.tagged(fetches, "provider", "relay"), 2),
+      ])
+    )
+
+    expect(text.split("\n").filter((line) => line.startsWith("#"))).toEqual([
+      "# HELP test_counter_fetches_total Fetches\\nper provider",
+      "# TYPE test_counter_fetches_total counter",
+    ])
+    expect(text).toContain('test_counter_fetches_total{provider="lifi"} 1\n')
+    expect(text).toContain('test_counter_fetches_total{provider="relay"} 2\n')
+  })
+
+  it("escapes label values and defaults the help text to the name", () => {
+    const gauge = Metric.tagged(Metric.gauge("test_gauge_age_seconds"), "provider", 'a"b\\c\nd')
+    const text = encode("test_gauge_", Metric.set(gauge, 12.5))
+
+    expect(text).toBe(
+      [
+        "# HELP test_gauge_age_seconds test_gauge_age_seconds",
+        "# TYPE test_gauge_age_seconds gauge",
+        'test_gauge_age_seconds{provider="a\\"b\\\\c\\nd"} 12.5',
+        "",
+      ].join("\n")
+    )
+  })
+
+  it("writes histograms as cumulative buckets ending in +Inf, with sum and count", () => {
+    const histogram = Metric.histogram(
+      "test_histogram_duration_seconds",
+      MetricBoundaries.fromIterable([0.1, 1]),
+      "Duration"
+    )
+    const text = encode("test_histogram_", Effect.all([Metric.update(histogram, 0.05), Metric.update(histogram, 0.5)]))
+
+    expect(text).toBe(
+      [
+        "# HELP test_histogram_duration_seconds Duration",
+        "# TYPE test_histogram_duration_seconds histogram",
+        'test_histogram_duration_seconds_bucket{le="0.1"} 1',
+        'test_histogram_duration_seconds_bucket{le="1"} 2',
+        'test_histogram_duration_seconds_bucket{le="+Inf"} 2',
+        "test_histogram_duration_seconds_sum 0.55",
+        "test_histogram_duration_seconds_count 2",
+        "",
+      ].join("\n")
+    )
+  })
+
+  it("leaves out Effect's own metrics", () => {
+    const internal = Metric.counter("effect_test_internal_total")
+    expect(encode("effect_test_", Metric.increment(internal))).toBe("")
+  })
+})
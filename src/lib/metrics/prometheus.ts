@@ -0,0 +1,98 @@
+/**
+ * Prometheus text exposition format (version 0.0.4)
+ * Encodes the Effect metric registry for /api/metrics.
+ */
+
+import { Effect, Metric, MetricState, Option, type MetricPair } from "effect"
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8"
+
+/**
+ * Metrics Effect registers on its own (fiber counts), left out of the output
+ */
+const INTERNAL_METRIC_PREFIX = "effect_"
+
+type Labels = ReadonlyArray<readonly [string, string]>
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')
+
+const escapeHelp = (help: string) => help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")
+
+const formatValue = (value: number | bigint) => {
+  if (typeof value === "bigint") return value.toString()
+  if (Number.isNaN(value)) return "NaN"
+  if (value === Infinity) return "+Inf"
+  if (value === -Infinity) return "-Inf"
+  return String(value)
+}
+
+const formatLabels = (labels: Labels) =>
+  labels.length === 0
+    ? ""
+    : `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`
+
+const sample = (name: string, labels: Labels, value: number | bigint) =>
+  `${name}${formatLabels(labels)} ${formatValue(value)}`
+
+/**
+ * Metric type and samples of one metric key, or null for the types Prometheus has no use for
+ */
+const encodeState = (
+  name: string,
+  labels: Labels,
+  state: MetricState.MetricState.Untyped
+): { readonly type: string; readonly samples: ReadonlyArray<string> } | null => {
+  if (MetricState.isCounterState(state)) {
+    return { type: "counter", samples: [sample(name, labels, state.count)] }
+  }
+  if (MetricState.isGaugeState(state)) {
+    return { type: "gauge", samples: [sample(name, labels, state.value)] }
+  }
+  if (MetricState.isHistogramState(state)) {
+    // Effect's buckets are cumulative already, the last one being +Inf
+    const buckets = state.buckets.map(([boundary, count]) =>
+      sample(`${name}_bucket`, [...labels, ["le", formatValue(boundary)]], count)
+    )
+    return {
+      type: "histogram",
+      samples: [...buckets, sample(`${name}_sum`, labels, state.sum), sample(`${name}_count`, labels, state.count)],
+    }
+  }
+  return null
+}
+
+/**
+ * Encode metric pairs, one HELP and TYPE header per metric name
+ */
+export const encodePrometheus = (pairs: ReadonlyArray<MetricPair.MetricPair.Untyped>) => {
+  const families = new Map<string, { type: string; help: string; samples: Array<string> }>()
+
+  for (const pair of pairs) {
+    const name = pair.metricKey.name
+    if (name.startsWith(INTERNAL_METRIC_PREFIX)) continue
+
+    const labels = pair.metricKey.tags.map((tag): readonly [string, string] => [tag.key, tag.value])
+    const encoded = encodeState(name, labels, pair.metricState)
+    if (encoded === null) continue
+
+    const family = families.get(name) ?? {
+      type: encoded.type,
+      help: Option.getOrElse(pair.metricKey.description, () => name),
+      samples: [],
+    }
+    family.samples.push(...encoded.samples)
+    families.set(name, family)
+  }
+
+  return Array.from(families, ([name, family]) =>
+    [`# HELP ${name} ${escapeHelp(family.help)}`, `# TYPE ${name} ${family.type}`, ...family.samples].join("\n")
+  )
+    .map((block) => `${block}\n`)
+    .join("")
+}
+
+/**
+ * The whole registry, in the Prometheus text format
+ */
+export const renderPrometheusMetrics = Effect.map(Metric.snapshot, encodePrometheus)
@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "across"
 const CHAINS_API_URL = "https://across.to/api/swap/chains"
@@ -32,7 +33,7 @@ const AcrossTokenSchema = Schema.Struct({
  */
 export class AcrossProvider extends Effect.Service<AcrossProvider>()("AcrossProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch chains and tokens in parallel
@@ -42,14 +43,14 @@ export class AcrossProvider extends Effect.Service<AcrossProvider>()("AcrossProv
         ])
 
         // Validate responses
-        const chainsArray = yield* Schema.decodeUnknown(
+        const chainsArray = yield* decodeProviderPayload(
           Schema.Array(AcrossChainSchema)
         )(chainsData)
-        const tokensArray = yield* Schema.decodeUnknown(
-          Schema.Array(AcrossTokenSchema)
+        const tokensArray = yield* decodeProviderPayload(
+          ProviderItems(AcrossTokenSchema)
         )(tokensData)
 
-        console.log(`[${PROVIDER_NAME}] Received ${chainsArray.length} chains from API`)
+        yield* Effect.logDebug(`Received ${chainsArray.length} chains from API`)
 
         // Transform to normalized format
         // Deduplicate chains by chainId to avoid duplicate insertion errors
@@ -69,7 +70,7 @@ export class AcrossProvider extends Effect.Service<AcrossProvider>()("AcrossProv
         }
         const chains: Chain[] = Array.from(chainMap.values())
 
-        console.log(`[${PROVIDER_NAME}] Deduplicated to ${chains.length} unique chains`)
+        yield* Effect.logDebug(`Deduplicated to ${chains.length} unique chains`)
 
         const tokens: Token[] = tokensArray.map((token) => {
           const isEvm = isEvmChain(token.chainId)
@@ -84,6 +85,7 @@ export class AcrossProvider extends Effect.Service<AcrossProvider>()("AcrossProv
             chainId: token.chainId,
             logoURI: token.logoUrl,
             tags,
+            raw: token,
           }
         })
 
@@ -91,6 +93,6 @@ export class AcrossProvider extends Effect.Service<AcrossProvider>()("AcrossProv
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
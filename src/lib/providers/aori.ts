@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "aori"
 const CHAINS_URL = "https://api.aori.io/chains"
@@ -32,7 +33,7 @@ const AoriTokenSchema = Schema.Struct({
  */
 export class AoriProvider extends Effect.Service<AoriProvider>()("AoriProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
     PROVIDER_NAME,
     Effect.gen(function* () {
       // Fetch both endpoints in parallel
@@ -41,12 +42,10 @@ export class AoriProvider extends Effect.Service<AoriProvider>()("AoriProvider",
         fetchJson(TOKENS_URL),
       ])
 
-      const chainsResponse = yield* Schema.decodeUnknown(Schema.Array(AoriChainSchema))(chainsRaw)
-      const tokensResponse = yield* Schema.decodeUnknown(Schema.Array(AoriTokenSchema))(tokensRaw)
+      const chainsResponse = yield* decodeProviderPayload(Schema.Array(AoriChainSchema))(chainsRaw)
+      const tokensResponse = yield* decodeProviderPayload(ProviderItems(AoriTokenSchema))(tokensRaw)
 
-      console.log(
-        `[${PROVIDER_NAME}] Received ${chainsResponse.length} chains from API`
-      )
+      yield* Effect.logDebug(`Received ${chainsResponse.length} chains from API`)
 
       // Map chains
       const chains: Chain[] = chainsResponse.map((chain) => ({
@@ -73,18 +72,17 @@ export class AoriProvider extends Effect.Service<AoriProvider>()("AoriProvider",
           chainId: token.chainId,
           logoURI: undefined,
           tags,
+          raw: token,
         }
       })
 
-      console.log(
-        `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-      )
+      yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
       return { chains, tokens }
     })
   )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
 
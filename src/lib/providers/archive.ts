@@ -0,0 +1,136 @@
+/**
+ * Fetch archives
+ * Every stored fetch keeps a gzipped copy of all response bodies it was built from,
+ * so it can be reprocessed later without calling the provider API again.
+ */
+
+import { Effect, Data, Schema } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { eq, desc } from "drizzle-orm"
+import { gzipSync, gunzipSync } from "node:zlib"
+import * as db from "../db/schema"
+import {
+  HttpPolicy,
+  HttpFetchError,
+  emptyHttpStats,
+  getHttpPolicyConfig,
+  type ArchivedResponse,
+  type ProviderHttpClient,
+} from "./http"
+
+/**
+ * Raised when a fetch has no archive (failed, not-modified, or stored before archives existed)
+ */
+export class ArchiveNotFoundError extends Data.TaggedError("ArchiveNotFoundError")<{
+  readonly fetchId?: number
+  readonly provider?: string
+}> {}
+
+/**
+ * Archive payload, stored gzipped
+ */
+const ArchivePayloadJson = Schema.parseJson(
+  Schema.Struct({
+    responses: Schema.Array(Schema.Struct({ url: Schema.String, body: Schema.Unknown })),
+  })
+)
+
+export interface FetchArchive {
+  readonly fetchId: number
+  readonly providerName: string
+  readonly responses: ReadonlyArray<ArchivedResponse>
+}
+
+/**
+ * Write the archive for a stored fetch
+ */
+export const archiveFetch = (
+  providerName: string,
+  fetchId: number,
+  responses: ReadonlyArray<ArchivedResponse>
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const json = yield* Schema.encode(ArchivePayloadJson)({ responses })
+    const payload = gzipSync(json)
+
+    yield* drizzle.insert(db.providerFetchArchives).values({
+      fetchId,
+      providerName,
+      responsesCount: responses.length,
+      sizeBytes: Buffer.byteLength(json),
+      payload,
+    })
+
+    yield* Effect.log(
+      `Archived ${responses.length} responses (${Buffer.byteLength(json)} bytes, ${payload.length} gzipped)`
+    )
+  })
+
+/**
+ * Load the archive of a fetch, or the provider's most recent archive
+ */
+export const loadArchive = (selector: { fetchId: number } | { provider: string }) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [row] = yield* drizzle
+      .select({
+        fetchId: db.providerFetchArchives.fetchId,
+        providerName: db.providerFetchArchives.providerName,
+        payload: db.providerFetchArchives.payload,
+      })
+      .from(db.providerFetchArchives)
+      .where(
+        "fetchId" in selector
+          ? eq(db.providerFetchArchives.fetchId, selector.fetchId)
+          : eq(db.providerFetchArchives.providerName, selector.provider)
+      )
+      .orderBy(desc(db.providerFetchArchives.fetchId))
+      .limit(1)
+
+    if (!row) {
+      return yield* new ArchiveNotFoundError(selector)
+    }
+
+    const { responses } = yield* Schema.decode(ArchivePayloadJson)(
+      gunzipSync(row.payload).toString("utf8")
+    )
+
+    return { fetchId: row.fetchId, providerName: row.providerName, responses } satisfies FetchArchive
+  })
+
+/**
+ * HttpPolicy that answers every request from an archive instead of the network
+ * Provide it to a provider's fetch to re-run normalization over archived data.
+ */
+export const archiveHttpPolicy = (archive: FetchArchive) => {
+  const bodies = new Map(archive.responses.map((response) => [response.url, response.body]))
+
+  return HttpPolicy.make({
+    forProvider: (providerName) =>
+      Effect.sync((): ProviderHttpClient => {
+        const responses: Array<ArchivedResponse> = []
+        return {
+          providerName,
+          policy: getHttpPolicyConfig(providerName),
+          stats: emptyHttpStats(),
+          responses,
+          getJson: (url) =>
+            bodies.has(url)
+              ? Effect.sync(() => {
+                  const body = bodies.get(url)
+                  responses.push({ url, body })
+                  return body
+                })
+              : Effect.fail(
+                  new HttpFetchError({
+                    url,
+                    message: `${url} is not in the archive of fetch ${archive.fetchId}`,
+                  })
+                ),
+        }
+      }),
+  })
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { Duration } from "effect"
+import { decideCircuit, isStale, type FailureStreak } from "./breaker"
+
+const now = Date.parse("2026-01-01T12:00:00Z")
+const minutesAgo = (minutes: number) => new Date(now - minutes * 60_000)
+const settings = { threshold: 3, cooldown: Duration.minutes(30) }
+
+const streak = (failures: number, lastFailureMinutesAgo: number): FailureStreak => ({
+  failures,
+  lastFailureAt: minutesAgo(lastFailureMinutesAgo),
+  thresholdReachedAt: failures >= settings.threshold ? minutesAgo(lastFailureMinutesAgo + 60) : null,
+})
+
+describe("decideCircuit", () => {
+  it("keeps the circuit closed without failures", () => {
+    expect(decideCircuit("lifi", undefined, settings, now)).toEqual({
+      provider: "lifi",
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAt: null,
+      lastFailureAt: null,
+    })
+  })
+
+  it("keeps the circuit closed below the threshold", () => {
+    expect(decideCircuit("lifi", streak(2, 5), settings, now)).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 2,
+      openedAt: null,
+      lastFailureAt: minutesAgo(5),
+    })
+  })
+
+  it("opens the circuit at the threshold until the cooldown has passed", () => {
+    expect(decideCircuit("lifi", streak(3, 10), settings, now)).toMatchObject({
+      state: "open",
+      consecutiveFailures: 3,
+      openedAt: minutesAgo(70),
+      retryAt: minutesAgo(-20),
+    })
+  })
+
+  it("turns half-open once the cooldown since the last failure has passed", () => {
+    expect(decideCircuit("lifi", streak(4, 30), settings, now)).toMatchObject({
+      state: "half-open",
+      consecutiveFailures: 4,
+      retryAt: null,
+    })
+  })
+})
+
+describe("isStale", () => {
+  it("flags open and half-open circuits only", () => {
+    expect(isStale(undefined)).toBe(false)
+    expect(isStale(decideCircuit("lifi", undefined, settings, now))).toBe(false)
+    expect(isStale(decideCircuit("lifi", streak(3, 10), settings, now))).toBe(true)
+    expect(isStale(decideCircuit("lifi", streak(3, 60), settings, now))).toBe(true)
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Per-provider circuit breaker
+ * Derived from recent provider_fetches outcomes: a provider whose last CIRCUIT_BREAKER.threshold
+ * fetches (or more) all failed is open, and isn't called until its cooldown has passed since
+ * the last failure. It is then half-open: the next fetch is a probe, which closes the circuit
+ * if it succeeds and reopens it for another cooldown if it fails.
+ *
+ * Until the circuit closes again, the provider's stored data is kept but flagged as stale by the API.
+ */
+
+import { Config, Duration, Effect } from "effect"
+import { PgClient } from "@effect/sql-pg"
+
+/**
+ * Consecutive failures that open the circuit, and how long it stays open after the last one
+ * Overridable with CIRCUIT_BREAKER_THRESHOLD and CIRCUIT_BREAKER_COOLDOWN.
+ */
+export const CIRCUIT_BREAKER = {
+  threshold: 5,
+  cooldown: "1 hour",
+} satisfies { threshold: number; cooldown: Duration.DurationInput }
+
+export const getCircuitBreakerSettings = Config.all({
+  threshold: Config.integer("CIRCUIT_BREAKER_THRESHOLD").pipe(
+    Config.withDefault(CIRCUIT_BREAKER.threshold)
+  ),
+  cooldown: Config.duration("CIRCUIT_BREAKER_COOLDOWN").pipe(
+    Config.withDefault(Duration.decode(CIRCUIT_BREAKER.cooldown))
+  ),
+})
+
+/**
+ * - closed: calls go through
+ * - open: calls are skipped until retryAt
+ * - half-open: the cooldown has passed; the next call is a probe
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+export interface ProviderCircuit {
+  readonly provider: string
+  readonly state: CircuitState
+  /** Failed fetches since the last successful one */
+  readonly consecutiveFailures: number
+  /** When the failure that opened the circuit was recorded (null when closed) */
+  readonly openedAt: Date | null
+  /** When the circuit turns half-open (null unless open) */
+  readonly retryAt: Date | null
+  readonly lastFailureAt: Date | null
+}
+
+/**
+ * Failures since the last success, per provider with at least one
+ */
+export interface FailureStreak {
+  readonly failures: number
+  readonly lastFailureAt: Date
+  /** The failure that reached the threshold */
+  readonly thresholdReachedAt: Date | null
+}
+
+const loadFailureStreaks = (threshold: number) =>
+  Effect.gen(function* () {
+    const pg = yield* PgClient.PgClient
+
+    const rows = yield* pg<{
+      name: string
+      failures: number
+      last_failure_at: Date
+      threshold_reached_at: Date | null
+    }>`
+      WITH last_success AS (
+        SELECT provider_name, MAX(fetched_at) AS at
+        FROM provider_fetches
+        WHERE success
+        GROUP BY provider_name
+      ),
+      streaks AS (
+        SELECT
+          f.provider_name,
+          f.fetched_at,
+          ROW_NUMBER() OVER (PARTITION BY f.provider_name ORDER BY f.fetched_at) AS n
+        FROM provider_fetches f
+        LEFT JOIN last_success ls ON ls.provider_name = f.provider_name
+        WHERE NOT f.success AND (ls.at IS NULL OR f.fetched_at > ls.at)
+      )
+      SELECT
+        provider_name AS name,
+        COUNT(*)::int AS failures,
+        MAX(fetched_at) AS last_failure_at,
+        MIN(fetched_at) FILTER (WHERE n = ${threshold}) AS threshold_reached_at
+      FROM streaks
+      GROUP BY provider_name
+    `
+
+    return new Map(
+      rows.map((row): [string, FailureStreak] => [
+        row.name,
+        {
+          failures: row.failures,
+          lastFailureAt: row.last_failure_at,
+          thresholdReachedAt: row.threshold_reached_at,
+        },
+      ])
+    )
+  })
+
+/**
+ * Decide a provider's circuit state from its failure streak
+ */
+export const decideCircuit = (
+  provider: string,
+  streak: FailureStreak | undefined,
+  settings: { readonly threshold: number; readonly cooldown: Duration.Duration },
+  now: number
+): ProviderCircuit => {
+  if (!streak || streak.failures < settings.threshold) {
+    return {
+      provider,
+      state: "closed",
+      consecutiveFailures: streak?.failures ?? 0,
+      openedAt: null,
+      retryAt: null,
+      lastFailureAt: streak?.lastFailureAt ?? null,
+    }
+  }
+
+  const retryAt = streak.lastFailureAt.getTime() + Duration.toMillis(settings.cooldown)
+  return {
+    provider,
+    state: now < retryAt ? "open" : "half-open",
+    consecutiveFailures: streak.failures,
+    openedAt: streak.thresholdReachedAt,
+    retryAt: now < retryAt ? new Date(retryAt) : null,
+    lastFailureAt: streak.lastFailureAt,
+  }
+}
+
+/**
+ * Circuit state of each of the providers
+ */
+export const loadProviderCircuits = (providerNames: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    const settings = yield* getCircuitBreakerSettings
+    const streaks = yield* loadFailureStreaks(settings.threshold)
+    const now = Date.now()
+
+    return new Map(
+      providerNames.map((provider): [string, ProviderCircuit] => [
+        provider,
+        decideCircuit(provider, streaks.get(provider), settings, now),
+      ])
+    )
+  })
+
+/**
+ * Whether the API should flag the provider's stored data as stale (open or half-open)
+ */
+export const isStale = (circuit: ProviderCircuit | undefined) =>
+  circuit !== undefined && circuit.state !== "closed"
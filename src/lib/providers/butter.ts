@@ -4,20 +4,21 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider, fetchTokensPerChain } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "butter"
 const CHAINS_URL = "https://bs-tokens-api.chainservice.io/api/queryChainList"
 const TOKENS_URL_TEMPLATE = "https://bs-tokens-api.chainservice.io/api/queryTokenList?network="
 
-// Limit to major networks to avoid excessive requests
-const MAJOR_NETWORKS = [
-  "ethereum",
-  "binance-smart-chain",
-  "polygon",
-  "arbitrum",
-  "optimism",
-]
+// Limit to major networks to avoid excessive requests (network name → chain ID)
+const MAJOR_NETWORKS: Record<string, number> = {
+  ethereum: 1,
+  "binance-smart-chain": 56,
+  polygon: 137,
+  arbitrum: 42161,
+  optimism: 10,
+}
 
 /**
  * Butter API response schemas
@@ -47,7 +48,7 @@ const ButterTokenSchema = Schema.Struct({
 const ButterTokensResponseSchema = Schema.Struct({
   code: Schema.Number,
   data: Schema.Struct({
-    results: Schema.Array(ButterTokenSchema),
+    results: ProviderItems(ButterTokenSchema),
     count: Schema.Number,
   }),
 })
@@ -57,16 +58,14 @@ const ButterTokensResponseSchema = Schema.Struct({
  */
 export class ButterProvider extends Effect.Service<ButterProvider>()("ButterProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch chains list
         const chainsRaw = yield* fetchJson(CHAINS_URL)
-        const chainsResponse = yield* Schema.decodeUnknown(ButterChainsResponseSchema)(chainsRaw)
+        const chainsResponse = yield* decodeProviderPayload(ButterChainsResponseSchema)(chainsRaw)
 
-        console.log(
-          `[${PROVIDER_NAME}] Received ${chainsResponse.data.chains.length} chains from API`
-        )
+        yield* Effect.logDebug(`Received ${chainsResponse.data.chains.length} chains from API`)
 
         const chains: Chain[] = chainsResponse.data.chains.map((chain) => ({
           id: parseInt(chain.chainId, 10),
@@ -78,16 +77,20 @@ export class ButterProvider extends Effect.Service<ButterProvider>()("ButterProv
           },
         }))
 
-        // Fetch tokens for major networks in parallel (with rate limiting)
-        const tokenResults = yield* Effect.all(
-          MAJOR_NETWORKS.map((network) =>
+        // Fetch tokens for major networks in parallel; a failing network keeps its stored tokens
+        // (concurrency and rate limits come from the butter HTTP policy)
+        const { tokens, chainStatuses } = yield* fetchTokensPerChain(
+          PROVIDER_NAME,
+          Object.keys(MAJOR_NETWORKS),
+          (network) => MAJOR_NETWORKS[network],
+          (network) =>
             Effect.gen(function* () {
               const tokensRaw = yield* fetchJson(
                 `${TOKENS_URL_TEMPLATE}${network}&pageSize=100`
               )
-              const tokensResponse = yield* Schema.decodeUnknown(ButterTokensResponseSchema)(tokensRaw)
+              const tokensResponse = yield* decodeProviderPayload(ButterTokensResponseSchema)(tokensRaw)
 
-              return tokensResponse.data.results.map((token) => {
+              return tokensResponse.data.results.map((token): Token => {
                 const chainId = parseInt(token.chainId, 10)
                 const isEvm = isEvmChain(chainId)
                 const address = normalizeAddress(token.address, isEvm)
@@ -101,28 +104,18 @@ export class ButterProvider extends Effect.Service<ButterProvider>()("ButterProv
                   chainId: parseInt(token.chainId, 10),
                   logoURI: token.image,
                   tags,
+                  raw: token,
                 }
               })
-            }).pipe(
-              Effect.catchAll((error) => {
-                console.log(`[${PROVIDER_NAME}] Failed to fetch tokens for ${network}: ${error}`)
-                return Effect.succeed([])
-              })
-            )
-          ),
-          { concurrency: 5 } // Rate limiting
+            })
         )
 
-        const tokens: Token[] = tokenResults.flat()
-
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
-        return { chains, tokens }
+        return { chains, tokens, chainStatuses }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
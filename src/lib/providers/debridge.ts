@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider, fetchTokensPerChain } from "./factory"
+import { decodeProviderPayload, ProviderItemsRecord } from "./schemas"
 
 const PROVIDER_NAME = "debridge"
 const CHAINS_URL = "https://dln.debridge.finance/v1.0/supported-chains-info"
@@ -43,10 +44,7 @@ const DebridgeTokenSchema = Schema.Struct({
 })
 
 const DebridgeTokensResponseSchema = Schema.Struct({
-  tokens: Schema.Record({
-    key: Schema.String,
-    value: DebridgeTokenSchema
-  })
+  tokens: ProviderItemsRecord(DebridgeTokenSchema),
 })
 
 /**
@@ -54,25 +52,21 @@ const DebridgeTokensResponseSchema = Schema.Struct({
  */
 export class DebridgeProvider extends Effect.Service<DebridgeProvider>()("DebridgeProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch chains list
         const chainsRaw = yield* fetchJson(CHAINS_URL)
-        const chainsResponse = yield* Schema.decodeUnknown(DebridgeChainsResponseSchema)(chainsRaw)
+        const chainsResponse = yield* decodeProviderPayload(DebridgeChainsResponseSchema)(chainsRaw)
 
-        console.log(
-          `[${PROVIDER_NAME}] Received ${chainsResponse.chains.length} chains from API`
-        )
+        yield* Effect.logDebug(`Received ${chainsResponse.chains.length} chains from API`)
 
         // Filter EVM chains
         const evmChains = chainsResponse.chains.filter(
           (chain) => !NON_EVM_CHAIN_IDS.has(chain.chainId)
         )
 
-        console.log(
-          `[${PROVIDER_NAME}] Filtered to ${evmChains.length} EVM chains`
-        )
+        yield* Effect.logDebug(`Filtered to ${evmChains.length} EVM chains`)
 
         const chains: Chain[] = evmChains.map((chain) => ({
           id: chain.originalChainId || chain.chainId,
@@ -84,17 +78,21 @@ export class DebridgeProvider extends Effect.Service<DebridgeProvider>()("Debrid
           },
         }))
 
-        // Fetch tokens per chain in parallel (with error handling)
-        const tokenResults = yield* Effect.all(
-          evmChains.map((chain) =>
+        // Fetch tokens per chain in parallel; a failing chain keeps its stored tokens
+        // Concurrency and rate limits come from the debridge HTTP policy
+        const { tokens, chainStatuses } = yield* fetchTokensPerChain(
+          PROVIDER_NAME,
+          evmChains,
+          (chain) => chain.originalChainId || chain.chainId,
+          (chain) =>
             Effect.gen(function* () {
               const chainId = chain.originalChainId || chain.chainId
               const tokensRaw = yield* fetchJson(TOKENS_URL_TEMPLATE + chain.chainId)
-              const tokensResponse = yield* Schema.decodeUnknown(DebridgeTokensResponseSchema)(tokensRaw)
+              const tokensResponse = yield* decodeProviderPayload(DebridgeTokensResponseSchema)(tokensRaw)
 
               return Object.values(tokensResponse.tokens)
                 .filter((token) => token.symbol && token.name && token.decimals !== undefined && EVM_ADDRESS_REGEX.test(token.address))
-                .map((token) => {
+                .map((token): Token => {
                   const isEvm = isEvmChain(chainId)
                   const address = normalizeAddress(token.address, isEvm)
                   const tags = categorizeToken(token.symbol!, token.name!, address)
@@ -107,28 +105,18 @@ export class DebridgeProvider extends Effect.Service<DebridgeProvider>()("Debrid
                     chainId,
                     logoURI: token.logoURI,
                     tags,
+                    raw: token,
                   }
                 })
-            }).pipe(
-              Effect.catchAll((error) => {
-                console.log(`[${PROVIDER_NAME}] Failed to fetch tokens for chain ${chain.chainId}: ${error}`)
-                return Effect.succeed([])
-              })
-            )
-          ),
-          { concurrency: "unbounded" }
+            })
         )
 
-        const tokens: Token[] = tokenResults.flat()
-
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
-        return { chains, tokens }
+        return { chains, tokens, chainStatuses }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
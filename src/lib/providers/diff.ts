@@ -0,0 +1,166 @@
+/**
+ * Per-fetch diff reports
+ * Compares each successful fetch against the provider's previous successful fetch
+ * and persists the result in provider_fetch_diffs, keyed by fetch ID
+ */
+
+import { Effect } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import * as db from "../db/schema"
+import { Token, FetchDiffSummary, type FetchDiffDetail } from "./types"
+import { and, eq, desc } from "drizzle-orm"
+import type { StoredToken, TokenChanges } from "./history"
+
+const toRef = (token: Pick<Token, "chainId" | "address" | "symbol" | "name">): db.DiffTokenRef => ({
+  chainId: token.chainId,
+  address: token.address,
+  symbol: token.symbol,
+  name: token.name,
+})
+
+/**
+ * Find the provider's latest successful fetch and the chains it reported
+ * Called before a new fetch is stored, so this is the fetch it will be diffed against.
+ */
+export const loadPreviousFetch = (providerName: string) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [previous] = yield* drizzle
+      .select({ id: db.providerFetches.id })
+      .from(db.providerFetches)
+      .where(
+        and(
+          eq(db.providerFetches.providerName, providerName),
+          eq(db.providerFetches.success, true),
+          eq(db.providerFetches.notModified, false) // Not-modified fetches store no chain links
+        )
+      )
+      .orderBy(desc(db.providerFetches.id))
+      .limit(1)
+
+    if (!previous) {
+      return { fetchId: null, chainIds: new Set<number>() }
+    }
+
+    const chainRows = yield* drizzle
+      .selectDistinct({ chainId: db.chainProviderSupport.chainId })
+      .from(db.chainProviderSupport)
+      .where(eq(db.chainProviderSupport.fetchId, previous.id))
+
+    return { fetchId: previous.id, chainIds: new Set(chainRows.map((row) => row.chainId)) }
+  })
+
+/**
+ * Compare a snapshot with the previous fetch: chains added and removed, and the token changes
+ */
+export const buildFetchDiff = (
+  previous: { fetchId: number | null; chainIds: ReadonlySet<number> },
+  chainIds: ReadonlyArray<number>,
+  changes: TokenChanges,
+  removed: ReadonlyArray<Omit<StoredToken, "delistedAt">>
+): FetchDiffDetail => {
+  const current = new Set(chainIds)
+  const chainsAdded = [...current].filter((id) => !previous.chainIds.has(id)).sort((a, b) => a - b)
+  const chainsRemoved = [...previous.chainIds].filter((id) => !current.has(id)).sort((a, b) => a - b)
+
+  const tokensChanged = changes.updated.map(({ token, previous: stored, fields }) => ({
+    ...toRef(token),
+    changes: Object.fromEntries(
+      fields.map((field) => {
+        const to =
+          field === "logoUri" ? token.logoURI ?? null : field === "tags" ? token.tags ?? [] : token[field] ?? null
+        return [field, { from: stored[field], to }]
+      })
+    ),
+  }))
+
+  return {
+    summary: {
+      previousFetchId: previous.fetchId,
+      tokensAdded: changes.listed.length,
+      tokensRemoved: removed.length,
+      tokensChanged: tokensChanged.length,
+      chainsAdded,
+      chainsRemoved,
+    },
+    tokensAdded: changes.listed.map(toRef),
+    tokensRemoved: removed.map(toRef),
+    tokensChanged,
+  }
+}
+
+export const logFetchDiff = (summary: FetchDiffSummary) =>
+  Effect.gen(function* () {
+    yield* Effect.log(
+      `Diff vs fetch ${summary.previousFetchId ?? "(none)"}: +${summary.tokensAdded} -${summary.tokensRemoved} ~${summary.tokensChanged} tokens, +${summary.chainsAdded.length} -${summary.chainsRemoved.length} chains`
+    )
+    if (summary.chainsRemoved.length > 0) {
+      yield* Effect.logWarning(`Chains no longer reported: ${summary.chainsRemoved.join(", ")}`)
+    }
+  })
+
+/**
+ * Print a diff's tokens, up to limit per list (for dry runs on the command line)
+ */
+export const printFetchDiffDetail = (detail: FetchDiffDetail, limit = 20) => {
+  const { summary } = detail
+  const describe = (token: db.DiffTokenRef) => `${token.symbol} (${token.name}) ${token.chainId}:${token.address}`
+  const printList = <A>(label: string, items: ReadonlyArray<A>, format: (item: A) => string) => {
+    if (items.length === 0) return
+    console.log(`    ${label} (${items.length}):`)
+    items.slice(0, limit).forEach((item) => console.log(`      ${format(item)}`))
+    if (items.length > limit) {
+      console.log(`      ... ${items.length - limit} more`)
+    }
+  }
+
+  console.log(
+    `    vs fetch ${summary.previousFetchId ?? "(none)"}: +${summary.tokensAdded} -${summary.tokensRemoved} ~${summary.tokensChanged} tokens, +${summary.chainsAdded.length} -${summary.chainsRemoved.length} chains`
+  )
+  if (summary.chainsAdded.length > 0) console.log(`    chains added: ${summary.chainsAdded.join(", ")}`)
+  if (summary.chainsRemoved.length > 0) console.log(`    chains removed: ${summary.chainsRemoved.join(", ")}`)
+  printList("added", detail.tokensAdded, describe)
+  printList("removed", detail.tokensRemoved, describe)
+  printList("changed", detail.tokensChanged, (token) =>
+    [
+      describe(token),
+      ...Object.entries(token.changes).map(
+        ([field, { from, to }]) => `${field}: ${JSON.stringify(from)} → ${JSON.stringify(to)}`
+      ),
+    ].join(" | ")
+  )
+}
+
+/**
+ * Build and persist the diff for a fetch, returning its summary
+ * Tokens removed are the ones reconciliation just delisted.
+ */
+export const storeFetchDiff = (
+  providerName: string,
+  fetchId: number,
+  previous: { fetchId: number | null; chainIds: ReadonlySet<number> },
+  chainIds: ReadonlyArray<number>,
+  changes: TokenChanges,
+  removed: ReadonlyArray<Omit<StoredToken, "delistedAt">>
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+    const { summary, ...detail } = buildFetchDiff(previous, chainIds, changes, removed)
+
+    yield* drizzle.insert(db.providerFetchDiffs).values({
+      fetchId,
+      providerName,
+      previousFetchId: previous.fetchId,
+      tokensAddedCount: summary.tokensAdded,
+      tokensRemovedCount: summary.tokensRemoved,
+      tokensChangedCount: summary.tokensChanged,
+      chainsAdded: summary.chainsAdded,
+      chainsRemoved: summary.chainsRemoved,
+      ...detail,
+    })
+
+    yield* logFetchDiff(summary)
+
+    return summary
+  })
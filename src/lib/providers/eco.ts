@@ -3,7 +3,7 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
 
 const PROVIDER_NAME = "eco"
 
@@ -98,7 +98,7 @@ const SUPPORTED_TOKENS = [
  */
 export class EcoProvider extends Effect.Service<EcoProvider>()("EcoProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // No external fetch - static data
@@ -127,18 +127,17 @@ export class EcoProvider extends Effect.Service<EcoProvider>()("EcoProvider", {
               chainId,
               logoURI: undefined,
               tags,
+              raw: tokenDef,
             }
           })
         )
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
@@ -3,19 +3,76 @@
  * Eliminates boilerplate around error handling and logging
  */
 
-import { Effect } from "effect"
+import { Cause, Clock, Effect } from "effect"
 import * as Pg from "@effect/sql-drizzle/Pg"
-import { ProviderResponse, ProviderError } from "./types"
-import { storeProviderData, withDatabaseErrorHandling } from "./storage"
+import { PgClient } from "@effect/sql-pg"
+import {
+  ProviderResponse,
+  ProviderError,
+  StoredProviderResponse,
+  type ChainFetchStatus,
+  type DryRunProviderResponse,
+  type Token,
+} from "./types"
+import { HttpPolicy, ProviderHttp, type ProviderHttpClient } from "./http"
+import { archiveFetch } from "./archive"
+import { ProviderRejections, storeRejections, type ProviderRejection } from "./rejections"
+import {
+  previewProviderData,
+  recordFailedFetch,
+  storeProviderDataIfChanged,
+  withDatabaseErrorHandling,
+} from "./storage"
+import { FetchQuarantinedError, describeQuarantine } from "./guard"
+import {
+  FetchTimings,
+  buildFetchMetrics,
+  makeFetchTimer,
+  storeFetchMetrics,
+  timeStage,
+  type FetchTimer,
+} from "./metrics"
+import { recordProviderFetch } from "../metrics/definitions"
+import { AlertDispatcher } from "../alerts/dispatcher"
+import { SubscriptionDispatcher } from "../subscriptions/dispatcher"
 import { normalizeChainId } from "../aggregation/chain-mapping"
+import { getProviderInfo, type ProviderInfo } from "./metadata"
+
+/**
+ * Everything a provider fetch may require from the environment
+ */
+export type ProviderRequirements =
+  | HttpPolicy
+  | AlertDispatcher
+  | SubscriptionDispatcher
+  | Pg.PgDrizzle
+  | PgClient.PgClient
+
+/**
+ * A registered provider adapter
+ * Every provider service exposes this shape so the registry can enumerate them uniformly
+ */
+export interface ProviderAdapter {
+  readonly name: string
+  readonly info: ProviderInfo
+  readonly pipeline: ProviderPipeline
+}
 
 /**
  * Wrap any error type into ProviderError for type safety
+ * A quarantined snapshot keeps its error as the cause, for the quarantine ID.
  */
 const mapToProviderError = (providerName: string, error: unknown): ProviderError => {
   if (error instanceof ProviderError) {
     return error
   }
+  if (error instanceof FetchQuarantinedError) {
+    return new ProviderError({
+      provider: providerName,
+      message: describeQuarantine(error),
+      cause: error,
+    })
+  }
   return new ProviderError({
     provider: providerName,
     message: "Fetch operation failed",
@@ -31,48 +88,278 @@ export const withProviderErrorHandling = <E, R>(
   effect: Effect.Effect<ProviderResponse, E, R>
 ): Effect.Effect<ProviderResponse, ProviderError, R> =>
   effect.pipe(
-    Effect.catchAll((error) => {
-      console.error(`[${providerName}] Fetch failed:`, error)
-      return Effect.fail(mapToProviderError(providerName, error))
-    })
+    Effect.catchAll((error) =>
+      Effect.zipRight(
+        Effect.logError("Fetch failed", Cause.fail(error)),
+        Effect.fail(mapToProviderError(providerName, error))
+      )
+    )
   )
 
+/**
+ * Fetch a provider's tokens chain by chain, keeping the chains that succeed
+ * A failing chain is reported in chainStatuses instead of failing the whole fetch,
+ * and storage keeps that chain's previously stored tokens.
+ * Fails only when every chain fails.
+ */
+export const fetchTokensPerChain = <A, E, R>(
+  providerName: string,
+  items: ReadonlyArray<A>,
+  chainIdOf: (item: A) => number,
+  fetchTokens: (item: A) => Effect.Effect<Token[], E, R>
+) =>
+  Effect.gen(function* () {
+    const results = yield* Effect.forEach(
+      items,
+      (item) =>
+        fetchTokens(item).pipe(
+          Effect.tap((tokens) => Effect.annotateCurrentSpan("tokens", tokens.length)),
+          Effect.withSpan("provider.fetchChainTokens", { attributes: { chainId: chainIdOf(item) } }),
+          Effect.either,
+          Effect.map((result) => ({ item, result }))
+        ),
+      { concurrency: "unbounded" }
+    )
+
+    const tokens: Token[] = []
+    const chainStatuses: ChainFetchStatus[] = []
+
+    for (const { item, result } of results) {
+      const chainId = chainIdOf(item)
+      if (result._tag === "Right") {
+        tokens.push(...result.right)
+        chainStatuses.push({ chainId, success: true, tokensCount: result.right.length })
+      } else {
+        yield* Effect.logWarning(`Failed to fetch tokens for chain ${chainId}: ${result.left}`)
+        chainStatuses.push({ chainId, success: false, tokensCount: 0, error: String(result.left) })
+      }
+    }
+
+    const failed = chainStatuses.filter((status) => !status.success)
+    if (failed.length > 0 && failed.length === chainStatuses.length) {
+      return yield* new ProviderError({
+        provider: providerName,
+        message: `Token requests failed for all ${failed.length} chains`,
+        cause: failed[0].error,
+      })
+    }
+
+    if (failed.length > 0) {
+      yield* Effect.logWarning(
+        `${failed.length}/${chainStatuses.length} chains failed, keeping their stored tokens`
+      )
+    }
+
+    return { tokens, chainStatuses }
+  })
+
+/**
+ * A provider's pipeline, as built by createProviderFetch
+ * Callers provide ProviderRequirements (see AdminApiService).
+ */
+export interface ProviderPipeline<R = ProviderRequirements> {
+  /** Fetch, normalize and store */
+  readonly fetch: Effect.Effect<StoredProviderResponse, ProviderError, R>
+  /** Fetch and normalize, then diff against the stored data without writing anything */
+  readonly dryRun: Effect.Effect<DryRunProviderResponse, ProviderError, R>
+}
+
 /**
  * Standard provider fetch pipeline:
  * 1. Log start
  * 2. Execute fetch logic (with error mapping to ProviderError)
+ *    fetchJson calls go through the provider's HTTP policy (see PROVIDER_HTTP_POLICIES)
+ *    Failures are recorded in provider_fetches, like storage failures (see breaker.ts)
  * 3. Normalize chain IDs (consolidate non-EVM chains like Solana)
- * 4. Store data in database with error handling
- * 5. Log completion
- * 6. Return response
+ * 4. Store data in database with error handling (skipped when the payload hash is unchanged)
+ *    Chains that failed in fetchTokensPerChain keep their stored tokens (partial fetch)
+ *    Snapshots failing the anomaly guard are quarantined and fail the fetch (see guard.ts)
+ * 5. Archive the response bodies of stored fetches (for reprocessing)
+ * 6. Record items rejected by ProviderItems schemas (dropped instead of failing the fetch)
+ * 7. Record stage timings and transfer counters in provider_fetch_metrics, and the
+ *    fetch's outcome and durations in the Prometheus metrics (see metrics/definitions.ts)
+ * 8. Send alert webhooks for a failure, or for the stored fetch's decimals changes and new
+ *    address conflicts (see alerts/dispatcher.ts)
+ * 9. Record the stored fetch's changes as pending deliveries to the webhook subscriptions
+ *    they match, sent once the fetch job has released its locks (see subscriptions/dispatcher.ts)
+ * 10. Log completion
+ * 11. Return response with the stored fetch ID, its diff summary, HTTP stats, metrics and rejection count
+ *
+ * The dry run runs steps 1-3, then diffs the result against the stored data instead of
+ * storing it (see previewProviderData). It writes nothing, not even the HTTP response cache.
+ *
+ * All errors (fetch errors, database errors, SQL errors) are mapped to ProviderError,
+ * which also carries the HTTP stats and metrics of the failed fetch
  *
- * All errors (fetch errors, database errors, SQL errors) are mapped to ProviderError
+ * Logs are annotated with the provider name, and with the fetch ID once it is stored.
  */
 export const createProviderFetch = <E, R>(
   providerName: string,
   fetchLogic: Effect.Effect<ProviderResponse, E, R>
-): Effect.Effect<ProviderResponse, ProviderError, R | Pg.PgDrizzle> =>
+): ProviderPipeline<
+  Exclude<Exclude<Exclude<R, ProviderHttp>, ProviderRejections>, FetchTimings> | ProviderRequirements
+> => {
+  const withFetchStats = (http: ProviderHttpClient, timer: FetchTimer, startedAt: number) =>
+    Effect.catchAll((error: ProviderError) =>
+      Effect.flatMap(Clock.currentTimeMillis, (now) =>
+        Effect.fail(
+          new ProviderError({
+            provider: error.provider,
+            message: error.message,
+            cause: error.cause,
+            http: http.stats,
+            metrics: buildFetchMetrics(http.stats, timer, now - startedAt),
+          })
+        )
+      )
+    )
+
+  const fetch = Effect.gen(function* () {
+    const httpPolicy = yield* HttpPolicy
+    const alerts = yield* AlertDispatcher
+    const subscriptions = yield* SubscriptionDispatcher
+    const http = yield* httpPolicy.forProvider(providerName)
+    const rejections: Array<ProviderRejection> = []
+    const timer = makeFetchTimer()
+    const startedAt = yield* Clock.currentTimeMillis
+
+    return yield* runProviderFetch(providerName, fetchLogic, http, timer).pipe(
+      Effect.provideService(ProviderHttp, http),
+      Effect.provideService(ProviderRejections, rejections),
+      Effect.provideService(FetchTimings, timer),
+      Effect.tap((stored) =>
+        stored.notModified
+          ? Effect.void
+          : archiveFetch(providerName, stored.fetchId, http.responses).pipe(
+              // The data is already stored; a missing archive only prevents reprocessing
+              Effect.catchAll((error) => Effect.logError("Failed to archive fetch", Cause.fail(error))),
+              Effect.annotateLogs("fetchId", stored.fetchId)
+            )
+      ),
+      Effect.tap((stored) =>
+        storeRejections(providerName, stored.fetchId, rejections).pipe(
+          Effect.catchAll((error) => Effect.logError("Failed to record rejections", Cause.fail(error))),
+          Effect.annotateLogs("fetchId", stored.fetchId)
+        )
+      ),
+      Effect.flatMap((stored) =>
+        Effect.gen(function* () {
+          const metrics = buildFetchMetrics(http.stats, timer, (yield* Clock.currentTimeMillis) - startedAt)
+          yield* storeFetchMetrics(providerName, stored.fetchId, metrics)
+          yield* Effect.annotateCurrentSpan({
+            fetchId: stored.fetchId,
+            notModified: stored.notModified,
+            chains: stored.chains.length,
+            tokens: stored.tokens.length,
+            rejected: rejections.length,
+          })
+          return { ...stored, http: http.stats, rejected: rejections.length, metrics }
+        })
+      ),
+      withFetchStats(http, timer, startedAt),
+      Effect.tapBoth({
+        onSuccess: (result) =>
+          recordProviderFetch(providerName, result.notModified ? "not_modified" : "stored", result.metrics),
+        onFailure: (error) =>
+          recordProviderFetch(
+            providerName,
+            error.cause instanceof FetchQuarantinedError ? "quarantined" : "failed",
+            error.metrics
+          ),
+      }),
+      Effect.tap((result) =>
+        result.notModified
+          ? Effect.void
+          : Effect.zip(
+              alerts.fetchStored(providerName, result.fetchId),
+              subscriptions.fetchStored(providerName, result.fetchId)
+            ).pipe(Effect.annotateLogs("fetchId", result.fetchId))
+      ),
+      Effect.tapError(alerts.providerFailed)
+    )
+  }).pipe(
+    Effect.annotateLogs("provider", providerName),
+    Effect.withSpan("provider.fetch", { attributes: { provider: providerName } })
+  )
+
+  const dryRun = Effect.gen(function* () {
+    const httpPolicy = yield* HttpPolicy
+    const http = yield* httpPolicy.forProvider(providerName, { readOnly: true })
+    const rejections: Array<ProviderRejection> = []
+    const timer = makeFetchTimer()
+    const startedAt = yield* Clock.currentTimeMillis
+
+    return yield* fetchAndNormalize(providerName, fetchLogic).pipe(
+      timeStage(timer, "fetchMs"),
+      Effect.flatMap((response) =>
+        previewProviderData(providerName, response.chains, response.tokens, response.chainStatuses ?? []).pipe(
+          timeStage(timer, "storageMs"),
+          Effect.map(({ diff, anomalies }) => ({
+            ...response,
+            diff,
+            anomalies,
+            failedChains: (response.chainStatuses ?? [])
+              .filter((status) => !status.success)
+              .map((status) => status.chainId),
+          })),
+          // Unlike storage, a failed dry run isn't recorded in provider_fetches
+          Effect.mapError((error) => mapToProviderError(providerName, error))
+        )
+      ),
+      Effect.provideService(ProviderHttp, http),
+      Effect.provideService(ProviderRejections, rejections),
+      Effect.provideService(FetchTimings, timer),
+      Effect.flatMap((preview) =>
+        Effect.map(Clock.currentTimeMillis, (now) => ({
+          ...preview,
+          http: http.stats,
+          rejected: rejections.length,
+          metrics: buildFetchMetrics(http.stats, timer, now - startedAt),
+        }))
+      ),
+      Effect.tap((preview) =>
+        Effect.annotateCurrentSpan({
+          chains: preview.chains.length,
+          tokens: preview.tokens.length,
+          rejected: preview.rejected,
+          anomalies: preview.anomalies.length,
+        })
+      ),
+      withFetchStats(http, timer, startedAt)
+    )
+  }).pipe(
+    Effect.annotateLogs({ provider: providerName, dryRun: true }),
+    Effect.withSpan("provider.dryRun", { attributes: { provider: providerName } })
+  )
+
+  return { fetch, dryRun }
+}
+
+/**
+ * Run the provider's fetch logic and normalize chain IDs
+ */
+const fetchAndNormalize = <E, R>(
+  providerName: string,
+  fetchLogic: Effect.Effect<ProviderResponse, E, R>
+) =>
   Effect.gen(function* () {
-    console.log(`[${providerName}] Starting fetch...`)
+    yield* Effect.log("Starting fetch")
 
     // Execute provider-specific fetch logic with error mapping
     const response = yield* withProviderErrorHandling(providerName, fetchLogic)
 
-    console.log(
-      `[${providerName}] Found ${response.chains.length} chains and ${response.tokens.length} tokens`
-    )
+    yield* Effect.log(`Found ${response.chains.length} chains and ${response.tokens.length} tokens`)
 
     // Normalize chain IDs (consolidates non-EVM chains like Solana)
-    const normalizedChains = response.chains.map((chain) => {
-      const normalizedId = normalizeChainId(chain.id)
-      if (normalizedId !== chain.id) {
-        console.log(`[${providerName}] Normalized chain ${chain.id} -> ${normalizedId} (${chain.name})`)
-      }
-      return {
-        ...chain,
-        id: normalizedId,
+    const normalizedChains = response.chains.map((chain) => ({
+      ...chain,
+      id: normalizeChainId(chain.id),
+    }))
+    for (const [index, chain] of response.chains.entries()) {
+      if (normalizedChains[index].id !== chain.id) {
+        yield* Effect.logDebug(`Normalized chain ${chain.id} -> ${normalizedChains[index].id} (${chain.name})`)
       }
-    })
+    }
 
     const normalizedTokens = response.tokens.map((token) => {
       const normalizedId = normalizeChainId(token.chainId)
@@ -82,20 +369,59 @@ export const createProviderFetch = <E, R>(
       }
     })
 
-    const normalizedResponse: ProviderResponse = {
+    return {
       chains: normalizedChains,
       tokens: normalizedTokens,
-    }
+      chainStatuses: response.chainStatuses?.map((status) => ({
+        ...status,
+        chainId: normalizeChainId(status.chainId),
+      })),
+    } satisfies ProviderResponse
+  }).pipe(Effect.withSpan("provider.fetchAndNormalize", { attributes: { provider: providerName } }))
+
+const runProviderFetch = <E, R>(
+  providerName: string,
+  fetchLogic: Effect.Effect<ProviderResponse, E, R>,
+  http: ProviderHttpClient,
+  timer: FetchTimer
+) =>
+  Effect.gen(function* () {
+    // Storage records its own failures (see withDatabaseErrorHandling)
+    const normalizedResponse = yield* fetchAndNormalize(providerName, fetchLogic).pipe(
+      timeStage(timer, "fetchMs"),
+      Effect.tapError((error) =>
+        recordFailedFetch(providerName, error, buildFetchMetrics(http.stats, timer, timer.fetchMs))
+      )
+    )
 
     // Store in database with error handling
     // This will catch SqlError, DatabaseError, or any other errors and map them
-    yield* withDatabaseErrorHandling(
+    const stored = yield* withDatabaseErrorHandling(
       providerName,
-      storeProviderData(providerName, normalizedResponse.chains, normalizedResponse.tokens)
-    )
+      storeProviderDataIfChanged(
+        providerName,
+        normalizedResponse.chains,
+        normalizedResponse.tokens,
+        normalizedResponse.chainStatuses ?? []
+      )
+    ).pipe(timeStage(timer, "storageMs"))
 
-    return normalizedResponse
+    return { ...normalizedResponse, ...stored }
   }).pipe(
     // Catch any remaining errors (e.g., SqlError, DatabaseError) and map to ProviderError
     Effect.mapError((error) => mapToProviderError(providerName, error))
   )
+
+/**
+ * Build the adapter a provider service exposes to the registry
+ * Display info comes from PROVIDER_INFO, falling back to the bare name if none is defined
+ */
+export const defineProvider = (providerName: string, pipeline: ProviderPipeline): ProviderAdapter => ({
+  name: providerName,
+  info: getProviderInfo(providerName) ?? {
+    name: providerName,
+    displayName: providerName,
+    description: "",
+  },
+  pipeline,
+})
@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "gaszip"
 const API_URL = "https://backend.gas.zip/v2/chains"
@@ -24,7 +25,7 @@ const GasZipChainSchema = Schema.Struct({
 })
 
 const GasZipResponseSchema = Schema.Struct({
-  chains: Schema.Array(GasZipChainSchema),
+  chains: ProviderItems(GasZipChainSchema),
 })
 
 /**
@@ -32,23 +33,19 @@ const GasZipResponseSchema = Schema.Struct({
  */
 export class GasZipProvider extends Effect.Service<GasZipProvider>()("GasZipProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch chains data
         const raw = yield* fetchJson(API_URL)
-        const response = yield* Schema.decodeUnknown(GasZipResponseSchema)(raw)
+        const response = yield* decodeProviderPayload(GasZipResponseSchema)(raw)
 
-        console.log(
-          `[${PROVIDER_NAME}] Received ${response.chains.length} chains from API`
-        )
+        yield* Effect.logDebug(`Received ${response.chains.length} chains from API`)
 
         // Filter mainnet chains only
         const mainnetChains = response.chains.filter((chain) => chain.mainnet)
 
-        console.log(
-          `[${PROVIDER_NAME}] Filtered to ${mainnetChains.length} mainnet chains`
-        )
+        yield* Effect.logDebug(`Filtered to ${mainnetChains.length} mainnet chains`)
 
         const chains: Chain[] = mainnetChains.map((chain) => ({
           id: chain.chain,
@@ -74,17 +71,16 @@ export class GasZipProvider extends Effect.Service<GasZipProvider>()("GasZipProv
             chainId: chain.chain,
             logoURI: undefined,
             tags,
+            raw: chain,
           }
         })
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
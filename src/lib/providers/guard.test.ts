@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { ConfigProvider, Effect } from "effect"
+import {
+  DEFAULT_ANOMALY_THRESHOLDS,
+  detectAnomalies,
+  getAnomalyThresholds,
+  type SnapshotCounts,
+} from "./guard"
+
+const counts = (overrides: Partial<SnapshotCounts> = {}): SnapshotCounts => ({
+  stored: { tokens: 1000, chains: 20 },
+  snapshot: { tokens: 1000, chains: 20 },
+  decimalsChanges: 0,
+  ...overrides,
+})
+
+const checks = (input: SnapshotCounts) =>
+  detectAnomalies(input, DEFAULT_ANOMALY_THRESHOLDS).map((anomaly) => anomaly.check)
+
+describe("detectAnomalies", () => {
+  it("passes a snapshot like the stored data", () => {
+    expect(checks(counts())).toEqual([])
+  })
+
+  it("passes any snapshot of a provider without stored data", () => {
+    expect(
+      checks(counts({ stored: { tokens: 0, chains: 0 }, snapshot: { tokens: 0, chains: 0 }, decimalsChanges: 5 }))
+    ).toEqual([])
+  })
+
+  it("flags a token drop beyond the threshold only", () => {
+    expect(checks(counts({ snapshot: { tokens: 500, chains: 20 } }))).toEqual([])
+    expect(detectAnomalies(counts({ snapshot: { tokens: 40, chains: 20 } }), DEFAULT_ANOMALY_THRESHOLDS)).toEqual([
+      {
+        check: "token-drop",
+        message: "Listed tokens would drop by 96% (1000 → 40), more than 50%",
+        previous: 1000,
+        current: 40,
+        threshold: 0.5,
+      },
+    ])
+  })
+
+  it("flags a chain drop beyond the threshold", () => {
+    expect(checks(counts({ snapshot: { tokens: 1000, chains: 10 } }))).toEqual([])
+    expect(checks(counts({ snapshot: { tokens: 1000, chains: 9 } }))).toEqual(["chain-drop"])
+  })
+
+  it("flags decimals changes on more than the allowed share of tokens", () => {
+    expect(checks(counts({ decimalsChanges: 50 }))).toEqual([])
+    expect(checks(counts({ decimalsChanges: 51 }))).toEqual(["decimals-changes"])
+  })
+
+  it("reports every failed check", () => {
+    expect(checks(counts({ snapshot: { tokens: 0, chains: 0 }, decimalsChanges: 100 }))).toEqual([
+      "token-drop",
+      "decimals-changes",
+      "chain-drop",
+    ])
+  })
+
+  it("ignores growth", () => {
+    expect(checks(counts({ snapshot: { tokens: 5000, chains: 60 } }))).toEqual([])
+  })
+})
+
+describe("getAnomalyThresholds", () => {
+  const thresholds = (env: Record<string, string>, provider: string) =>
+    Effect.runSync(
+      Effect.withConfigProvider(getAnomalyThresholds(provider), ConfigProvider.fromMap(new Map(Object.entries(env))))
+    )
+
+  it("falls back to the defaults", () => {
+    expect(thresholds({}, "eco")).toEqual(DEFAULT_ANOMALY_THRESHOLDS)
+  })
+
+  it("prefers the provider's own setting over the global one", () => {
+    const env = { ANOMALY_MAX_TOKEN_DROP: "0.3", ANOMALY_MAX_TOKEN_DROP_ECO: "0.9" }
+    expect(thresholds(env, "eco").maxTokenDrop).toBe(0.9)
+    expect(thresholds(env, "lifi").maxTokenDrop).toBe(0.3)
+  })
+})
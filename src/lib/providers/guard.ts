@@ -0,0 +1,263 @@
+/**
+ * Anomaly guard
+ * Sanity checks run on a normalized snapshot before storeProviderData swaps it in. A snapshot
+ * that fails them (e.g. 40 tokens from a provider that usually lists 12,000, during a partial
+ * outage) is quarantined in quarantined_fetches instead of replacing the stored data, and the
+ * fetch fails. An admin can then approve or reject it (see quarantine.ts).
+ */
+
+import { Config, Data, Effect, Schema } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { and, desc, eq } from "drizzle-orm"
+import { gzipSync } from "node:zlib"
+import * as db from "../db/schema"
+import { ChainSchema } from "./schemas"
+import type { Chain, ChainFetchStatus, Token } from "./types"
+
+export type AnomalyCheck = "token-drop" | "chain-drop" | "decimals-changes"
+
+/**
+ * A failed sanity check
+ * previous and current are counts (listed tokens, chains, or stored tokens and decimals changes).
+ */
+export interface Anomaly {
+  readonly check: AnomalyCheck
+  readonly message: string
+  readonly previous: number
+  readonly current: number
+  readonly threshold: number
+}
+
+/**
+ * Thresholds, as fractions of the stored data
+ */
+export interface AnomalyThresholds {
+  /** Largest allowed drop in listed tokens */
+  readonly maxTokenDrop: number
+  /** Largest allowed drop in chains, against the last stored fetch */
+  readonly maxChainDrop: number
+  /** Largest allowed share of listed tokens whose decimals change */
+  readonly maxDecimalsChanges: number
+}
+
+/**
+ * Overridable with ANOMALY_MAX_TOKEN_DROP, ANOMALY_MAX_CHAIN_DROP and ANOMALY_MAX_DECIMALS_CHANGES,
+ * or per provider with a _<PROVIDER> suffix (e.g. ANOMALY_MAX_TOKEN_DROP_ECO=0.9).
+ * ANOMALY_GUARD=false disables the checks.
+ */
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  maxTokenDrop: 0.5,
+  maxChainDrop: 0.5,
+  maxDecimalsChanges: 0.05,
+}
+
+const threshold = (name: string, providerName: string, fallback: number) =>
+  Config.number(`${name}_${providerName.toUpperCase()}`).pipe(
+    Config.orElse(() => Config.number(name)),
+    Config.withDefault(fallback)
+  )
+
+export const getAnomalyThresholds = (providerName: string) =>
+  Config.all({
+    maxTokenDrop: threshold("ANOMALY_MAX_TOKEN_DROP", providerName, DEFAULT_ANOMALY_THRESHOLDS.maxTokenDrop),
+    maxChainDrop: threshold("ANOMALY_MAX_CHAIN_DROP", providerName, DEFAULT_ANOMALY_THRESHOLDS.maxChainDrop),
+    maxDecimalsChanges: threshold(
+      "ANOMALY_MAX_DECIMALS_CHANGES",
+      providerName,
+      DEFAULT_ANOMALY_THRESHOLDS.maxDecimalsChanges
+    ),
+  })
+
+/**
+ * Counts compared by the checks
+ * Snapshot tokens include stored tokens kept on chains whose token request failed.
+ */
+export interface SnapshotCounts {
+  readonly stored: { readonly tokens: number; readonly chains: number }
+  readonly snapshot: { readonly tokens: number; readonly chains: number }
+  /** Listed tokens whose decimals differ in the snapshot */
+  readonly decimalsChanges: number
+}
+
+const percent = (fraction: number) => `${Number((fraction * 100).toFixed(1))}%`
+
+/**
+ * Run the checks; a provider with no stored data passes them all
+ */
+export const detectAnomalies = (counts: SnapshotCounts, thresholds: AnomalyThresholds) => {
+  const anomalies: Anomaly[] = []
+  const { stored, snapshot } = counts
+
+  if (stored.tokens > 0) {
+    const drop = 1 - snapshot.tokens / stored.tokens
+    if (drop > thresholds.maxTokenDrop) {
+      anomalies.push({
+        check: "token-drop",
+        message: `Listed tokens would drop by ${percent(drop)} (${stored.tokens} → ${snapshot.tokens}), more than ${percent(thresholds.maxTokenDrop)}`,
+        previous: stored.tokens,
+        current: snapshot.tokens,
+        threshold: thresholds.maxTokenDrop,
+      })
+    }
+
+    const decimalsShare = counts.decimalsChanges / stored.tokens
+    if (decimalsShare > thresholds.maxDecimalsChanges) {
+      anomalies.push({
+        check: "decimals-changes",
+        message: `Decimals would change for ${counts.decimalsChanges} of ${stored.tokens} tokens (${percent(decimalsShare)}), more than ${percent(thresholds.maxDecimalsChanges)}`,
+        previous: stored.tokens,
+        current: counts.decimalsChanges,
+        threshold: thresholds.maxDecimalsChanges,
+      })
+    }
+  }
+
+  if (stored.chains > 0) {
+    const drop = 1 - snapshot.chains / stored.chains
+    if (drop > thresholds.maxChainDrop) {
+      anomalies.push({
+        check: "chain-drop",
+        message: `Chains would drop by ${percent(drop)} (${stored.chains} → ${snapshot.chains}), more than ${percent(thresholds.maxChainDrop)}`,
+        previous: stored.chains,
+        current: snapshot.chains,
+        threshold: thresholds.maxChainDrop,
+      })
+    }
+  }
+
+  return anomalies
+}
+
+/**
+ * Check a provider's snapshot against its thresholds
+ */
+export const checkSnapshot = (providerName: string, counts: SnapshotCounts) =>
+  Effect.gen(function* () {
+    const enabled = yield* Config.boolean("ANOMALY_GUARD").pipe(Config.withDefault(true))
+    if (!enabled) {
+      return []
+    }
+
+    const thresholds = yield* getAnomalyThresholds(providerName)
+    return detectAnomalies(counts, thresholds)
+  })
+
+/**
+ * The snapshot failed the sanity checks and was quarantined instead of stored
+ */
+export class FetchQuarantinedError extends Data.TaggedError("FetchQuarantinedError")<{
+  readonly provider: string
+  readonly quarantineId: number
+  readonly anomalies: ReadonlyArray<Anomaly>
+}> {}
+
+export const describeQuarantine = (error: FetchQuarantinedError) =>
+  `Quarantined as ${error.quarantineId} for approval: ${error.anomalies.map((anomaly) => anomaly.message).join("; ")}`
+
+/**
+ * Quarantined snapshot, stored gzipped
+ */
+export const QuarantinedSnapshotJson = Schema.parseJson(
+  Schema.Struct({
+    chains: Schema.mutable(
+      Schema.Array(Schema.Struct({ ...ChainSchema.fields, vmType: Schema.optional(Schema.String) }))
+    ),
+    tokens: Schema.mutable(
+      Schema.Array(
+        Schema.Struct({
+          address: Schema.String,
+          symbol: Schema.String,
+          name: Schema.String,
+          decimals: Schema.optional(Schema.Number),
+          chainId: Schema.Number,
+          logoURI: Schema.optional(Schema.String),
+          tags: Schema.optional(Schema.mutable(Schema.Array(Schema.String))),
+          raw: Schema.optional(Schema.Unknown),
+        })
+      )
+    ),
+    chainStatuses: Schema.Array(
+      Schema.Struct({
+        chainId: Schema.Number,
+        success: Schema.Boolean,
+        tokensCount: Schema.Number,
+        error: Schema.optional(Schema.String),
+      })
+    ),
+  })
+)
+
+/**
+ * Store a snapshot for manual approval and fail with FetchQuarantinedError
+ * A snapshot identical to one still pending (same payload hash) isn't stored again: a
+ * provider stuck on a suspicious payload would otherwise add a copy on every run.
+ */
+export const quarantineSnapshot = (
+  providerName: string,
+  snapshot: {
+    readonly chains: Chain[]
+    readonly tokens: Token[]
+    readonly chainStatuses: ReadonlyArray<ChainFetchStatus>
+  },
+  payloadHash: string,
+  anomalies: ReadonlyArray<Anomaly>
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [pending] = yield* drizzle
+      .select({ id: db.quarantinedFetches.id })
+      .from(db.quarantinedFetches)
+      .where(
+        and(
+          eq(db.quarantinedFetches.providerName, providerName),
+          eq(db.quarantinedFetches.status, "pending"),
+          eq(db.quarantinedFetches.payloadHash, payloadHash)
+        )
+      )
+      .orderBy(desc(db.quarantinedFetches.id))
+      .limit(1)
+
+    if (pending) {
+      yield* Effect.logWarning(`Unchanged snapshot, still pending approval as ${pending.id}`)
+      return yield* new FetchQuarantinedError({ provider: providerName, quarantineId: pending.id, anomalies })
+    }
+
+    const json = yield* Schema.encode(QuarantinedSnapshotJson)(snapshot)
+    const [row] = yield* drizzle
+      .insert(db.quarantinedFetches)
+      .values({
+        providerName,
+        status: "pending",
+        anomalies: [...anomalies],
+        chainsCount: snapshot.chains.length,
+        tokensCount: snapshot.tokens.length,
+        payloadHash,
+        payload: gzipSync(json),
+      })
+      .returning({ id: db.quarantinedFetches.id })
+
+    const error = new FetchQuarantinedError({ provider: providerName, quarantineId: row.id, anomalies })
+    yield* Effect.logWarning(describeQuarantine(error))
+
+    return yield* error
+  })
+
+/**
+ * Mark the provider's pending quarantined snapshots as superseded
+ * Called when newer data is stored, so an outdated snapshot can't be approved over it.
+ */
+export const supersedeQuarantinedFetches = (providerName: string) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    yield* drizzle
+      .update(db.quarantinedFetches)
+      .set({ status: "superseded" })
+      .where(
+        and(
+          eq(db.quarantinedFetches.providerName, providerName),
+          eq(db.quarantinedFetches.status, "pending")
+        )
+      )
+  })
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { changedFields, diffTokens, tokenKey, type StoredToken } from "./history"
+import type { Token } from "./types"
+
+const token = (overrides: Partial<Token> = {}): Token => ({
+  address: "0xa0b8",
+  symbol: "USDC",
+  name: "USD Coin",
+  decimals: 6,
+  chainId: 1,
+  logoURI: "https://example.com/usdc.png",
+  tags: ["stablecoin"],
+  ...overrides,
+})
+
+const stored = (overrides: Partial<StoredToken> = {}): StoredToken => ({
+  address: "0xa0b8",
+  symbol: "USDC",
+  name: "USD Coin",
+  decimals: 6,
+  chainId: 1,
+  logoUri: "https://example.com/usdc.png",
+  tags: ["stablecoin"],
+  delistedAt: null,
+  ...overrides,
+})
+
+const storedMap = (...tokens: StoredToken[]) =>
+  new Map(tokens.map((entry) => [tokenKey(entry.chainId, entry.address), entry]))
+
+describe("changedFields", () => {
+  it("finds no change in an identical token", () => {
+    expect(changedFields(stored(), token())).toEqual([])
+  })
+
+  it("treats missing optional values as equal", () => {
+    expect(
+      changedFields(
+        stored({ decimals: null, logoUri: null, tags: null }),
+        token({ decimals: undefined, logoURI: undefined, tags: undefined })
+      )
+    ).toEqual([])
+    expect(changedFields(stored({ tags: [] }), token({ tags: undefined }))).toEqual([])
+  })
+
+  it("lists every changed field", () => {
+    expect(
+      changedFields(
+        stored(),
+        token({ symbol: "USDC.e", name: "Bridged USDC", decimals: 18, logoURI: undefined, tags: [] })
+      )
+    ).toEqual(["symbol", "name", "decimals", "logoUri", "tags"])
+  })
+})
+
+describe("diffTokens", () => {
+  it("lists tokens that weren't stored", () => {
+    const fetched = token({ chainId: 10 })
+    expect(diffTokens([fetched], storedMap(stored()))).toEqual({ listed: [fetched], updated: [] })
+  })
+
+  it("lists delisted tokens that reappear", () => {
+    const fetched = token()
+    expect(diffTokens([fetched], storedMap(stored({ delistedAt: new Date(0) })))).toEqual({
+      listed: [fetched],
+      updated: [],
+    })
+  })
+
+  it("reports updated tokens with their previous version and changed fields", () => {
+    const previous = stored()
+    const fetched = token({ decimals: 18 })
+    expect(diffTokens([fetched], storedMap(previous))).toEqual({
+      listed: [],
+      updated: [{ token: fetched, previous, fields: ["decimals"] }],
+    })
+  })
+
+  it("ignores unchanged tokens", () => {
+    expect(diffTokens([token()], storedMap(stored()))).toEqual({ listed: [], updated: [] })
+  })
+})
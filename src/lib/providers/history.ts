@@ -0,0 +1,187 @@
+/**
+ * Token history utilities
+ * Records every change to a provider's token instances in token_history
+ */
+
+import { Effect } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import * as db from "../db/schema"
+import { Token } from "./types"
+import { sql, eq } from "drizzle-orm"
+
+const BATCH_SIZE = 500
+
+/**
+ * A token instance as currently stored in the tokens table
+ */
+export interface StoredToken {
+  readonly chainId: number
+  readonly address: string
+  readonly symbol: string
+  readonly name: string
+  readonly decimals: number | null
+  readonly logoUri: string | null
+  readonly tags: string[] | null
+  readonly delistedAt: Date | null
+}
+
+/**
+ * Token fields tracked for changes
+ */
+export type TokenField = "symbol" | "name" | "decimals" | "logoUri" | "tags"
+
+/**
+ * Key identifying a token instance within one provider
+ */
+export const tokenKey = (chainId: number, address: string) => `${chainId}-${address}`
+
+/**
+ * Load a provider's stored tokens keyed by tokenKey
+ */
+export const loadStoredTokens = (providerName: string) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const rows = yield* drizzle
+      .select({
+        chainId: db.tokens.chainId,
+        address: db.tokens.address,
+        symbol: db.tokens.symbol,
+        name: db.tokens.name,
+        decimals: db.tokens.decimals,
+        logoUri: db.tokens.logoUri,
+        tags: db.tokens.tags,
+        delistedAt: db.tokens.delistedAt,
+      })
+      .from(db.tokens)
+      .where(eq(db.tokens.providerName, providerName))
+
+    return new Map<string, StoredToken>(
+      rows.map((row) => [tokenKey(row.chainId, row.address), row])
+    )
+  })
+
+/**
+ * Fields whose values differ between a stored token and its freshly fetched version
+ * Missing values (undefined/null) are treated as equal
+ */
+export const changedFields = (stored: StoredToken, token: Token): TokenField[] => {
+  const fields: TokenField[] = []
+  if (stored.symbol !== token.symbol) fields.push("symbol")
+  if (stored.name !== token.name) fields.push("name")
+  if ((stored.decimals ?? null) !== (token.decimals ?? null)) fields.push("decimals")
+  if ((stored.logoUri ?? null) !== (token.logoURI ?? null)) fields.push("logoUri")
+  if (JSON.stringify(stored.tags ?? []) !== JSON.stringify(token.tags ?? [])) fields.push("tags")
+  return fields
+}
+
+/**
+ * Changes between a provider's stored tokens and a freshly fetched snapshot
+ * - listed: token is new, or was delisted and reappeared
+ * - updated: a previously listed token whose tracked fields changed
+ */
+export interface TokenChanges {
+  readonly listed: ReadonlyArray<Token>
+  readonly updated: ReadonlyArray<{
+    readonly token: Token
+    readonly previous: StoredToken
+    readonly fields: ReadonlyArray<TokenField>
+  }>
+}
+
+/**
+ * Classify fetched tokens against the stored snapshot
+ */
+export const diffTokens = (
+  tokens: ReadonlyArray<Token>,
+  previous: ReadonlyMap<string, StoredToken>
+): TokenChanges => {
+  const listed: Token[] = []
+  const updated: Array<TokenChanges["updated"][number]> = []
+
+  for (const token of tokens) {
+    const stored = previous.get(tokenKey(token.chainId, token.address))
+    if (!stored || stored.delistedAt !== null) {
+      listed.push(token)
+      continue
+    }
+    const fields = changedFields(stored, token)
+    if (fields.length > 0) {
+      updated.push({ token, previous: stored, fields })
+    }
+  }
+
+  return { listed, updated }
+}
+
+/**
+ * Record a baseline "listed" entry for stored tokens that have no history yet
+ * (tokens ingested before history tracking existed). Uses created_at as the recorded time.
+ * After the first run for a provider this is a no-op.
+ */
+export const seedTokenHistory = (providerName: string) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    yield* drizzle.execute(sql`
+      INSERT INTO token_history
+        (provider_name, chain_id, address, symbol, name, decimals, logo_uri, tags, change_type, fetch_id, recorded_at)
+      SELECT t.provider_name, t.chain_id, t.address, t.symbol, t.name, t.decimals, t.logo_uri, t.tags,
+        'listed', t.fetch_id, t.created_at
+      FROM tokens t
+      WHERE t.provider_name = ${providerName}
+      AND NOT EXISTS (
+        SELECT 1 FROM token_history h
+        WHERE h.provider_name = t.provider_name
+        AND h.chain_id = t.chain_id
+        AND h.address = t.address
+      )
+    `)
+  })
+
+/**
+ * Write history entries for a fetch
+ * - listed / updated: see diffTokens
+ * - delisted: token disappeared from the provider's list
+ */
+export const recordTokenHistory = (
+  providerName: string,
+  fetchId: number,
+  changes: TokenChanges,
+  delisted: ReadonlyArray<Omit<StoredToken, "delistedAt">>
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const snapshot = (token: Token, changeType: "listed" | "updated") => ({
+      providerName,
+      chainId: token.chainId,
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals ?? null,
+      logoUri: token.logoURI ?? null,
+      tags: token.tags ?? [],
+      changeType,
+      fetchId,
+    })
+
+    const entries: Array<typeof db.tokenHistory.$inferInsert> = [
+      ...changes.listed.map((token) => snapshot(token, "listed")),
+      ...changes.updated.map(({ token }) => snapshot(token, "updated")),
+      ...delisted.map((token) => ({
+        ...token,
+        providerName,
+        changeType: "delisted" as const,
+        fetchId,
+      })),
+    ]
+
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      yield* drizzle.insert(db.tokenHistory).values(entries.slice(i, i + BATCH_SIZE))
+    }
+
+    if (entries.length > 0) {
+      yield* Effect.log(`Recorded ${entries.length} token history entries`)
+    }
+  })
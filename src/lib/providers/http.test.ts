@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { parseRetryAfter } from "./http"
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z")
+
+  it("reads a delay in seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000)
+    expect(parseRetryAfter("0", now)).toBe(0)
+    expect(parseRetryAfter("1.5", now)).toBe(1_500)
+  })
+
+  it("reads an HTTP date as the time left until then", () => {
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30_000)
+  })
+
+  it("never returns a negative delay", () => {
+    expect(parseRetryAfter("-5", now)).toBe(0)
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0)
+  })
+
+  it("ignores a missing or unreadable header", () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined()
+    expect(parseRetryAfter("", now)).toBeUndefined()
+    expect(parseRetryAfter("soon", now)).toBeUndefined()
+  })
+})
@@ -1,5 +1,8 @@
 import { HttpClient } from "@effect/platform"
-import { Effect, Data } from "effect"
+import { Cause, Effect, Data, Context, Clock, Duration, Random, Schema } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { eq, sql } from "drizzle-orm"
+import * as db from "../db/schema"
 
 /**
  * HTTP fetch error with tagged error pattern
@@ -7,28 +10,428 @@ import { Effect, Data } from "effect"
 export class HttpFetchError extends Data.TaggedError("HttpFetchError")<{
   readonly url: string
   readonly message: string
+  readonly status?: number
   readonly cause?: unknown
 }> {}
 
 /**
- * Fetch JSON from a URL using Effect's HttpClient
- * The HttpClient service will be provided by the layer composition
+ * Retry, timeout, rate limit and concurrency settings for a provider's requests
  */
-export const fetchJson = (url: string) =>
-  Effect.gen(function* () {
+export interface HttpPolicyConfig {
+  /** Timeout per attempt */
+  readonly timeout: Duration.DurationInput
+  /** Retries after the first attempt on 429, 5xx, timeouts and transport errors */
+  readonly maxRetries: number
+  /** Base delay for exponential backoff (doubled per retry, with full jitter) */
+  readonly baseDelay: Duration.DurationInput
+  /** Upper bound for backoff and Retry-After delays */
+  readonly maxDelay: Duration.DurationInput
+  /** Requests in flight at once for one provider fetch */
+  readonly concurrency: number
+  /** Token bucket refill rate per host */
+  readonly requestsPerSecond: number
+  /** Token bucket capacity per host */
+  readonly burst: number
+}
+
+export const DEFAULT_HTTP_POLICY: HttpPolicyConfig = {
+  timeout: "30 seconds",
+  maxRetries: 3,
+  baseDelay: "500 millis",
+  maxDelay: "30 seconds",
+  concurrency: 8,
+  requestsPerSecond: 10,
+  burst: 10,
+}
+
+/**
+ * Per-provider overrides of DEFAULT_HTTP_POLICY
+ */
+export const PROVIDER_HTTP_POLICIES: Record<string, Partial<HttpPolicyConfig>> = {
+  // Rate limited API, one request per network
+  butter: { concurrency: 5, requestsPerSecond: 5, burst: 5 },
+  // One request per chain (~20 chains)
+  debridge: { concurrency: 4, requestsPerSecond: 5, burst: 5 },
+}
+
+export const getHttpPolicyConfig = (providerName: string): HttpPolicyConfig => ({
+  ...DEFAULT_HTTP_POLICY,
+  ...PROVIDER_HTTP_POLICIES[providerName.toLowerCase()],
+})
+
+/**
+ * Request counters and timing for one provider fetch, reported in the fetch result
+ */
+export interface HttpStats {
+  /** Attempts sent, including retries */
+  requests: number
+  /** Attempts retried after a 429, 5xx, timeout or transport error */
+  retries: number
+  /** 429 responses received */
+  rateLimited: number
+  /** Requests delayed by the per-host rate limiter */
+  throttled: number
+  /** 304 responses answered from the response cache */
+  notModified: number
+  /** Response body bytes received (304s excluded) */
+  bytes: number
+  /** Wall-clock milliseconds with at least one request in flight */
+  durationMs: number
+}
+
+export const emptyHttpStats = (): HttpStats => ({
+  requests: 0,
+  retries: 0,
+  rateLimited: 0,
+  throttled: 0,
+  notModified: 0,
+  bytes: 0,
+  durationMs: 0,
+})
+
+/**
+ * Token bucket state for one host
+ * Tokens may go negative: each request reserves a token and waits until it has been refilled.
+ */
+interface TokenBucket {
+  readonly ratePerMs: number
+  readonly capacity: number
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Failed attempt, with what is needed to decide whether and when to retry
+ */
+interface AttemptFailure {
+  readonly retryable: boolean
+  readonly retryAfterMs?: number
+  readonly error: HttpFetchError
+}
+
+/**
+ * Cached response for a URL with the validators to revalidate it
+ */
+type CachedResponse = Pick<typeof db.httpResponseCache.$inferSelect, "etag" | "lastModified" | "body">
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: string | undefined, now: number): number | undefined => {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * A response body received during a provider fetch
+ */
+export interface ArchivedResponse {
+  readonly url: string
+  readonly body: unknown
+}
+
+/**
+ * HTTP client scoped to one provider fetch
+ * Applies the provider's policy, counts requests into stats and
+ * collects every response body (for the fetch archive).
+ */
+export interface ProviderHttpClient {
+  readonly providerName: string
+  readonly policy: HttpPolicyConfig
+  readonly stats: HttpStats
+  readonly responses: Array<ArchivedResponse>
+  readonly getJson: (url: string) => Effect.Effect<unknown, HttpFetchError>
+}
+
+export interface ProviderHttpOptions {
+  /** Don't write the response cache */
+  readonly readOnly?: boolean
+}
+
+/**
+ * The HTTP client of the provider fetch currently running
+ * Provided by createProviderFetch, so provider code only calls fetchJson.
+ */
+export class ProviderHttp extends Context.Tag("ProviderHttp")<ProviderHttp, ProviderHttpClient>() {}
+
+/**
+ * Shared HTTP policy service
+ * Owns the per-host token buckets so all providers calling a host share its rate limit,
+ * and builds a policy-aware client for each provider fetch.
+ */
+export class HttpPolicy extends Effect.Service<HttpPolicy>()("HttpPolicy", {
+  effect: Effect.gen(function* () {
     const client = yield* HttpClient.HttpClient
+    const drizzle = yield* Pg.PgDrizzle
+    const buckets = new Map<string, TokenBucket>()
 
-    const response = yield* client.get(url).pipe(
-      Effect.flatMap((res) => res.json),
-      Effect.timeout("30 seconds"),
-      Effect.mapError((error) =>
-        new HttpFetchError({
-          url,
-          message: `Failed to fetch ${url}`,
-          cause: error
+    // The response cache only saves bandwidth, so its failures never fail a request
+    const loadCached = (url: string) =>
+      drizzle
+        .select({
+          etag: db.httpResponseCache.etag,
+          lastModified: db.httpResponseCache.lastModified,
+          body: db.httpResponseCache.body,
+        })
+        .from(db.httpResponseCache)
+        .where(eq(db.httpResponseCache.url, url))
+        .pipe(
+          Effect.map((rows): CachedResponse | undefined => rows[0]),
+          Effect.tapError((error) =>
+            Effect.logError(`Failed to read response cache for ${url}`, Cause.fail(error)).pipe(
+              Effect.annotateLogs("service", "HttpPolicy")
+            )
+          ),
+          Effect.orElseSucceed(() => undefined)
+        )
+
+    const saveCached = (url: string, providerName: string, response: CachedResponse) =>
+      drizzle
+        .insert(db.httpResponseCache)
+        .values({ url, providerName, ...response })
+        .onConflictDoUpdate({
+          target: db.httpResponseCache.url,
+          set: { providerName, ...response, updatedAt: sql`NOW()` },
+        })
+        .pipe(
+          Effect.asVoid,
+          Effect.catchAll((error) =>
+            Effect.logError(`Failed to write response cache for ${url}`, Cause.fail(error)).pipe(
+              Effect.annotateLogs("service", "HttpPolicy")
+            )
+          )
+        )
+
+    /**
+     * Reserve a token for the host, returning how long to wait for it
+     * The first provider to call a host sets its bucket's rate.
+     */
+    const reserve = (host: string, policy: HttpPolicyConfig) =>
+      Effect.map(Clock.currentTimeMillis, (now) => {
+        let bucket = buckets.get(host)
+        if (!bucket) {
+          bucket = {
+            ratePerMs: policy.requestsPerSecond / 1000,
+            capacity: policy.burst,
+            tokens: policy.burst,
+            updatedAt: now,
+          }
+          buckets.set(host, bucket)
+        }
+
+        bucket.tokens = Math.min(
+          bucket.capacity,
+          bucket.tokens + (now - bucket.updatedAt) * bucket.ratePerMs
+        )
+        bucket.updatedAt = now
+        bucket.tokens -= 1
+
+        return bucket.tokens >= 0 ? 0 : Math.ceil(-bucket.tokens / bucket.ratePerMs)
+      })
+
+    /**
+     * Send one request, conditional when the cache has validators for the URL
+     * Resolves to the JSON body and whether it came from the cache (304)
+     * The timeout covers the whole exchange, body included: a server can send its headers
+     * and then stall.
+     */
+    const attempt = (url: string, policy: HttpPolicyConfig, cached: CachedResponse | undefined) =>
+      Effect.gen(function* () {
+        const headers: Record<string, string> = {}
+        if (cached?.etag) headers["if-none-match"] = cached.etag
+        if (cached?.lastModified) headers["if-modified-since"] = cached.lastModified
+
+        const response = yield* client.get(url, { headers }).pipe(
+          Effect.mapError(
+            (cause): AttemptFailure => ({
+              retryable: true,
+              error: new HttpFetchError({ url, message: `Failed to fetch ${url}`, cause }),
+            })
+          )
+        )
+
+        if (response.status === 304 && cached) {
+          return { body: cached.body, bytes: 0, notModified: true, etag: undefined, lastModified: undefined }
+        }
+
+        if (response.status === 429 || response.status >= 500) {
+          const now = yield* Clock.currentTimeMillis
+          return yield* Effect.fail<AttemptFailure>({
+            retryable: true,
+            retryAfterMs: parseRetryAfter(response.headers["retry-after"], now),
+            error: new HttpFetchError({
+              url,
+              status: response.status,
+              message: `Failed to fetch ${url}: HTTP ${response.status}`,
+            }),
+          })
+        }
+
+        if (response.status >= 400) {
+          return yield* Effect.fail<AttemptFailure>({
+            retryable: false,
+            error: new HttpFetchError({
+              url,
+              status: response.status,
+              message: `Failed to fetch ${url}: HTTP ${response.status}`,
+            }),
+          })
+        }
+
+        // Read as text first, to count the bytes received
+        // A body cut off mid-stream is a transport error like a failed request
+        const text = yield* response.text.pipe(
+          Effect.mapError(
+            (cause): AttemptFailure => ({
+              retryable: true,
+              error: new HttpFetchError({ url, message: `Failed to read response from ${url}`, cause }),
+            })
+          )
+        )
+        const body = yield* Schema.decode(Schema.parseJson())(text).pipe(
+          Effect.mapError(
+            (cause): AttemptFailure => ({
+              retryable: false,
+              error: new HttpFetchError({ url, message: `Invalid JSON from ${url}`, cause }),
+            })
+          )
+        )
+
+        return {
+          body,
+          bytes: Buffer.byteLength(text),
+          notModified: false,
+          etag: response.headers["etag"],
+          lastModified: response.headers["last-modified"],
+        }
+      }).pipe(
+        Effect.timeoutFail({
+          duration: policy.timeout,
+          onTimeout: (): AttemptFailure => ({
+            retryable: true,
+            error: new HttpFetchError({
+              url,
+              message: `Failed to fetch ${url}: timed out after ${Duration.format(policy.timeout)}`,
+            }),
+          }),
         })
       )
-    )
 
-    return response
-  })
+    /**
+     * Build the client for one provider fetch
+     * Concurrency is limited per fetch; the rate limit is shared per host across fetches.
+     * A read-only client (dry runs) still answers 304s from the response cache but never writes it.
+     */
+    const forProvider = (
+      providerName: string,
+      options: ProviderHttpOptions = {}
+    ): Effect.Effect<ProviderHttpClient> =>
+      Effect.gen(function* () {
+        const policy = getHttpPolicyConfig(providerName)
+        const semaphore = yield* Effect.makeSemaphore(policy.concurrency)
+        const stats = emptyHttpStats()
+        // Requests in flight, and since when (for stats.durationMs)
+        let inFlight = 0
+        let inFlightSince = 0
+        const responses: Array<ArchivedResponse> = []
+        const maxDelayMs = Duration.toMillis(policy.maxDelay)
+        const baseDelayMs = Duration.toMillis(policy.baseDelay)
+
+        const send = (
+          url: string,
+          cached: CachedResponse | undefined,
+          retry: number
+        ): Effect.Effect<unknown, HttpFetchError> =>
+          Effect.gen(function* () {
+            const wait = yield* reserve(new URL(url).host, policy)
+            if (wait > 0) {
+              stats.throttled++
+              yield* Effect.annotateCurrentSpan("throttledMs", wait)
+              yield* Effect.sleep(Duration.millis(wait))
+            }
+
+            stats.requests++
+            return yield* attempt(url, policy, cached).pipe(
+              Effect.tap((result) =>
+                Effect.gen(function* () {
+                  stats.bytes += result.bytes
+                  yield* Effect.annotateCurrentSpan({ bytes: result.bytes, notModified: result.notModified, retries: retry })
+                  if (result.notModified) {
+                    stats.notModified++
+                  } else if (!options.readOnly && (result.etag || result.lastModified)) {
+                    yield* saveCached(url, providerName, {
+                      etag: result.etag ?? null,
+                      lastModified: result.lastModified ?? null,
+                      body: result.body,
+                    })
+                  }
+                })
+              ),
+              Effect.map((result) => result.body),
+              Effect.catchAll((failure) =>
+                Effect.gen(function* () {
+                  if (failure.error.status === 429) {
+                    stats.rateLimited++
+                  }
+                  if (!failure.retryable || retry >= policy.maxRetries) {
+                    return yield* failure.error
+                  }
+
+                  // Full jitter: random delay up to the exponential backoff cap
+                  const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** retry)
+                  const jitteredMs = Math.round((yield* Random.next) * backoffMs)
+                  const delayMs = Math.min(maxDelayMs, failure.retryAfterMs ?? jitteredMs)
+
+                  yield* Effect.logWarning(
+                    `${failure.error.message} - retry ${retry + 1}/${policy.maxRetries} in ${delayMs}ms`
+                  )
+                  stats.retries++
+                  yield* Effect.sleep(Duration.millis(delayMs))
+                  return yield* send(url, cached, retry + 1)
+                })
+              )
+            )
+          })
+
+        const trackInFlight = <A, E>(effect: Effect.Effect<A, E>) =>
+          Effect.acquireUseRelease(
+            Effect.flatMap(Clock.currentTimeMillis, (now) =>
+              Effect.sync(() => {
+                if (inFlight++ === 0) inFlightSince = now
+              })
+            ),
+            () => effect,
+            () =>
+              Effect.flatMap(Clock.currentTimeMillis, (now) =>
+                Effect.sync(() => {
+                  if (--inFlight === 0) stats.durationMs += now - inFlightSince
+                })
+              )
+          )
+
+        const getJson = (url: string) =>
+          trackInFlight(
+            semaphore.withPermits(1)(Effect.flatMap(loadCached(url), (cached) => send(url, cached, 0)))
+          ).pipe(Effect.tap((body) => Effect.sync(() => responses.push({ url, body }))))
+
+        return { providerName, policy, stats, responses, getJson } satisfies ProviderHttpClient
+      })
+
+    return { forProvider }
+  }),
+}) {}
+
+/**
+ * Fetch JSON from a URL through the current provider's HTTP policy
+ * (retries with backoff, Retry-After, per-host rate limiting, per-provider concurrency,
+ * conditional requests answered from the response cache on 304)
+ */
+export const fetchJson = (url: string) =>
+  Effect.flatMap(ProviderHttp, (http) =>
+    http.getJson(url).pipe(
+      Effect.withSpan("http.fetchJson", { attributes: { provider: http.providerName, "url.full": url } })
+    )
+  )
@@ -1,7 +1,9 @@
 import { Layer } from "effect"
-import { NodeHttpClient } from "@effect/platform-node"
 import { DatabaseLive } from "../db/layer"
+import { HttpClientLive } from "../http/layer"
 import { ChainRegistry } from "../chains/registry"
+import { AlertDispatcherLive } from "../alerts/dispatcher"
+import { SubscriptionDispatcherLive } from "../subscriptions/dispatcher"
 import { RelayProvider } from "./relay"
 import { LifiProvider } from "./lifi"
 import { AcrossProvider } from "./across"
@@ -14,6 +16,8 @@ import { AoriProvider } from "./aori"
 import { EcoProvider } from "./eco"
 import { MesonProvider } from "./meson"
 import { ButterProvider } from "./butter"
+import { ProviderRegistry } from "./registry"
+import { HttpPolicy } from "./http"
 
 /**
  * Export all provider services
@@ -31,53 +35,43 @@ export {
   EcoProvider,
   MesonProvider,
   ButterProvider,
+  ProviderRegistry,
+  HttpPolicy,
 }
+export type { ProviderAdapter } from "./factory"
 
 /**
  * Combined layer with all dependencies provided
  * Following the pattern: Layer.provideMerge for nested dependencies
  *
- * With Effect.Service pattern, services automatically generate a .Default layer
- * that we can use directly.
+ * ProviderRegistry.Default already includes every provider service's .Default layer
+ * via its `dependencies` array, so only the shared base dependencies are added here.
  */
 // ChainRegistry needs HttpClient, so provide it explicitly
+// HttpClientLive records or replays responses when HTTP_FIXTURES_MODE is set
 const ChainRegistryWithHttp = ChainRegistry.Default.pipe(
-  Layer.provide(NodeHttpClient.layerUndici)
+  Layer.provide(HttpClientLive)
 )
 
+// HttpPolicy wraps the HttpClient with retries, rate limits and per-provider settings,
+// and keeps its conditional request cache in the database
+const HttpPolicyWithHttp = HttpPolicy.Default.pipe(
+  Layer.provide(Layer.mergeAll(HttpClientLive, DatabaseLive))
+)
+
+// Alert and subscription webhooks from the fetch pipeline, sent with their own HTTP client
 const ProvidersBaseLive = Layer.mergeAll(
   DatabaseLive,
-  NodeHttpClient.layerUndici,
-  ChainRegistryWithHttp
+  HttpClientLive,
+  ChainRegistryWithHttp,
+  HttpPolicyWithHttp,
+  AlertDispatcherLive,
+  SubscriptionDispatcherLive
 )
 
-const RelayLive = RelayProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const LifiLive = LifiProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const AcrossLive = AcrossProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const StargateLive = StargateProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const DebridgeLive = DebridgeProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const MayanLive = MayanProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const RhinoLive = RhinoProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const GasZipLive = GasZipProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const AoriLive = AoriProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const EcoLive = EcoProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const MesonLive = MesonProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-const ButterLive = ButterProvider.Default.pipe(Layer.provideMerge(ProvidersBaseLive))
-
 /**
- * Combined layer with all providers and their dependencies
+ * Combined layer with the provider registry (and thus every provider) plus their dependencies
  */
-export const AllProvidersLive = Layer.mergeAll(
-  RelayLive,
-  LifiLive,
-  AcrossLive,
-  StargateLive,
-  DebridgeLive,
-  MayanLive,
-  RhinoLive,
-  GasZipLive,
-  AoriLive,
-  EcoLive,
-  MesonLive,
-  ButterLive
+export const AllProvidersLive = ProviderRegistry.Default.pipe(
+  Layer.provideMerge(ProvidersBaseLive)
 )
@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "lifi"
 const API_URL = "https://li.quest/v1/tokens"
@@ -31,7 +32,7 @@ const LifiTokenSchema = Schema.Struct({
 const LifiResponseSchema = Schema.Struct({
   tokens: Schema.Record({
     key: Schema.String,
-    value: Schema.Array(LifiTokenSchema)
+    value: ProviderItems(LifiTokenSchema)
   }),
 })
 
@@ -40,12 +41,12 @@ const LifiResponseSchema = Schema.Struct({
  */
 export class LifiProvider extends Effect.Service<LifiProvider>()("LifiProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch and validate response
         const rawResponse = yield* fetchJson(API_URL)
-        const response = yield* Schema.decodeUnknown(LifiResponseSchema)(rawResponse)
+        const response = yield* decodeProviderPayload(LifiResponseSchema)(rawResponse)
 
         // Infer chains from token data
         const chainIds = new Set<number>()
@@ -73,6 +74,7 @@ export class LifiProvider extends Effect.Service<LifiProvider>()("LifiProvider",
               chainId: tokenChainId,
               logoURI: sanitize(token.logoURI),
               tags,
+              raw: token,
             })
           }
         }
@@ -92,6 +94,6 @@ export class LifiProvider extends Effect.Service<LifiProvider>()("LifiProvider",
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "mayan"
 const API_URL = "https://price-api.mayan.finance/v3/tokens"
@@ -53,7 +54,7 @@ const MayanTokenSchema = Schema.Struct({
 
 const MayanResponseSchema = Schema.Record({
   key: Schema.String,
-  value: Schema.Array(MayanTokenSchema)
+  value: ProviderItems(MayanTokenSchema)
 })
 
 /**
@@ -61,12 +62,12 @@ const MayanResponseSchema = Schema.Record({
  */
 export class MayanProvider extends Effect.Service<MayanProvider>()("MayanProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch token data
         const raw = yield* fetchJson(API_URL)
-        const response = yield* Schema.decodeUnknown(MayanResponseSchema)(raw)
+        const response = yield* decodeProviderPayload(MayanResponseSchema)(raw)
 
         const chainIds = new Set<number>()
         const tokens: Token[] = []
@@ -101,6 +102,7 @@ export class MayanProvider extends Effect.Service<MayanProvider>()("MayanProvide
               chainId,
               logoURI: token.logoURI,
               tags,
+              raw: token,
             })
           }
         }
@@ -116,14 +118,12 @@ export class MayanProvider extends Effect.Service<MayanProvider>()("MayanProvide
           },
         }))
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
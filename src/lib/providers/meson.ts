@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "meson"
 const API_URL = "https://relayer.meson.fi/api/v1/list"
@@ -21,7 +22,7 @@ const MesonChainSchema = Schema.Struct({
   id: Schema.String,
   name: Schema.String,
   chainId: Schema.String, // Can be hex or decimal!
-  tokens: Schema.Array(MesonTokenSchema),
+  tokens: ProviderItems(MesonTokenSchema),
 })
 
 const MesonResponseSchema = Schema.Struct({
@@ -33,12 +34,12 @@ const MesonResponseSchema = Schema.Struct({
  */
 export class MesonProvider extends Effect.Service<MesonProvider>()("MesonProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch chain/token data
         const raw = yield* fetchJson(API_URL)
-        const response = yield* Schema.decodeUnknown(MesonResponseSchema)(raw)
+        const response = yield* decodeProviderPayload(MesonResponseSchema)(raw)
 
         const chains: Chain[] = []
         const tokens: Token[] = []
@@ -80,18 +81,17 @@ export class MesonProvider extends Effect.Service<MesonProvider>()("MesonProvide
               chainId,
               logoURI: undefined,
               tags,
+              raw: token,
             })
           }
         }
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
@@ -168,7 +168,7 @@ export const PROVIDER_INFO: Record<string, ProviderInfo> = {
     notes: [
       "Paginated API with pageSize=100",
       "Rate limited to 5 major networks (Ethereum, BSC, Polygon, Arbitrum, Optimism)",
-      "Uses concurrency: 5 to respect rate limits",
+      "HTTP policy limits it to 5 concurrent requests and 5 requests/second",
     ],
   },
 }
@@ -0,0 +1,147 @@
+/**
+ * Fetch metrics
+ * Per-stage timings and transfer counters of a provider fetch, returned in its result and
+ * stored in provider_fetch_metrics, so a slow adapter shows up in its stage breakdown.
+ */
+
+import { Cause, Context, Duration, Effect } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { desc, eq } from "drizzle-orm"
+import * as db from "../db/schema"
+import type { HttpStats } from "./http"
+
+/**
+ * Stage timings are in milliseconds and add up to about totalMs
+ */
+export interface FetchMetrics {
+  /** Wall-clock time with requests in flight, including rate limiting and retry backoff */
+  readonly httpMs: number
+  /** Schema decoding of the response bodies */
+  readonly decodeMs: number
+  /** The rest of the provider's fetch logic (mapping, categorization) and chain ID normalization */
+  readonly normalizeMs: number
+  /** Anomaly guard, staging, swap, history and diff; the diff alone in dry runs (0 when the fetch failed before storage) */
+  readonly storageMs: number
+  /** The whole fetch, including archiving and rejection records */
+  readonly totalMs: number
+  /** Response bodies downloaded (304s answered from the response cache count as 0) */
+  readonly bytes: number
+  readonly requests: number
+  readonly retries: number
+}
+
+/**
+ * Milliseconds spent per stage of one provider fetch, accumulated as it runs
+ */
+export interface FetchTimer {
+  /** Fetch logic and chain ID normalization, HTTP and decoding included */
+  fetchMs: number
+  decodeMs: number
+  storageMs: number
+}
+
+/**
+ * Timer of the provider fetch currently running
+ * Provided by createProviderFetch; decodeProviderPayload adds its decoding time.
+ */
+export class FetchTimings extends Context.Tag("FetchTimings")<FetchTimings, FetchTimer>() {}
+
+export const makeFetchTimer = (): FetchTimer => ({ fetchMs: 0, decodeMs: 0, storageMs: 0 })
+
+/**
+ * Add an effect's duration to a stage, whether it succeeds or not
+ */
+export const timeStage =
+  (timer: FetchTimer, stage: keyof FetchTimer) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+    Effect.timed(Effect.exit(effect)).pipe(
+      Effect.flatMap(([duration, exit]) => {
+        timer[stage] += Duration.toMillis(duration)
+        return exit
+      })
+    )
+
+/**
+ * Add an effect's duration to the current fetch's decoding time
+ */
+export const timeDecode = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Effect.flatMap(FetchTimings, (timer) => timeStage(timer, "decodeMs")(effect))
+
+/**
+ * Assemble a fetch's metrics
+ * Normalization is what's left of the fetch logic once HTTP and decoding are taken out;
+ * per-chain providers overlap the three, so it is clamped at 0.
+ */
+export const buildFetchMetrics = (http: HttpStats, timer: FetchTimer, totalMs: number): FetchMetrics => ({
+  httpMs: Math.round(http.durationMs),
+  decodeMs: Math.round(timer.decodeMs),
+  normalizeMs: Math.round(Math.max(0, timer.fetchMs - http.durationMs - timer.decodeMs)),
+  storageMs: Math.round(timer.storageMs),
+  totalMs: Math.round(totalMs),
+  bytes: http.bytes,
+  requests: http.requests,
+  retries: http.retries,
+})
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+/**
+ * One-line summary of a fetch's metrics, for the CLI
+ */
+export const formatFetchMetrics = (metrics: FetchMetrics) =>
+  `time: ${metrics.totalMs}ms (http ${metrics.httpMs}ms, decode ${metrics.decodeMs}ms, normalize ${metrics.normalizeMs}ms, storage ${metrics.storageMs}ms), ${formatBytes(metrics.bytes)} in ${metrics.requests} requests, ${metrics.retries} retries`
+
+/**
+ * Record a fetch's metrics
+ * Never fails: the fetch is already recorded, and missing metrics only leave a gap in the chart.
+ */
+export const storeFetchMetrics = (providerName: string, fetchId: number, metrics: FetchMetrics) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    yield* drizzle.insert(db.providerFetchMetrics).values({ fetchId, providerName, ...metrics })
+  }).pipe(
+    Effect.catchAll((error) => Effect.logError("Failed to record fetch metrics", Cause.fail(error)))
+  )
+
+/**
+ * A recorded fetch with its metrics
+ */
+export interface FetchMetricsPoint extends FetchMetrics {
+  readonly fetchId: number
+  readonly fetchedAt: Date
+  readonly success: boolean
+  readonly notModified: boolean
+}
+
+/**
+ * The provider's latest fetches with metrics, oldest first
+ */
+export const loadFetchMetrics = (providerName: string, limit: number) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const rows: ReadonlyArray<FetchMetricsPoint> = yield* drizzle
+      .select({
+        fetchId: db.providerFetchMetrics.fetchId,
+        fetchedAt: db.providerFetches.fetchedAt,
+        success: db.providerFetches.success,
+        notModified: db.providerFetches.notModified,
+        httpMs: db.providerFetchMetrics.httpMs,
+        decodeMs: db.providerFetchMetrics.decodeMs,
+        normalizeMs: db.providerFetchMetrics.normalizeMs,
+        storageMs: db.providerFetchMetrics.storageMs,
+        totalMs: db.providerFetchMetrics.totalMs,
+        bytes: db.providerFetchMetrics.bytes,
+        requests: db.providerFetchMetrics.requests,
+        retries: db.providerFetchMetrics.retries,
+      })
+      .from(db.providerFetchMetrics)
+      .innerJoin(db.providerFetches, eq(db.providerFetchMetrics.fetchId, db.providerFetches.id))
+      .where(eq(db.providerFetchMetrics.providerName, providerName))
+      .orderBy(desc(db.providerFetchMetrics.fetchId))
+      .limit(limit)
+
+    return [...rows].reverse()
+  })
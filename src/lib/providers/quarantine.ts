@@ -0,0 +1,201 @@
+/**
+ * Quarantined snapshots
+ * Review of the snapshots refused by the anomaly guard (see guard.ts): approving one stores
+ * it as if it had just been fetched, rejecting one discards it. Only pending snapshots can
+ * be reviewed; storing newer data for the provider supersedes them.
+ */
+
+import { Data, Effect, Schema } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { desc, eq } from "drizzle-orm"
+import { gunzipSync } from "node:zlib"
+import * as db from "../db/schema"
+import { QuarantinedSnapshotJson, type Anomaly } from "./guard"
+import { previewProviderData, storeProviderData } from "./storage"
+import type { FetchDiffDetail } from "./types"
+
+export type QuarantineStatus = (typeof db.quarantinedFetches.$inferSelect)["status"]
+
+export interface QuarantinedFetch {
+  readonly id: number
+  readonly provider: string
+  readonly status: QuarantineStatus
+  readonly anomalies: ReadonlyArray<Anomaly>
+  readonly chainsCount: number
+  readonly tokensCount: number
+  readonly createdAt: Date
+  readonly reviewedAt: Date | null
+  readonly reviewedBy: string | null
+  /** The fetch stored on approval */
+  readonly fetchId: number | null
+}
+
+export interface QuarantinedFetchDetail extends QuarantinedFetch {
+  /** What approving would change in the stored data (null unless pending) */
+  readonly diff: FetchDiffDetail | null
+}
+
+/**
+ * No quarantined snapshot with this ID
+ */
+export class QuarantineNotFoundError extends Data.TaggedError("QuarantineNotFoundError")<{
+  readonly quarantineId: number
+}> {}
+
+/**
+ * The snapshot was already approved, rejected or superseded
+ */
+export class QuarantineNotPendingError extends Data.TaggedError("QuarantineNotPendingError")<{
+  readonly quarantineId: number
+  readonly status: QuarantineStatus
+}> {}
+
+const summaryColumns = {
+  id: db.quarantinedFetches.id,
+  provider: db.quarantinedFetches.providerName,
+  status: db.quarantinedFetches.status,
+  anomalies: db.quarantinedFetches.anomalies,
+  chainsCount: db.quarantinedFetches.chainsCount,
+  tokensCount: db.quarantinedFetches.tokensCount,
+  createdAt: db.quarantinedFetches.createdAt,
+  reviewedAt: db.quarantinedFetches.reviewedAt,
+  reviewedBy: db.quarantinedFetches.reviewedBy,
+  fetchId: db.quarantinedFetches.fetchId,
+}
+
+/**
+ * Quarantined snapshots, newest first (all statuses unless one is given)
+ */
+export const listQuarantinedFetches = (status?: QuarantineStatus) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const rows: ReadonlyArray<QuarantinedFetch> = yield* drizzle
+      .select(summaryColumns)
+      .from(db.quarantinedFetches)
+      .where(status ? eq(db.quarantinedFetches.status, status) : undefined)
+      .orderBy(desc(db.quarantinedFetches.id))
+
+    return rows
+  })
+
+const loadQuarantinedFetch = (quarantineId: number) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [row] = yield* drizzle
+      .select({
+        ...summaryColumns,
+        payloadHash: db.quarantinedFetches.payloadHash,
+        payload: db.quarantinedFetches.payload,
+      })
+      .from(db.quarantinedFetches)
+      .where(eq(db.quarantinedFetches.id, quarantineId))
+
+    if (!row) {
+      return yield* new QuarantineNotFoundError({ quarantineId })
+    }
+
+    const { payload, payloadHash, ...summary } = row
+    return {
+      summary: summary satisfies QuarantinedFetch,
+      payloadHash,
+      decodeSnapshot: Effect.suspend(() =>
+        Schema.decode(QuarantinedSnapshotJson)(gunzipSync(payload).toString("utf8"))
+      ),
+    }
+  })
+
+/**
+ * A quarantined snapshot; pending ones come with their diff against the stored data
+ */
+export const getQuarantinedFetch = (quarantineId: number) =>
+  Effect.gen(function* () {
+    const { summary, decodeSnapshot } = yield* loadQuarantinedFetch(quarantineId)
+    if (summary.status !== "pending") {
+      return { ...summary, diff: null } satisfies QuarantinedFetchDetail
+    }
+
+    const snapshot = yield* decodeSnapshot
+    const { diff } = yield* previewProviderData(
+      summary.provider,
+      snapshot.chains,
+      snapshot.tokens,
+      snapshot.chainStatuses
+    )
+    return { ...summary, diff } satisfies QuarantinedFetchDetail
+  })
+
+const markReviewed = (
+  quarantineId: number,
+  status: "approved" | "rejected",
+  reviewedBy: string,
+  fetchId: number | null
+) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [row] = yield* drizzle
+      .update(db.quarantinedFetches)
+      .set({ status, reviewedBy, reviewedAt: new Date(), fetchId })
+      .where(eq(db.quarantinedFetches.id, quarantineId))
+      .returning(summaryColumns)
+
+    return row satisfies QuarantinedFetch
+  })
+
+const ensurePending = (summary: QuarantinedFetch) =>
+  summary.status === "pending"
+    ? Effect.void
+    : new QuarantineNotPendingError({ quarantineId: summary.id, status: summary.status })
+
+/**
+ * Store a pending snapshot, bypassing the anomaly guard
+ * Callers should hold the provider's fetch lock (see acquireFetchLocks).
+ */
+export const approveQuarantinedFetch = (quarantineId: number, reviewedBy: string) =>
+  Effect.gen(function* () {
+    const { summary, payloadHash, decodeSnapshot } = yield* loadQuarantinedFetch(quarantineId)
+    yield* ensurePending(summary)
+
+    const snapshot = yield* decodeSnapshot
+    const stored = yield* storeProviderData(
+      summary.provider,
+      snapshot.chains,
+      snapshot.tokens,
+      payloadHash,
+      snapshot.chainStatuses,
+      { skipAnomalyGuard: true }
+    )
+
+    yield* Effect.log(`Approved quarantined snapshot ${quarantineId} as fetch ${stored.fetchId}`).pipe(
+      Effect.annotateLogs({ provider: summary.provider, fetchId: stored.fetchId })
+    )
+
+    const quarantine = yield* markReviewed(quarantineId, "approved", reviewedBy, stored.fetchId)
+    return { quarantine, fetchId: stored.fetchId, diff: stored.diff }
+  })
+
+/**
+ * Discard a pending snapshot
+ * Callers should hold the provider's fetch lock, so an approval can't run concurrently.
+ */
+export const rejectQuarantinedFetch = (quarantineId: number, reviewedBy: string) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [row] = yield* drizzle
+      .select(summaryColumns)
+      .from(db.quarantinedFetches)
+      .where(eq(db.quarantinedFetches.id, quarantineId))
+
+    if (!row) {
+      return yield* new QuarantineNotFoundError({ quarantineId })
+    }
+    yield* ensurePending(row)
+
+    yield* Effect.log(`Rejected quarantined snapshot ${quarantineId}`).pipe(
+      Effect.annotateLogs("provider", row.provider)
+    )
+    return yield* markReviewed(quarantineId, "rejected", reviewedBy, null)
+  })
@@ -0,0 +1,60 @@
+/**
+ * Provider Registry Service
+ * Single source of truth for which provider adapters exist and in what order.
+ *
+ * Adding a provider means implementing its service (returning `defineProvider(...)`),
+ * adding a PROVIDER_INFO entry, and appending the service to PROVIDER_SERVICES below.
+ * Fetching, the admin API, the CLI job and the UI all enumerate providers from here.
+ */
+
+import { Effect, Option } from "effect"
+import type { ProviderAdapter } from "./factory"
+import { RelayProvider } from "./relay"
+import { LifiProvider } from "./lifi"
+import { AcrossProvider } from "./across"
+import { StargateProvider } from "./stargate"
+import { DebridgeProvider } from "./debridge"
+import { MayanProvider } from "./mayan"
+import { RhinoProvider } from "./rhino"
+import { GasZipProvider } from "./gaszip"
+import { AoriProvider } from "./aori"
+import { EcoProvider } from "./eco"
+import { MesonProvider } from "./meson"
+import { ButterProvider } from "./butter"
+
+/**
+ * All registered provider services, in display and fetch order
+ */
+const PROVIDER_SERVICES = [
+  RelayProvider,
+  LifiProvider,
+  AcrossProvider,
+  StargateProvider,
+  DebridgeProvider,
+  MayanProvider,
+  RhinoProvider,
+  GasZipProvider,
+  AoriProvider,
+  EcoProvider,
+  MesonProvider,
+  ButterProvider,
+] as const
+
+export class ProviderRegistry extends Effect.Service<ProviderRegistry>()("ProviderRegistry", {
+  effect: Effect.gen(function* () {
+    const providers: ReadonlyArray<ProviderAdapter> = yield* Effect.all(PROVIDER_SERVICES)
+
+    const byName = new Map(providers.map((provider) => [provider.name, provider]))
+
+    const names: ReadonlyArray<string> = providers.map((provider) => provider.name)
+
+    /**
+     * Look up a provider adapter by name (case-insensitive)
+     */
+    const get = (name: string): Option.Option<ProviderAdapter> =>
+      Option.fromNullable(byName.get(name.toLowerCase()))
+
+    return { providers, names, get }
+  }),
+  dependencies: PROVIDER_SERVICES.map((service) => service.Default),
+}) {}
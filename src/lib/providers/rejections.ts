@@ -0,0 +1,68 @@
+/**
+ * Rejected provider records
+ * Items that fail their schema are dropped from the fetch instead of failing it,
+ * and recorded in provider_rejections so API schema changes show up before they become outages.
+ */
+
+import { Context, Effect } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { eq } from "drizzle-orm"
+import * as db from "../db/schema"
+
+const BATCH_SIZE = 500
+
+// Rejections stored per fetch; the total is always recorded on the fetch
+const MAX_STORED_REJECTIONS = 1000
+
+/**
+ * A provider item that failed decoding
+ */
+export interface ProviderRejection {
+  /** Index (arrays) or key (records) of the item in its list */
+  readonly location: string
+  /** Parse issues with their paths inside the item */
+  readonly issues: ReadonlyArray<{ readonly path: string; readonly message: string }>
+  readonly raw: unknown
+}
+
+/**
+ * Rejections collected during the provider fetch currently running
+ * Provided by createProviderFetch; filled by ProviderItems / ProviderItemsRecord while decoding.
+ */
+export class ProviderRejections extends Context.Tag("ProviderRejections")<
+  ProviderRejections,
+  Array<ProviderRejection>
+>() {}
+
+/**
+ * Record a fetch's rejections: the count on the fetch, the first MAX_STORED_REJECTIONS as rows
+ */
+export const storeRejections = (
+  providerName: string,
+  fetchId: number,
+  rejections: ReadonlyArray<ProviderRejection>
+) =>
+  Effect.gen(function* () {
+    if (rejections.length === 0) return
+
+    const drizzle = yield* Pg.PgDrizzle
+
+    yield* drizzle
+      .update(db.providerFetches)
+      .set({ rejectedCount: rejections.length })
+      .where(eq(db.providerFetches.id, fetchId))
+
+    const rows = rejections.slice(0, MAX_STORED_REJECTIONS).map((rejection) => ({
+      fetchId,
+      providerName,
+      location: rejection.location,
+      issues: [...rejection.issues],
+      rawData: rejection.raw ?? null,
+    }))
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      yield* drizzle.insert(db.providerRejections).values(rows.slice(i, i + BATCH_SIZE))
+    }
+
+    yield* Effect.logWarning(`Rejected ${rejections.length} items that failed schema validation`)
+  })
@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "relay"
 const API_URL = "https://api.relay.link/chains"
@@ -32,7 +33,7 @@ const RelayChainSchema = Schema.Struct({
   displayName: Schema.optional(Schema.String),
   vmType: Schema.optional(Schema.String),
   nativeCurrency: Schema.optional(RelayNativeCurrencySchema),
-  solverCurrencies: Schema.optional(Schema.Array(RelayTokenSchema)),
+  solverCurrencies: Schema.optional(ProviderItems(RelayTokenSchema)),
 })
 
 const RelayResponseSchema = Schema.Struct({
@@ -50,16 +51,14 @@ const RelayResponseSchema = Schema.Struct({
  */
 export class RelayProvider extends Effect.Service<RelayProvider>()("RelayProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch and validate response
         const rawResponse = yield* fetchJson(API_URL)
-        const response = yield* Schema.decodeUnknown(RelayResponseSchema)(rawResponse)
+        const response = yield* decodeProviderPayload(RelayResponseSchema)(rawResponse)
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${response.chains.length} chains`
-        )
+        yield* Effect.logDebug(`Found ${response.chains.length} chains`)
 
         // Transform to normalized format
         const chains: Chain[] = response.chains.map((chain) => ({
@@ -89,16 +88,17 @@ export class RelayProvider extends Effect.Service<RelayProvider>()("RelayProvide
               chainId,
               logoURI: token.logoURI,
               tags,
+              raw: token,
             }
           })
         })
 
-        console.log(`[${PROVIDER_NAME}] Extracted ${tokens.length} tokens`)
+        yield* Effect.logDebug(`Extracted ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
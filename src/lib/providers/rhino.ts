@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItemsRecord } from "./schemas"
 
 const PROVIDER_NAME = "rhino"
 const API_URL = "https://api.rhino.fi/bridge/configs"
@@ -21,10 +22,7 @@ const RhinoTokenSchema = Schema.Struct({
 const RhinoChainConfigSchema = Schema.Struct({
   name: Schema.String,
   networkId: Schema.Union(Schema.Number, Schema.String), // Can be number or string
-  tokens: Schema.optional(Schema.Record({
-    key: Schema.String,
-    value: RhinoTokenSchema
-  })),
+  tokens: Schema.optional(ProviderItemsRecord(RhinoTokenSchema)),
 })
 
 const RhinoResponseSchema = Schema.Record({
@@ -37,12 +35,12 @@ const RhinoResponseSchema = Schema.Record({
  */
 export class RhinoProvider extends Effect.Service<RhinoProvider>()("RhinoProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch config data
         const raw = yield* fetchJson(API_URL)
-        const response = yield* Schema.decodeUnknown(RhinoResponseSchema)(raw)
+        const response = yield* decodeProviderPayload(RhinoResponseSchema)(raw)
 
         const chains: Chain[] = []
         const tokens: Token[] = []
@@ -83,19 +81,18 @@ export class RhinoProvider extends Effect.Service<RhinoProvider>()("RhinoProvide
                 chainId,
                 logoURI: undefined,
                 tags,
+                raw: tokenData,
               })
             }
           }
         }
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
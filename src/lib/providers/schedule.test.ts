@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { Duration } from "effect"
+import type { ProviderCircuit } from "./breaker"
+import { decideSchedule, type ProviderScheduleState } from "./schedule"
+
+const now = Date.parse("2026-01-01T12:00:00Z")
+const hoursAgo = (hours: number) => new Date(now - hours * 3_600_000)
+const cadence = Duration.hours(6)
+
+const state = (overrides: Partial<ProviderScheduleState> = {}): ProviderScheduleState => ({
+  provider: "lifi",
+  lastSuccessAt: hoursAgo(1),
+  lastAttemptAt: hoursAgo(1),
+  consecutiveFailures: 0,
+  ...overrides,
+})
+
+const closed: ProviderCircuit = {
+  provider: "lifi",
+  state: "closed",
+  consecutiveFailures: 0,
+  openedAt: null,
+  retryAt: null,
+  lastFailureAt: null,
+}
+
+describe("decideSchedule", () => {
+  it("runs providers that were never fetched", () => {
+    const decision = decideSchedule(state({ lastSuccessAt: null, lastAttemptAt: null }), cadence, closed, now)
+    expect(decision).toMatchObject({ due: true, reason: "never-fetched", nextRunAt: null })
+  })
+
+  it("runs providers once their cadence has elapsed", () => {
+    const decision = decideSchedule(state({ lastSuccessAt: hoursAgo(6) }), cadence, closed, now)
+    expect(decision).toMatchObject({ due: true, reason: "due", nextRunAt: null, cadenceMs: 6 * 3_600_000 })
+  })
+
+  it("waits for the cadence otherwise", () => {
+    const decision = decideSchedule(state(), cadence, closed, now)
+    expect(decision).toMatchObject({ due: false, reason: "not-due", nextRunAt: hoursAgo(-5) })
+  })
+
+  it("backs off after failures, doubling per failure", () => {
+    const failing = (failures: number) =>
+      decideSchedule(
+        state({ lastSuccessAt: hoursAgo(48), lastAttemptAt: new Date(now), consecutiveFailures: failures }),
+        cadence,
+        closed,
+        now
+      )
+
+    expect(failing(1)).toMatchObject({ due: false, reason: "backoff", nextRunAt: new Date(now + 15 * 60_000) })
+    expect(failing(3)).toMatchObject({ due: false, reason: "backoff", nextRunAt: new Date(now + 60 * 60_000) })
+  })
+
+  it("caps the backoff", () => {
+    const decision = decideSchedule(
+      state({ lastSuccessAt: hoursAgo(48), lastAttemptAt: new Date(now), consecutiveFailures: 20 }),
+      cadence,
+      closed,
+      now
+    )
+    expect(decision.nextRunAt).toEqual(hoursAgo(-12))
+  })
+
+  it("runs a failing provider again once its backoff has passed", () => {
+    const decision = decideSchedule(
+      state({ lastSuccessAt: hoursAgo(48), lastAttemptAt: hoursAgo(1), consecutiveFailures: 2 }),
+      cadence,
+      closed,
+      now
+    )
+    expect(decision).toMatchObject({ due: true, reason: "due" })
+  })
+
+  it("skips providers whose circuit is open until it may be probed", () => {
+    const open: ProviderCircuit = { ...closed, state: "open", consecutiveFailures: 5, retryAt: hoursAgo(-2) }
+    const decision = decideSchedule(state({ lastSuccessAt: hoursAgo(48) }), cadence, open, now)
+    expect(decision).toMatchObject({ due: false, reason: "circuit-open", nextRunAt: hoursAgo(-2), circuit: "open" })
+  })
+
+  it("schedules half-open circuits like closed ones", () => {
+    const halfOpen: ProviderCircuit = { ...closed, state: "half-open", consecutiveFailures: 5 }
+    const decision = decideSchedule(state({ lastSuccessAt: hoursAgo(48) }), cadence, halfOpen, now)
+    expect(decision).toMatchObject({ due: true, reason: "due", circuit: "half-open" })
+  })
+})
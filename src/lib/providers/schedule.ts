@@ -0,0 +1,184 @@
+/**
+ * Per-provider fetch cadence
+ * Decides which providers are due for a fetch, from their cadence, the fetch job history
+ * (fetch_job_steps) and their circuit breaker (see breaker.ts). Used by the scheduler
+ * process (pnpm scheduler) and /api/admin/schedule.
+ */
+
+import { Config, Duration, Effect } from "effect"
+import { PgClient } from "@effect/sql-pg"
+import { loadProviderCircuits, type CircuitState, type ProviderCircuit } from "./breaker"
+import { UnknownProviderError } from "./types"
+
+/**
+ * How often a provider is fetched, unless overridden in PROVIDER_FETCH_CADENCES
+ */
+export const DEFAULT_FETCH_CADENCE: Duration.DurationInput = "1 day"
+
+/**
+ * Per-provider cadences
+ * Overridable per provider with FETCH_CADENCE_<PROVIDER> (e.g. FETCH_CADENCE_LIFI="30 minutes").
+ */
+export const PROVIDER_FETCH_CADENCES: Record<string, Duration.DurationInput> = {
+  // Token lists change hourly
+  lifi: "1 hour",
+  relay: "1 hour",
+  // Static token list
+  eco: "7 days",
+}
+
+/**
+ * Backoff after failed fetches: doubles per consecutive failure, from base up to max
+ */
+export const FETCH_BACKOFF = {
+  base: "15 minutes",
+  max: "12 hours",
+} satisfies Record<string, Duration.DurationInput>
+
+export const getFetchCadence = (providerName: string) =>
+  Config.duration(`FETCH_CADENCE_${providerName.toUpperCase()}`).pipe(
+    Config.withDefault(
+      Duration.decode(PROVIDER_FETCH_CADENCES[providerName.toLowerCase()] ?? DEFAULT_FETCH_CADENCE)
+    )
+  )
+
+/**
+ * A provider's fetch history, as recorded by fetch job steps
+ */
+export interface ProviderScheduleState {
+  readonly provider: string
+  readonly lastSuccessAt: Date | null
+  readonly lastAttemptAt: Date | null
+  /** Failed attempts since the last success */
+  readonly consecutiveFailures: number
+}
+
+export interface ScheduleDecision {
+  readonly provider: string
+  readonly due: boolean
+  readonly reason: "never-fetched" | "due" | "not-due" | "backoff" | "circuit-open"
+  /** When the provider is next due (null when due now) */
+  readonly nextRunAt: Date | null
+  readonly cadenceMs: number
+  readonly lastSuccessAt: Date | null
+  readonly consecutiveFailures: number
+  readonly circuit: CircuitState
+}
+
+/**
+ * Load the fetch history of every provider that has finished a fetch job step
+ */
+export const loadScheduleStates = Effect.gen(function* () {
+  const pg = yield* PgClient.PgClient
+
+  const rows = yield* pg<{
+    name: string
+    last_success_at: Date | null
+    last_attempt_at: Date | null
+    failures: number
+  }>`
+    WITH last_success AS (
+      SELECT name, MAX(finished_at) AS at
+      FROM fetch_job_steps
+      WHERE kind = 'provider' AND status = 'succeeded'
+      GROUP BY name
+    )
+    SELECT
+      s.name,
+      ls.at AS last_success_at,
+      MAX(s.finished_at) AS last_attempt_at,
+      (COUNT(*) FILTER (WHERE s.status = 'failed' AND (ls.at IS NULL OR s.finished_at > ls.at)))::int AS failures
+    FROM fetch_job_steps s
+    LEFT JOIN last_success ls ON ls.name = s.name
+    WHERE s.kind = 'provider' AND s.status IN ('succeeded', 'failed')
+    GROUP BY s.name, ls.at
+  `
+
+  return new Map(
+    rows.map((row): [string, ProviderScheduleState] => [
+      row.name,
+      {
+        provider: row.name,
+        lastSuccessAt: row.last_success_at,
+        lastAttemptAt: row.last_attempt_at,
+        consecutiveFailures: row.failures,
+      },
+    ])
+  )
+})
+
+/**
+ * Decide whether a provider is due
+ * A provider inside its backoff window, or whose circuit is open, is skipped even when its
+ * cadence has elapsed. A half-open circuit is scheduled like a closed one: the fetch probes it.
+ */
+export const decideSchedule = (
+  state: ProviderScheduleState,
+  cadence: Duration.Duration,
+  circuit: ProviderCircuit,
+  now: number
+): ScheduleDecision => {
+  const cadenceMs = Duration.toMillis(cadence)
+  const decision = {
+    provider: state.provider,
+    cadenceMs,
+    lastSuccessAt: state.lastSuccessAt,
+    consecutiveFailures: state.consecutiveFailures,
+    circuit: circuit.state,
+  }
+
+  if (circuit.state === "open") {
+    return { ...decision, due: false, reason: "circuit-open", nextRunAt: circuit.retryAt }
+  }
+
+  if (state.consecutiveFailures > 0 && state.lastAttemptAt) {
+    const backoffMs = Math.min(
+      Duration.toMillis(FETCH_BACKOFF.max),
+      Duration.toMillis(FETCH_BACKOFF.base) * 2 ** (state.consecutiveFailures - 1)
+    )
+    const retryAt = state.lastAttemptAt.getTime() + backoffMs
+    if (now < retryAt) {
+      return { ...decision, due: false, reason: "backoff", nextRunAt: new Date(retryAt) }
+    }
+  }
+
+  if (!state.lastSuccessAt) {
+    return { ...decision, due: true, reason: "never-fetched", nextRunAt: null }
+  }
+
+  const nextRunAt = state.lastSuccessAt.getTime() + cadenceMs
+  return now >= nextRunAt
+    ? { ...decision, due: true, reason: "due", nextRunAt: null }
+    : { ...decision, due: false, reason: "not-due", nextRunAt: new Date(nextRunAt) }
+}
+
+/**
+ * Decide for each of the providers
+ */
+export const planProviderFetches = (providerNames: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    const states = yield* loadScheduleStates
+    const circuits = yield* loadProviderCircuits(providerNames)
+    const now = Date.now()
+
+    return yield* Effect.forEach(providerNames, (provider) =>
+      Effect.gen(function* () {
+        const circuit = circuits.get(provider)
+        if (!circuit) {
+          return yield* new UnknownProviderError({ providers: [provider], available: providerNames })
+        }
+
+        return decideSchedule(
+          states.get(provider) ?? {
+            provider,
+            lastSuccessAt: null,
+            lastAttemptAt: null,
+            consecutiveFailures: 0,
+          },
+          yield* getFetchCadence(provider),
+          circuit,
+          now
+        )
+      })
+    )
+  })
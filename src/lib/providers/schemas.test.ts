@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Schema } from "effect"
+import { FetchTimings, makeFetchTimer } from "./metrics"
+import { ProviderRejections, type ProviderRejection } from "./rejections"
+import { decodeProviderPayload, ProviderItems, ProviderItemsRecord } from "./schemas"
+
+const TokenSchema = Schema.Struct({
+  symbol: Schema.String,
+  decimals: Schema.Number,
+})
+
+/**
+ * Decode as a provider fetch would, with a fresh rejection list
+ */
+const run = <A, I>(schema: Schema.Schema<A, I, ProviderRejections>, input: unknown) => {
+  const rejections: Array<ProviderRejection> = []
+  const result = Effect.runSync(
+    decodeProviderPayload(schema)(input).pipe(
+      Effect.either,
+      Effect.provideService(ProviderRejections, rejections),
+      Effect.provideService(FetchTimings, makeFetchTimer())
+    )
+  )
+  return { result, rejections }
+}
+
+const decode = <A, I>(schema: Schema.Schema<A, I, ProviderRejections>, input: unknown) => {
+  const { result, rejections } = run(schema, input)
+  if (result._tag === "Left") {
+    throw new Error(`Expected the payload to decode: ${result.left.message}`)
+  }
+  return { decoded: result.right, rejections }
+}
+
+describe("ProviderItems", () => {
+  it("keeps valid items and rejects the others with their index and issues", () => {
+    const invalid = { symbol: "DAI", decimals: "18" }
+    const { decoded, rejections } = decode(ProviderItems(TokenSchema), [
+      { symbol: "USDC", decimals: 6 },
+      invalid,
+      { symbol: "WETH", decimals: 18 },
+    ])
+
+    expect(decoded).toEqual([
+      { symbol: "USDC", decimals: 6 },
+      { symbol: "WETH", decimals: 18 },
+    ])
+    expect(rejections).toEqual([
+      { location: "1", issues: [{ path: "decimals", message: expect.any(String) }], raw: invalid },
+    ])
+  })
+
+  it("reports every issue of an item", () => {
+    const { rejections } = decode(ProviderItems(TokenSchema), [{}])
+    expect(rejections[0].issues.map((issue) => issue.path)).toEqual(["symbol", "decimals"])
+  })
+
+  it("keeps provider-specific fields", () => {
+    const { decoded } = decode(ProviderItems(TokenSchema), [{ symbol: "USDC", decimals: 6, eid: 30101 }])
+    expect(decoded).toEqual([{ symbol: "USDC", decimals: 6, eid: 30101 }])
+  })
+
+  it("still fails when the list itself is invalid", () => {
+    const { result, rejections } = run(ProviderItems(TokenSchema), { tokens: [] })
+    expect(result._tag).toBe("Left")
+    expect(rejections).toEqual([])
+  })
+})
+
+describe("ProviderItemsRecord", () => {
+  it("keeps valid entries and rejects the others with their key", () => {
+    const { decoded, rejections } = decode(ProviderItemsRecord(TokenSchema), {
+      usdc: { symbol: "USDC", decimals: 6 },
+      broken: null,
+    })
+
+    expect(decoded).toEqual({ usdc: { symbol: "USDC", decimals: 6 } })
+    expect(rejections.map((rejection) => [rejection.location, rejection.raw])).toEqual([["broken", null]])
+  })
+})
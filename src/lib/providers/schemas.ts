@@ -1,4 +1,6 @@
-import { Schema } from "effect"
+import { Effect, ParseResult, Schema } from "effect"
+import { ProviderRejections, type ProviderRejection } from "./rejections"
+import { timeDecode } from "./metrics"
 
 /**
  * Schema for native currency information
@@ -38,3 +40,78 @@ export const ProviderResponseSchema = Schema.Struct({
   chains: Schema.Array(ChainSchema),
   tokens: Schema.Array(TokenSchema),
 })
+
+/**
+ * Decode a provider API payload, keeping fields the schema doesn't declare
+ * Decoded items then still hold provider-specific fields (e.g. Aori's eid, Stargate's chainKey)
+ * and are stored untouched as each token's raw_data.
+ * Decoding time counts towards the fetch's decode stage (see metrics.ts).
+ */
+export const decodeProviderPayload = <A, I, R>(schema: Schema.Schema<A, I, R>) => {
+  const decode = Schema.decodeUnknown(schema, { onExcessProperty: "preserve" })
+  return (input: unknown) => timeDecode(decode(input))
+}
+
+/**
+ * Decode each item on its own, keeping the valid ones
+ * Invalid items are collected in ProviderRejections with their parse issues and raw JSON.
+ */
+const decodeItems = <A, I>(
+  item: Schema.Schema<A, I, never>,
+  entries: ReadonlyArray<readonly [string, unknown]>,
+  options: Parameters<typeof ParseResult.decodeUnknown>[1]
+) =>
+  Effect.gen(function* () {
+    const rejections = yield* ProviderRejections
+    const decoded: Array<readonly [string, A]> = []
+
+    for (const [location, raw] of entries) {
+      const result = yield* Effect.either(
+        ParseResult.decodeUnknown(item)(raw, { ...options, errors: "all" })
+      )
+      if (result._tag === "Right") {
+        decoded.push([location, result.right])
+      } else {
+        rejections.push({
+          location,
+          issues: ParseResult.ArrayFormatter.formatIssueSync(result.left).map((issue) => ({
+            path: issue.path.map(String).join("."),
+            message: issue.message,
+          })),
+          raw,
+        } satisfies ProviderRejection)
+      }
+    }
+
+    return decoded
+  })
+
+/**
+ * Array of provider items where invalid items are rejected instead of failing the whole list
+ */
+export const ProviderItems = <A, I>(item: Schema.Schema<A, I, never>) =>
+  Schema.transformOrFail(Schema.Array(Schema.Unknown), Schema.Array(Schema.typeSchema(item)), {
+    strict: true,
+    decode: (items, options) =>
+      Effect.map(
+        decodeItems(item, items.map((raw, index) => [String(index), raw] as const), options),
+        (decoded) => decoded.map(([, value]) => value)
+      ),
+    encode: (items, options) => ParseResult.encodeUnknown(Schema.Array(item))(items, options),
+  })
+
+/**
+ * Record of provider items (keyed by e.g. address or symbol) with invalid items rejected
+ */
+export const ProviderItemsRecord = <A, I>(item: Schema.Schema<A, I, never>) =>
+  Schema.transformOrFail(
+    Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+    Schema.Record({ key: Schema.String, value: Schema.typeSchema(item) }),
+    {
+      strict: true,
+      decode: (items, options) =>
+        Effect.map(decodeItems(item, Object.entries(items), options), Object.fromEntries),
+      encode: (items, options) =>
+        ParseResult.encodeUnknown(Schema.Record({ key: Schema.String, value: item }))(items, options),
+    }
+  )
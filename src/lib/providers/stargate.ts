@@ -4,7 +4,8 @@ import { normalizeAddress } from "../aggregation/normalize"
 import { categorizeToken } from "../aggregation/categorize"
 import { isEvmChain } from "../aggregation/chain-mapping"
 import type { Chain, Token, ProviderResponse } from "./types"
-import { createProviderFetch } from "./factory"
+import { createProviderFetch, defineProvider } from "./factory"
+import { decodeProviderPayload, ProviderItems } from "./schemas"
 
 const PROVIDER_NAME = "stargate"
 const CHAINS_URL = "https://stargate.finance/api/v1/chains"
@@ -34,7 +35,7 @@ const StargateTokenSchema = Schema.Struct({
 })
 
 const StargateTokensResponseSchema = Schema.Struct({
-  tokens: Schema.Array(StargateTokenSchema),
+  tokens: ProviderItems(StargateTokenSchema),
 })
 
 /**
@@ -42,7 +43,7 @@ const StargateTokensResponseSchema = Schema.Struct({
  */
 export class StargateProvider extends Effect.Service<StargateProvider>()("StargateProvider", {
   effect: Effect.gen(function* () {
-    const fetch = createProviderFetch(
+    const pipeline = createProviderFetch(
       PROVIDER_NAME,
       Effect.gen(function* () {
         // Fetch both endpoints in parallel
@@ -51,12 +52,10 @@ export class StargateProvider extends Effect.Service<StargateProvider>()("Starga
           fetchJson(TOKENS_URL),
         ])
 
-        const chainsResponse = yield* Schema.decodeUnknown(StargateChainsResponseSchema)(chainsRaw)
-        const tokensResponse = yield* Schema.decodeUnknown(StargateTokensResponseSchema)(tokensRaw)
+        const chainsResponse = yield* decodeProviderPayload(StargateChainsResponseSchema)(chainsRaw)
+        const tokensResponse = yield* decodeProviderPayload(StargateTokensResponseSchema)(tokensRaw)
 
-        console.log(
-          `[${PROVIDER_NAME}] Received ${chainsResponse.chains.length} chains from API`
-        )
+        yield* Effect.logDebug(`Received ${chainsResponse.chains.length} chains from API`)
 
         // Build chainKey → chainId mapping and filter EVM chains
         const chainKeyToId = new Map<string, number>()
@@ -78,9 +77,7 @@ export class StargateProvider extends Effect.Service<StargateProvider>()("Starga
           chainKeyToId.set(chain.chainKey, chain.chainId)
         }
 
-        console.log(
-          `[${PROVIDER_NAME}] Filtered to ${chains.length} EVM chains`
-        )
+        yield* Effect.logDebug(`Filtered to ${chains.length} EVM chains`)
 
         // Map tokens using chainKey
         const tokens: Token[] = tokensResponse.tokens
@@ -99,17 +96,16 @@ export class StargateProvider extends Effect.Service<StargateProvider>()("Starga
               chainId,
               logoURI: token.logoURI,
               tags,
+              raw: token,
             }
           })
 
-        console.log(
-          `[${PROVIDER_NAME}] Found ${chains.length} chains and ${tokens.length} tokens`
-        )
+        yield* Effect.logDebug(`Found ${chains.length} chains and ${tokens.length} tokens`)
 
         return { chains, tokens }
       })
     )
 
-    return { fetch }
+    return defineProvider(PROVIDER_NAME, pipeline)
   })
 }) {}
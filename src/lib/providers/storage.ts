@@ -3,181 +3,645 @@
  * Eliminates duplication of batching logic and database operations
  */
 
-import { Effect } from "effect"
+import { Cause, Config, Effect } from "effect"
+import { createHash, randomUUID } from "node:crypto"
 import * as Pg from "@effect/sql-drizzle/Pg"
+import { PgClient } from "@effect/sql-pg"
 import * as db from "../db/schema"
-import { Chain, Token, DatabaseError } from "./types"
-import { sql } from "drizzle-orm"
+import { Chain, Token, DatabaseError, FetchDiffSummary, type ChainFetchStatus } from "./types"
+import { sql, and, eq, or, lt, desc, isNull } from "drizzle-orm"
 import { getCanonicalMetadata } from "../chains/canonical-metadata"
+import {
+  diffTokens,
+  loadStoredTokens,
+  recordTokenHistory,
+  seedTokenHistory,
+  tokenKey,
+  type StoredToken,
+  type TokenChanges,
+} from "./history"
+import { buildFetchDiff, loadPreviousFetch, logFetchDiff, storeFetchDiff } from "./diff"
+import {
+  checkSnapshot,
+  FetchQuarantinedError,
+  describeQuarantine,
+  quarantineSnapshot,
+  supersedeQuarantinedFetches,
+  type SnapshotCounts,
+} from "./guard"
+import { storeFetchMetrics, type FetchMetrics } from "./metrics"
 
-const BATCH_SIZE = 500
+// Tokens per staging INSERT (sent as one jsonb parameter)
+const STAGE_CHUNK_SIZE = 5000
 
 /**
- * Store provider fetch results in database
- * Handles: fetch record, chains, chain-provider links, and batched token inserts
+ * SHA-256 of a normalized provider response
+ * Hashing normalized data rather than the raw payload means changes to
+ * normalization or categorization rules also count as changes.
  */
-export const storeProviderData = (
+export const hashPayload = (chains: Chain[], tokens: Token[]) =>
+  createHash("sha256").update(JSON.stringify({ chains, tokens })).digest("hex")
+
+/**
+ * Store provider data, unless it is identical to the last stored fetch
+ * Unchanged data is recorded as a "not modified" fetch, which the provider's listed tokens
+ * are marked as last seen in; nothing else is written.
+ * Partial fetches are always stored, so their per-chain statuses are recorded.
+ */
+export const storeProviderDataIfChanged = (
   providerName: string,
   chains: Chain[],
-  tokens: Token[]
+  tokens: Token[],
+  chainStatuses: ReadonlyArray<ChainFetchStatus>
 ) =>
   Effect.gen(function* () {
     const drizzle = yield* Pg.PgDrizzle
+    const payloadHash = hashPayload(chains, tokens)
+
+    if (chainStatuses.some((status) => !status.success)) {
+      return yield* storeProviderData(providerName, chains, tokens, payloadHash, chainStatuses)
+    }
+
+    const [latest] = yield* drizzle
+      .select({
+        id: db.providerFetches.id,
+        payloadHash: db.providerFetches.payloadHash,
+        chainsCount: db.providerFetches.chainsCount,
+        tokensCount: db.providerFetches.tokensCount,
+      })
+      .from(db.providerFetches)
+      .where(
+        and(
+          eq(db.providerFetches.providerName, providerName),
+          eq(db.providerFetches.success, true),
+          eq(db.providerFetches.notModified, false)
+        )
+      )
+      .orderBy(desc(db.providerFetches.id))
+      .limit(1)
+
+    if (!latest || latest.payloadHash !== payloadHash) {
+      return yield* storeProviderData(providerName, chains, tokens, payloadHash, chainStatuses)
+    }
+
+    const recordNotModified = Effect.gen(function* () {
+      const [fetchRecord] = yield* drizzle
+        .insert(db.providerFetches)
+        .values({
+          providerName,
+          success: true,
+          chainsCount: latest.chainsCount,
+          tokensCount: latest.tokensCount,
+          payloadHash,
+          notModified: true,
+        })
+        .returning({ id: db.providerFetches.id })
+
+      yield* drizzle
+        .update(db.tokens)
+        .set({ lastSeenFetchId: fetchRecord.id, lastSeenAt: sql`NOW()` })
+        .where(and(eq(db.tokens.providerName, providerName), isNull(db.tokens.delistedAt)))
+
+      return fetchRecord
+    })
 
-    // Deduplicate tokens by (chainId, address) before recording count
-    // This ensures the recorded count matches what will actually be inserted
+    const pg = yield* PgClient.PgClient
+    const useTransactions = yield* Config.boolean("POSTGRES_TRANSACTIONS").pipe(
+      Config.withDefault(true)
+    )
+    const fetchRecord = yield* (useTransactions ? pg.withTransaction(recordNotModified) : recordNotModified)
+
+    yield* Effect.log(`Payload unchanged since fetch ${latest.id}, skipping storage`).pipe(
+      Effect.annotateLogs("fetchId", fetchRecord.id)
+    )
+
+    return {
+      fetchId: fetchRecord.id,
+      diff: emptyDiff(latest.id),
+      notModified: true,
+      failedChains: [],
+    }
+  })
+
+/**
+ * Deduplicate a snapshot's tokens by (chainId, address) and its chains by ID
+ * Recorded counts then match what is actually inserted, and no statement hits
+ * ON CONFLICT twice for the same row.
+ */
+const dedupeSnapshot = (chains: Chain[], tokens: Token[]) =>
+  Effect.gen(function* () {
     const uniqueTokens = Array.from(
       new Map(
-        tokens.map((token) => [`${token.chainId}-${token.address}`, token])
+        tokens.map((token) => [tokenKey(token.chainId, token.address), token])
       ).values()
     )
 
     const duplicateCount = tokens.length - uniqueTokens.length
-    console.log(
-      `[${providerName}] Deduplication check: ${tokens.length} raw tokens → ${uniqueTokens.length} unique tokens (${duplicateCount} duplicates)`
+    yield* Effect.logDebug(
+      `Deduplication check: ${tokens.length} raw tokens, ${uniqueTokens.length} unique tokens (${duplicateCount} duplicates)`
     )
     if (duplicateCount > 0) {
-      console.log(
-        `[${providerName}] ⚠️  Found duplicates! Removed ${duplicateCount} duplicate token entries`
-      )
+      yield* Effect.logWarning(`Removed ${duplicateCount} duplicate token entries`)
     }
 
-    // Insert fetch record with accurate post-deduplication count
-    const [fetchRecord] = yield* drizzle
-      .insert(db.providerFetches)
-      .values({
-        providerName,
-        success: true,
-        chainsCount: chains.length,
-        tokensCount: uniqueTokens.length, // Use deduplicated count
-      })
-      .returning({ id: db.providerFetches.id })
+    const uniqueChains = Array.from(
+      new Map(chains.map((chain) => [chain.id, chain])).values()
+    )
+
+    return { uniqueChains, uniqueTokens }
+  })
 
-    const fetchId = fetchRecord.id
+/**
+ * Counts the anomaly guard compares: the provider's listed tokens and last stored chains,
+ * against what the snapshot would leave listed
+ */
+const snapshotCounts = (
+  storedTokens: ReadonlyMap<string, StoredToken>,
+  previousChainIds: ReadonlySet<number>,
+  uniqueChains: ReadonlyArray<Chain>,
+  uniqueTokens: ReadonlyArray<Token>,
+  changes: TokenChanges,
+  failedChains: ReadonlySet<number>
+): SnapshotCounts => {
+  const listed = Array.from(storedTokens.values()).filter((token) => token.delistedAt === null)
+  const fetched = new Set(uniqueTokens.map((token) => tokenKey(token.chainId, token.address)))
+  const kept = listed.filter(
+    (token) => failedChains.has(token.chainId) && !fetched.has(tokenKey(token.chainId, token.address))
+  )
 
-    // Upsert chains with canonical metadata when available
-    // Provider data is stored first, then enriched with chainlist.network metadata
-    // via the enrichChains() function after all providers complete
-    if (chains.length > 0) {
-      yield* drizzle
-        .insert(db.chains)
-        .values(
-          chains.map((chain) => {
-            // Check canonical metadata (manually curated for non-EVM chains like Solana)
-            const canonical = getCanonicalMetadata(chain.id)
-            if (canonical) {
-              return {
-                chainId: canonical.chainId,
-                name: canonical.name,
-                shortName: canonical.shortName,
-                vmType: canonical.vmType,
-                nativeCurrencyName: canonical.nativeCurrency.name,
-                nativeCurrencySymbol: canonical.nativeCurrency.symbol,
-                nativeCurrencyDecimals: canonical.nativeCurrency.decimals,
-                chainType: canonical.chainType,
-                icon: canonical.icon,
-                infoUrl: canonical.infoUrl,
-                explorers: canonical.explorers,
-                rpc: canonical.rpc,
-              }
-            }
-
-            // Use provider data (will be enriched later via ChainRegistry)
-            return {
-              chainId: chain.id,
-              name: chain.name,
-              vmType: chain.vmType,
-              nativeCurrencyName: chain.nativeCurrency.name,
-              nativeCurrencySymbol: chain.nativeCurrency.symbol,
-              nativeCurrencyDecimals: chain.nativeCurrency.decimals,
-            }
-          })
+  return {
+    stored: { tokens: listed.length, chains: previousChainIds.size },
+    snapshot: { tokens: uniqueTokens.length + kept.length, chains: uniqueChains.length },
+    decimalsChanges: changes.updated.filter((update) => update.fields.includes("decimals")).length,
+  }
+}
+
+/**
+ * Diff a snapshot against the provider's stored data without writing anything (dry run)
+ * Mirrors storeProviderData: tokens missing from the snapshot count as removed, except on
+ * chains whose token request failed, and chains are compared with the chain links of the
+ * provider's last stored fetch. Also returns the anomalies that would quarantine it.
+ */
+export const previewProviderData = (
+  providerName: string,
+  chains: Chain[],
+  tokens: Token[],
+  chainStatuses: ReadonlyArray<ChainFetchStatus>
+) =>
+  Effect.gen(function* () {
+    const { uniqueChains, uniqueTokens } = yield* dedupeSnapshot(chains, tokens)
+
+    const storedTokens = yield* loadStoredTokens(providerName)
+    const previousFetch = yield* loadPreviousFetch(providerName)
+    const changes = diffTokens(uniqueTokens, storedTokens)
+
+    const failedChains = new Set(
+      chainStatuses.filter((status) => !status.success).map((status) => status.chainId)
+    )
+    const fetched = new Set(uniqueTokens.map((token) => tokenKey(token.chainId, token.address)))
+    const removed = Array.from(storedTokens.entries()).flatMap(([key, { delistedAt, ...token }]) =>
+      delistedAt === null && !failedChains.has(token.chainId) && !fetched.has(key) ? [token] : []
+    )
+
+    const diff = buildFetchDiff(
+      previousFetch,
+      uniqueChains.map((chain) => chain.id),
+      changes,
+      removed
+    )
+    yield* logFetchDiff(diff.summary)
+
+    const anomalies = yield* checkSnapshot(
+      providerName,
+      snapshotCounts(storedTokens, previousFetch.chainIds, uniqueChains, uniqueTokens, changes, failedChains)
+    )
+
+    return { diff, anomalies }
+  })
+
+/**
+ * Store provider fetch results in database
+ *
+ * A provider's data is swapped in atomically, so readers never see a half-ingested snapshot
+ * and a failed fetch leaves the previous snapshot intact:
+ * 1. Stage: deduplicated tokens are written in batches to token_staging under a new stage ID
+ * 2. Swap: one statement inserts the fetch record, chains and chain links, per-chain statuses,
+ *    upserts the staged tokens and delists the provider's tokens missing from the snapshot
+ *    (except on chains whose token request failed: a partial fetch keeps their stored tokens)
+ * 3. Token history and the diff against the previous successful fetch are recorded
+ *
+ * Before staging, the snapshot goes through the anomaly guard (see guard.ts): if it fails the
+ * sanity checks it is quarantined for approval and nothing is swapped in. Approved snapshots
+ * skip the guard.
+ *
+ * With POSTGRES_TRANSACTIONS=true (default) the swap and step 3 share a transaction.
+ * Drivers without transactions (e.g. the Neon proxy) set it to false: the single swap
+ * statement is still atomic, and history/diff failures are logged instead of failing the fetch.
+ */
+export const storeProviderData = (
+  providerName: string,
+  chains: Chain[],
+  tokens: Token[],
+  payloadHash: string,
+  chainStatuses: ReadonlyArray<ChainFetchStatus> = [],
+  options: { readonly skipAnomalyGuard?: boolean } = {}
+) =>
+  Effect.gen(function* () {
+    const pg = yield* PgClient.PgClient
+    const useTransactions = yield* Config.boolean("POSTGRES_TRANSACTIONS").pipe(
+      Config.withDefault(true)
+    )
+
+    const { uniqueChains, uniqueTokens } = yield* dedupeSnapshot(chains, tokens)
+
+    // Snapshot the provider's stored tokens and last fetch so changes can be recorded
+    yield* seedTokenHistory(providerName)
+    const previousTokens = yield* loadStoredTokens(providerName)
+    const previousFetch = yield* loadPreviousFetch(providerName)
+    const changes = diffTokens(uniqueTokens, previousTokens)
+
+    const failedChains = chainStatuses.filter((status) => !status.success).map((status) => status.chainId)
+
+    yield* Effect.annotateCurrentSpan({
+      uniqueChains: uniqueChains.length,
+      uniqueTokens: uniqueTokens.length,
+      previousTokens: previousTokens.size,
+      listedTokens: changes.listed.length,
+      updatedTokens: changes.updated.length,
+      failedChains: failedChains.length,
+    })
+
+    if (!options.skipAnomalyGuard) {
+      const anomalies = yield* checkSnapshot(
+        providerName,
+        snapshotCounts(
+          previousTokens,
+          previousFetch.chainIds,
+          uniqueChains,
+          uniqueTokens,
+          changes,
+          new Set(failedChains)
         )
-        .onConflictDoNothing()
+      )
+      if (anomalies.length > 0) {
+        return yield* quarantineSnapshot(
+          providerName,
+          { chains: uniqueChains, tokens: uniqueTokens, chainStatuses },
+          payloadHash,
+          anomalies
+        )
+      }
     }
 
-    // Link chains to provider
-    // Deduplicate chains first to avoid ON CONFLICT issues with duplicate chain IDs in same batch
-    if (chains.length > 0) {
-      const uniqueChains = Array.from(
-        new Map(chains.map((chain) => [chain.id, chain])).values()
+    const stageId = randomUUID()
+
+    const swap = Effect.gen(function* () {
+      const { fetchId, delisted } = yield* swapProviderSnapshot(
+        providerName,
+        stageId,
+        uniqueChains,
+        uniqueTokens.length,
+        payloadHash,
+        chainStatuses
       )
 
-      yield* drizzle
-        .insert(db.chainProviderSupport)
-        .values(
-          uniqueChains.map((chain) => ({
-            chainId: chain.id,
+      // Logs from here on belong to the stored fetch
+      return yield* Effect.gen(function* () {
+        if (delisted.length > 0) {
+          yield* Effect.log(`Marked ${delisted.length} tokens as delisted`)
+        }
+
+        yield* supersedeQuarantinedFetches(providerName)
+
+        const recordChanges = Effect.gen(function* () {
+          yield* recordTokenHistory(providerName, fetchId, changes, delisted)
+          return yield* storeFetchDiff(
             providerName,
             fetchId,
-          }))
-        )
-        .onConflictDoNothing()
-    }
+            previousFetch,
+            uniqueChains.map((chain) => chain.id),
+            changes,
+            delisted
+          )
+        })
+
+        const diff = useTransactions
+          ? yield* recordChanges
+          : yield* recordChanges.pipe(
+              Effect.catchAll((error) =>
+                Effect.as(
+                  Effect.logError("Failed to record history/diff after swap", Cause.fail(error)),
+                  emptyDiff(previousFetch.fetchId)
+                )
+              )
+            )
+
+        yield* Effect.log("Stored data in database")
+
+        return { fetchId, diff, notModified: false, failedChains }
+      }).pipe(Effect.annotateLogs("fetchId", fetchId))
+    }).pipe(Effect.withSpan("storage.swap", { attributes: { provider: providerName, transaction: useTransactions } }))
 
-    // Insert tokens in batches to avoid stack overflow
-    // Use deduplicated tokens to avoid redundant processing
-    if (uniqueTokens.length > 0) {
-      yield* batchInsertTokens(providerName, uniqueTokens, fetchId)
+    // Staging rows are written outside the transaction so it stays short
+    const stored = yield* stageTokens(stageId, uniqueTokens).pipe(
+      Effect.zipRight(useTransactions ? pg.withTransaction(swap) : swap),
+      Effect.ensuring(clearStaging(stageId))
+    )
+    yield* Effect.annotateCurrentSpan({ fetchId: stored.fetchId, delisted: stored.diff.tokensRemoved })
+    return stored
+  }).pipe(
+    Effect.withSpan("storage.storeProviderData", {
+      attributes: {
+        provider: providerName,
+        chains: chains.length,
+        tokens: tokens.length,
+        skipAnomalyGuard: options.skipAnomalyGuard ?? false,
+      },
+    })
+  )
+
+/**
+ * Diff summary for a fetch that changed nothing (or whose diff couldn't be recorded)
+ */
+const emptyDiff = (previousFetchId: number | null): FetchDiffSummary => ({
+  previousFetchId,
+  tokensAdded: 0,
+  tokensRemoved: 0,
+  tokensChanged: 0,
+  chainsAdded: [],
+  chainsRemoved: [],
+})
+
+/**
+ * Chain rows as inserted into the chains table
+ * Canonical metadata (manually curated for non-EVM chains like Solana) wins over provider data;
+ * provider data is enriched later via ChainRegistry (enrichChains).
+ */
+const toChainRow = (chain: Chain) => {
+  const canonical = getCanonicalMetadata(chain.id)
+  if (canonical) {
+    return {
+      chain_id: canonical.chainId,
+      name: canonical.name,
+      short_name: canonical.shortName,
+      vm_type: canonical.vmType,
+      native_currency_name: canonical.nativeCurrency.name,
+      native_currency_symbol: canonical.nativeCurrency.symbol,
+      native_currency_decimals: canonical.nativeCurrency.decimals,
+      chain_type: canonical.chainType,
+      icon: canonical.icon,
+      info_url: canonical.infoUrl,
+      explorers: canonical.explorers,
+      rpc: canonical.rpc,
     }
+  }
 
-    console.log(`[${providerName}] Successfully stored data in database`)
-  })
+  return {
+    chain_id: chain.id,
+    name: chain.name,
+    short_name: null,
+    vm_type: chain.vmType ?? null,
+    native_currency_name: chain.nativeCurrency.name,
+    native_currency_symbol: chain.nativeCurrency.symbol,
+    native_currency_decimals: chain.nativeCurrency.decimals,
+    chain_type: null,
+    icon: null,
+    info_url: null,
+    explorers: null,
+    rpc: null,
+  }
+}
+
+interface SwapRow {
+  readonly fetch_id: number
+  readonly chain_id: string | null // bigint comes back as a string
+  readonly address: string | null
+  readonly symbol: string | null
+  readonly name: string | null
+  readonly decimals: number | null
+  readonly logo_uri: string | null
+  readonly tags: string[] | null
+}
 
 /**
- * Insert tokens in batches to prevent stack overflow on large datasets
- * Note: Expects pre-deduplicated tokens (deduplication happens in storeProviderData)
+ * Swap a staged snapshot in as one statement
+ * Data-modifying CTEs run atomically even without a transaction. All CTEs see the table
+ * state from before the statement, so delisting checks the staging rows rather than the upsert.
+ * Returns the new fetch ID and the tokens that were delisted.
  */
-const batchInsertTokens = (
+const swapProviderSnapshot = (
   providerName: string,
-  tokens: Token[],
-  fetchId: number
+  stageId: string,
+  chains: ReadonlyArray<Chain>,
+  tokensCount: number,
+  payloadHash: string,
+  chainStatuses: ReadonlyArray<ChainFetchStatus>
 ) =>
   Effect.gen(function* () {
-    const drizzle = yield* Pg.PgDrizzle
+    const pg = yield* PgClient.PgClient
+    const partial = chainStatuses.some((status) => !status.success)
+    const statusRows = chainStatuses.map((status) => ({
+      chain_id: status.chainId,
+      success: status.success,
+      tokens_count: status.tokensCount,
+      error_message: status.error ?? null,
+    }))
+    const failedChainIds = chainStatuses
+      .filter((status) => !status.success)
+      .map((status) => status.chainId)
 
-    for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
-      const batch = tokens.slice(i, i + BATCH_SIZE)
+    const rows = yield* pg<SwapRow>`
+      WITH new_chains AS (
+        INSERT INTO chains (
+          chain_id, name, short_name, vm_type, native_currency_name, native_currency_symbol,
+          native_currency_decimals, chain_type, icon, info_url, explorers, rpc
+        )
+        SELECT * FROM jsonb_to_recordset(${pg.json(chains.map(toChainRow))}) AS c(
+          chain_id bigint, name text, short_name text, vm_type text, native_currency_name text,
+          native_currency_symbol text, native_currency_decimals integer, chain_type text,
+          icon text, info_url text, explorers jsonb, rpc jsonb
+        )
+        ON CONFLICT (chain_id) DO NOTHING
+      ),
+      fetch AS (
+        INSERT INTO provider_fetches (provider_name, success, chains_count, tokens_count, payload_hash, partial)
+        VALUES (${providerName}, true, ${chains.length}, ${tokensCount}, ${payloadHash}, ${partial})
+        RETURNING id
+      ),
+      chain_statuses AS (
+        INSERT INTO provider_fetch_chains (fetch_id, provider_name, chain_id, success, tokens_count, error_message)
+        SELECT fetch.id, ${providerName}, s.chain_id, s.success, s.tokens_count, s.error_message
+        FROM jsonb_to_recordset(${pg.json(statusRows)}) AS s(
+          chain_id bigint, success boolean, tokens_count integer, error_message text
+        ), fetch
+      ),
+      links AS (
+        INSERT INTO chain_provider_support (chain_id, provider_name, fetch_id)
+        SELECT c.id, ${providerName}, fetch.id
+        FROM jsonb_array_elements_text(${pg.json(chains.map((chain) => chain.id))}) AS c(id), fetch
+      ),
+      upserted AS (
+        INSERT INTO tokens (
+          provider_name, chain_id, address, symbol, name, decimals, logo_uri, tags,
+          fetch_id, raw_data, last_seen_fetch_id, last_seen_at, delisted_at
+        )
+        SELECT ${providerName}, s.chain_id, s.address, s.symbol, s.name, s.decimals, s.logo_uri,
+          s.tags, fetch.id, s.raw_data, fetch.id, NOW(), NULL
+        FROM token_staging s, fetch
+        WHERE s.stage_id = ${stageId}
+        ON CONFLICT (provider_name, chain_id, address) DO UPDATE SET
+          symbol = excluded.symbol,
+          name = excluded.name,
+          decimals = excluded.decimals,
+          logo_uri = excluded.logo_uri,
+          tags = excluded.tags,
+          fetch_id = excluded.fetch_id,
+          raw_data = excluded.raw_data,
+          last_seen_fetch_id = excluded.last_seen_fetch_id,
+          last_seen_at = excluded.last_seen_at,
+          delisted_at = NULL
+      ),
+      delisted AS (
+        UPDATE tokens t SET delisted_at = NOW()
+        WHERE t.provider_name = ${providerName}
+        AND t.delisted_at IS NULL
+        AND t.chain_id NOT IN (
+          SELECT jsonb_array_elements_text(${pg.json(failedChainIds)})::bigint
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM token_staging s
+          WHERE s.stage_id = ${stageId} AND s.chain_id = t.chain_id AND s.address = t.address
+        )
+        RETURNING t.chain_id, t.address, t.symbol, t.name, t.decimals, t.logo_uri, t.tags
+      )
+      SELECT fetch.id AS fetch_id, d.*
+      FROM fetch LEFT JOIN delisted d ON true
+    `
 
-      yield* drizzle
-        .insert(db.tokens)
-        .values(
-          batch.map((token) => ({
-            providerName,
-            chainId: token.chainId,
-            address: token.address,
-            symbol: token.symbol,
-            name: token.name,
-            decimals: token.decimals,
-            logoUri: token.logoURI,
-            tags: sql.raw(`'${JSON.stringify(token.tags || [])}'::jsonb`),
-            fetchId,
-            rawData: sql.raw(`'${JSON.stringify(token).replace(/'/g, "''")}'::jsonb`),
-          }))
+    const delisted = rows.flatMap((row) =>
+      row.chain_id !== null && row.address !== null && row.symbol !== null && row.name !== null
+        ? [
+            {
+              chainId: Number(row.chain_id),
+              address: row.address,
+              symbol: row.symbol,
+              name: row.name,
+              decimals: row.decimals,
+              logoUri: row.logo_uri,
+              tags: row.tags,
+            },
+          ]
+        : []
+    )
+
+    return { fetchId: rows[0].fetch_id, delisted }
+  })
+
+/**
+ * Staging row as sent to Postgres, expanded with jsonb_to_recordset
+ */
+const toStagingRow = (token: Token) => ({
+  chain_id: token.chainId,
+  address: token.address,
+  symbol: token.symbol,
+  name: token.name,
+  decimals: token.decimals ?? null,
+  logo_uri: token.logoURI ?? null,
+  tags: token.tags ?? [],
+  raw_data: token.raw ?? token,
+})
+
+/**
+ * Write tokens to token_staging
+ * Each chunk is one INSERT with a single jsonb parameter expanded server-side, so
+ * provider strings are never spliced into SQL and a 17k-token fetch takes a handful
+ * of round trips (see pnpm bench:ingest).
+ * Note: Expects pre-deduplicated tokens (deduplication happens in storeProviderData)
+ */
+export const stageTokens = (stageId: string, tokens: ReadonlyArray<Token>) =>
+  Effect.gen(function* () {
+    const pg = yield* PgClient.PgClient
+
+    for (let i = 0; i < tokens.length; i += STAGE_CHUNK_SIZE) {
+      const rows = tokens.slice(i, i + STAGE_CHUNK_SIZE).map(toStagingRow)
+
+      yield* pg`
+        INSERT INTO token_staging
+          (stage_id, chain_id, address, symbol, name, decimals, logo_uri, tags, raw_data)
+        SELECT ${stageId}, t.chain_id, t.address, t.symbol, t.name, t.decimals, t.logo_uri, t.tags, t.raw_data
+        FROM jsonb_to_recordset(${pg.json(rows)}) AS t(
+          chain_id bigint, address text, symbol text, name text, decimals integer,
+          logo_uri text, tags jsonb, raw_data jsonb
         )
-        .onConflictDoUpdate({
-          target: [db.tokens.providerName, db.tokens.chainId, db.tokens.address],
-          set: {
-            symbol: sql`excluded.symbol`,
-            name: sql`excluded.name`,
-            decimals: sql`excluded.decimals`,
-            logoUri: sql`excluded.logo_uri`,
-            tags: sql`excluded.tags`,
-            fetchId: sql`excluded.fetch_id`,
-            rawData: sql`excluded.raw_data`,
-          },
-        })
+      `
     }
-  })
+  }).pipe(
+    Effect.withSpan("storage.stageTokens", {
+      attributes: { rows: tokens.length, chunks: Math.ceil(tokens.length / STAGE_CHUNK_SIZE) },
+    })
+  )
+
+/**
+ * Remove a fetch's staging rows, plus any left behind by crashed runs
+ * Never fails: leftover rows are harmless and cleared on a later run.
+ */
+const clearStaging = (stageId: string) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    yield* drizzle
+      .delete(db.tokenStaging)
+      .where(
+        or(
+          eq(db.tokenStaging.stageId, stageId),
+          lt(db.tokenStaging.createdAt, sql`NOW() - INTERVAL '1 day'`)
+        )
+      )
+  }).pipe(
+    Effect.catchAll((error) => Effect.logError(`Failed to clear staging ${stageId}`, Cause.fail(error)))
+  )
+
+/**
+ * Record a fetch that failed before reaching storage (e.g. the provider's API errored)
+ * Failures count towards the provider's circuit breaker (see breaker.ts). The fetch error
+ * is kept either way: failing to record it is only logged.
+ */
+export const recordFailedFetch = (providerName: string, error: unknown, metrics: FetchMetrics) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [fetchRecord] = yield* drizzle
+      .insert(db.providerFetches)
+      .values({
+        providerName,
+        success: false,
+        errorMessage: String(error),
+      })
+      .returning({ id: db.providerFetches.id })
+
+    yield* storeFetchMetrics(providerName, fetchRecord.id, metrics)
+  }).pipe(
+    Effect.catchAll((recordError) => Effect.logError("Failed to record failed fetch", Cause.fail(recordError)))
+  )
 
 /**
  * Record a failed provider fetch in the database
+ * A quarantined snapshot is recorded as a failed fetch too, and its error is kept.
  */
 export const recordProviderError = (providerName: string, error: unknown) =>
   Effect.gen(function* () {
     const drizzle = yield* Pg.PgDrizzle
 
-    console.error(`[${providerName}] Database error:`, error)
+    if (error instanceof FetchQuarantinedError) {
+      yield* drizzle.insert(db.providerFetches).values({
+        providerName,
+        success: false,
+        errorMessage: describeQuarantine(error),
+      })
+      return yield* error
+    }
+
+    yield* Effect.logError("Database error", Cause.fail(error))
 
     yield* drizzle.insert(db.providerFetches).values({
       providerName,
@@ -196,8 +660,8 @@ export const recordProviderError = (providerName: string, error: unknown) =>
  * Wrap database storage operations with error handling
  * Automatically records failures in provider_fetches table
  */
-export const withDatabaseErrorHandling = (
+export const withDatabaseErrorHandling = <A>(
   providerName: string,
-  effect: Effect.Effect<void, any, Pg.PgDrizzle>
+  effect: Effect.Effect<A, any, Pg.PgDrizzle | PgClient.PgClient>
 ) =>
   effect.pipe(Effect.catchAll((error) => recordProviderError(providerName, error)))
@@ -1,4 +1,8 @@
 import { Data } from "effect"
+import type { HttpStats } from "./http"
+import type { DiffTokenChange, DiffTokenRef } from "../db/schema"
+import type { Anomaly } from "./guard"
+import type { FetchMetrics } from "./metrics"
 
 /**
  * Normalized chain data structure
@@ -26,6 +30,17 @@ export interface Token {
   chainId: number
   logoURI?: string
   tags?: string[]
+  raw?: unknown // Untouched provider item this token was normalized from (stored as raw_data)
+}
+
+/**
+ * Outcome of one chain's token request, for providers that fetch chain by chain
+ */
+export interface ChainFetchStatus {
+  chainId: number
+  success: boolean
+  tokensCount: number
+  error?: string
 }
 
 /**
@@ -34,6 +49,62 @@ export interface Token {
 export interface ProviderResponse {
   chains: Chain[]
   tokens: Token[]
+  /** Set by per-chain providers (see fetchTokensPerChain) */
+  chainStatuses?: ChainFetchStatus[]
+}
+
+/**
+ * Summary of a fetch's diff against the provider's previous successful fetch
+ */
+export interface FetchDiffSummary {
+  previousFetchId: number | null
+  tokensAdded: number
+  tokensRemoved: number
+  tokensChanged: number
+  chainsAdded: number[]
+  chainsRemoved: number[]
+}
+
+/**
+ * A fetch's diff with the tokens behind each count
+ */
+export interface FetchDiffDetail {
+  summary: FetchDiffSummary
+  tokensAdded: DiffTokenRef[]
+  tokensRemoved: DiffTokenRef[]
+  tokensChanged: DiffTokenChange[]
+}
+
+/**
+ * Provider response after it has been stored, with the fetch record it was stored under
+ */
+export interface StoredProviderResponse extends ProviderResponse {
+  fetchId: number
+  diff: FetchDiffSummary
+  http: HttpStats
+  /** Payload was identical to the last stored fetch, so nothing was written */
+  notModified: boolean
+  /** Chains whose token request failed; their previously stored tokens were kept */
+  failedChains: number[]
+  /** Items dropped because they failed schema validation (see provider_rejections) */
+  rejected: number
+  /** Stage timings and transfer counters (see provider_fetch_metrics) */
+  metrics: FetchMetrics
+}
+
+/**
+ * Provider response fetched in a dry run, with what storing it would change
+ */
+export interface DryRunProviderResponse extends ProviderResponse {
+  diff: FetchDiffDetail
+  http: HttpStats
+  /** Chains whose token request failed; storing would keep their tokens */
+  failedChains: number[]
+  /** Items dropped because they failed schema validation */
+  rejected: number
+  /** Failed sanity checks: storing would quarantine the snapshot (see guard.ts) */
+  anomalies: ReadonlyArray<Anomaly>
+  metrics: FetchMetrics
 }
 
 /**
@@ -43,6 +114,8 @@ export class ProviderError extends Data.TaggedError("ProviderError")<{
   readonly provider: string
   readonly message: string
   readonly cause?: unknown
+  readonly http?: HttpStats
+  readonly metrics?: FetchMetrics
 }> {}
 
 /**
@@ -53,3 +126,11 @@ export class DatabaseError extends Data.TaggedError("DatabaseError")<{
   readonly message: string
   readonly cause?: unknown
 }> {}
+
+/**
+ * Raised when a requested provider is not in the registry
+ */
+export class UnknownProviderError extends Data.TaggedError("UnknownProviderError")<{
+  readonly providers: ReadonlyArray<string>
+  readonly available: ReadonlyArray<string>
+}> {}
@@ -8,6 +8,7 @@ import type {
 } from "@/lib/api/tokens"
 import type { ProvidersResponse } from "@/lib/api/providers"
 import type { ChainsResponse } from "@/lib/api/chains"
+import type { FetchJobStatus } from "@/lib/api/admin"
 
 const BASE_URL = process.env.NEXT_PUBLIC_API_URL || ""
 
@@ -191,11 +192,20 @@ export const chainsApi = {
   },
 }
 
+/**
+ * Fetch job accepted by the admin API (poll statusUrl for progress)
+ */
+export interface FetchJobAccepted {
+  jobId: number
+  status: "pending"
+  statusUrl: string
+}
+
 /**
  * Admin API
  */
 export const adminApi = {
-  triggerFetch: async (adminSecret: string): Promise<{ message: string }> => {
+  triggerFetch: async (adminSecret: string): Promise<FetchJobAccepted> => {
     const response = await fetch(`${BASE_URL}/api/admin/fetch`, {
       method: "POST",
       headers: {
@@ -212,4 +222,21 @@ export const adminApi = {
 
     return response.json()
   },
+
+  getJob: async (jobId: number, adminSecret: string): Promise<FetchJobStatus> => {
+    const response = await fetch(`${BASE_URL}/api/admin/jobs/${jobId}`, {
+      headers: {
+        "x-admin-secret": adminSecret,
+      },
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({
+        error: `HTTP ${response.status}: ${response.statusText}`,
+      }))
+      throw new Error(error.error || "Failed to fetch job status")
+    }
+
+    return response.json()
+  },
 }
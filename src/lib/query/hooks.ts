@@ -35,6 +35,9 @@ export const queryKeys = {
     tokens: (params: ChainTokensQueryParams) =>
       ["chains", "tokens", params] as const,
   },
+  jobs: {
+    detail: (jobId: number) => ["jobs", "detail", jobId] as const,
+  },
 }
 
 /**
@@ -101,15 +104,33 @@ export function useChainTokens(params: ChainTokensQueryParams) {
  * Admin hooks
  */
 export function useTriggerFetch() {
-  const queryClient = useQueryClient()
-
   return useMutation({
     mutationFn: (adminSecret: string) => adminApi.triggerFetch(adminSecret),
-    onSuccess: () => {
-      // Invalidate all queries to refetch fresh data after provider fetch
-      queryClient.invalidateQueries({ queryKey: queryKeys.providers.all })
-      queryClient.invalidateQueries({ queryKey: queryKeys.chains.all })
-      queryClient.invalidateQueries({ queryKey: queryKeys.tokens.all })
+  })
+}
+
+/**
+ * Poll a fetch job until it completes, then refetch all data
+ */
+export function useFetchJob(jobId: number | null, adminSecret: string) {
+  const queryClient = useQueryClient()
+
+  return useQuery({
+    queryKey: queryKeys.jobs.detail(jobId ?? 0),
+    queryFn: async () => {
+      const job = await adminApi.getJob(jobId!, adminSecret)
+      if (job.status === "completed") {
+        // Invalidate all queries to refetch fresh data after provider fetch
+        queryClient.invalidateQueries({ queryKey: queryKeys.providers.all })
+        queryClient.invalidateQueries({ queryKey: queryKeys.chains.all })
+        queryClient.invalidateQueries({ queryKey: queryKeys.tokens.all })
+      }
+      return job
     },
+    enabled: jobId !== null,
+    refetchInterval: (query) =>
+      query.state.data?.status === "completed" || query.state.data?.status === "interrupted"
+        ? false
+        : 2000,
   })
 }
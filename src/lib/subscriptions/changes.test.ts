@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { type ChainChange, type TokenChange, matchesSubscription } from "./changes"
+
+const added: TokenChange = {
+  type: "token.added",
+  provider: "lifi",
+  fetchId: 12,
+  symbol: "USDC",
+  name: "USD Coin",
+  chainId: 8453,
+  address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+}
+
+const chainRemoved: ChainChange = {
+  type: "chain.removed",
+  provider: "relay",
+  fetchId: 13,
+  chainId: 10,
+}
+
+describe("matchesSubscription", () => {
+  it("matches every change when no filter is set", () => {
+    expect(matchesSubscription({}, added)).toBe(true)
+    expect(matchesSubscription({}, chainRemoved)).toBe(true)
+  })
+
+  it("filters on event type, provider and chain", () => {
+    expect(matchesSubscription({ events: ["token.added", "token.removed"] }, added)).toBe(true)
+    expect(matchesSubscription({ events: ["token.removed"] }, added)).toBe(false)
+    expect(matchesSubscription({ providers: ["RELAY"] }, chainRemoved)).toBe(true)
+    expect(matchesSubscription({ providers: ["relay"] }, added)).toBe(false)
+    expect(matchesSubscription({ chainIds: [10] }, chainRemoved)).toBe(true)
+    expect(matchesSubscription({ chainIds: [1] }, added)).toBe(false)
+  })
+
+  it("compares symbols and addresses ignoring case", () => {
+    expect(matchesSubscription({ symbols: ["usdc"] }, added)).toBe(true)
+    expect(matchesSubscription({ addresses: [added.address.toLowerCase()] }, added)).toBe(true)
+    expect(matchesSubscription({ addresses: ["0x0000000000000000000000000000000000000000"] }, added)).toBe(false)
+  })
+
+  it("requires every filter set to match", () => {
+    expect(matchesSubscription({ symbols: ["USDC"], chainIds: [8453], providers: ["lifi"] }, added)).toBe(true)
+    expect(matchesSubscription({ symbols: ["USDC"], chainIds: [8453], providers: ["relay"] }, added)).toBe(false)
+  })
+
+  it("never matches a symbol or address filter on a chain change", () => {
+    expect(matchesSubscription({ symbols: ["USDC"] }, chainRemoved)).toBe(false)
+    expect(matchesSubscription({ addresses: [added.address] }, chainRemoved)).toBe(false)
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Subscription changes
+ * What the subscription webhooks report after each stored fetch (see dispatcher.ts): the
+ * tokens and chains the fetch added, removed or changed against the provider's previous
+ * fetch, read from its stored diff.
+ */
+
+import { Effect } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { eq } from "drizzle-orm"
+import * as db from "../db/schema"
+import type { DiffTokenRef } from "../db/schema"
+
+export const SUBSCRIPTION_CHANGE_TYPES = [
+  "token.added",
+  "token.removed",
+  "token.changed",
+  "chain.added",
+  "chain.removed",
+] as const
+
+export type SubscriptionChangeType = (typeof SUBSCRIPTION_CHANGE_TYPES)[number]
+
+export interface TokenChange {
+  readonly type: "token.added" | "token.removed" | "token.changed"
+  readonly provider: string
+  readonly fetchId: number
+  readonly symbol: string
+  readonly name: string
+  readonly chainId: number
+  readonly address: string
+  /** token.changed only, e.g. { decimals: { from: 6, to: 18 } } */
+  readonly changes?: Readonly<Record<string, { readonly from: unknown; readonly to: unknown }>>
+}
+
+export interface ChainChange {
+  readonly type: "chain.added" | "chain.removed"
+  readonly provider: string
+  readonly fetchId: number
+  readonly chainId: number
+}
+
+export type SubscriptionChange = TokenChange | ChainChange
+
+/**
+ * Filters of a subscription
+ * Each is optional; a change must match every filter set, and never matches one on a field
+ * it doesn't have (chain changes have no symbol or address).
+ */
+export interface SubscriptionFilters {
+  readonly events?: ReadonlyArray<SubscriptionChangeType>
+  readonly symbols?: ReadonlyArray<string>
+  readonly chainIds?: ReadonlyArray<number>
+  readonly providers?: ReadonlyArray<string>
+  readonly addresses?: ReadonlyArray<string>
+}
+
+const includesIgnoringCase = (values: ReadonlyArray<string>, value: string) =>
+  values.some((candidate) => candidate.toLowerCase() === value.toLowerCase())
+
+export const matchesSubscription = (filters: SubscriptionFilters, change: SubscriptionChange) =>
+  (!filters.events || filters.events.includes(change.type)) &&
+  (!filters.providers || includesIgnoringCase(filters.providers, change.provider)) &&
+  (!filters.chainIds || filters.chainIds.includes(change.chainId)) &&
+  (!filters.symbols || ("symbol" in change && includesIgnoringCase(filters.symbols, change.symbol))) &&
+  (!filters.addresses || ("address" in change && includesIgnoringCase(filters.addresses, change.address)))
+
+/**
+ * Changes of a stored fetch, none when it has no diff (e.g. a not-modified fetch)
+ */
+export const loadFetchChanges = (providerName: string, fetchId: number) =>
+  Effect.gen(function* () {
+    const drizzle = yield* Pg.PgDrizzle
+
+    const [diff] = yield* drizzle
+      .select()
+      .from(db.providerFetchDiffs)
+      .where(eq(db.providerFetchDiffs.fetchId, fetchId))
+
+    if (!diff) {
+      return []
+    }
+
+    const token = (type: TokenChange["type"], ref: DiffTokenRef): TokenChange => ({
+      type,
+      provider: providerName,
+      fetchId,
+      symbol: ref.symbol,
+      name: ref.name,
+      chainId: ref.chainId,
+      address: ref.address,
+    })
+    const chain = (type: ChainChange["type"], chainId: number): ChainChange => ({
+      type,
+      provider: providerName,
+      fetchId,
+      chainId,
+    })
+
+    return [
+      ...diff.chainsAdded.map((chainId) => chain("chain.added", chainId)),
+      ...diff.chainsRemoved.map((chainId) => chain("chain.removed", chainId)),
+      ...diff.tokensAdded.map((ref) => token("token.added", ref)),
+      ...diff.tokensRemoved.map((ref) => token("token.removed", ref)),
+      ...diff.tokensChanged.map(({ changes, ...ref }) => ({ ...token("token.changed", ref), changes })),
+    ] satisfies Array<SubscriptionChange>
+  })
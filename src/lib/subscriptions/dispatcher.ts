@@ -0,0 +1,363 @@
+/**
+ * Subscription dispatcher
+ * Delivers the changes of each stored fetch to the webhook subscriptions they match (see
+ * changes.ts). Every delivery is recorded in webhook_deliveries with its attempt log, so
+ * subscribers can inspect it and ask for a redelivery through the subscription API.
+ *
+ * Subscriber endpoints are outside our control, so nothing is sent while a fetch runs: the
+ * fetch only records pending deliveries, and sendPending sends them once the job has
+ * released its locks (after each fetch job, and periodically from the scheduler). A pending
+ * row is claimed before sending so concurrent senders (and redeliveries) skip it; a claim left
+ * by a sender that died is taken over after CLAIM_TIMEOUT. A send that fails with a retryable error
+ * (see webhooks/delivery.ts) leaves the delivery pending for a later send, with backoff, until
+ * it has used MAX_DELIVERY_ATTEMPTS; it is failed after that, or on any other error.
+ */
+
+import { HttpClient } from "@effect/platform"
+import { NodeHttpClient } from "@effect/platform-node"
+import { Cause, Clock, Data, Duration, Effect, Layer } from "effect"
+import * as Pg from "@effect/sql-drizzle/Pg"
+import { and, asc, eq, inArray, isNull, lt, lte, or, sql } from "drizzle-orm"
+import { randomUUID } from "node:crypto"
+import { DatabaseLive } from "../db/layer"
+import * as db from "../db/schema"
+import { withQuerySpan } from "../tracing/spans"
+import { DEFAULT_WEBHOOK_RETRY_POLICY, deliverWebhook, type WebhookAttempt } from "../webhooks/delivery"
+import { publicOnlyLookup } from "../webhooks/destination"
+import { loadFetchChanges, matchesSubscription } from "./changes"
+import { encodeSubscriptionPayload, toBatches, type SubscriptionPayload } from "./payloads"
+import { getSubscriptionSettings } from "./settings"
+
+/**
+ * Carries the delivery id, which is also the payload id
+ */
+export const SUBSCRIPTION_DELIVERY_HEADER = "x-webhook-delivery"
+
+/**
+ * Deliveries sent at once
+ */
+const DISPATCH_CONCURRENCY = 10
+
+/**
+ * Pending deliveries claimed by one sendPending call, the rest wait for the next one
+ */
+const SEND_BATCH_SIZE = 100
+
+/**
+ * Well above the longest a delivery takes with the default retry policy
+ */
+const CLAIM_TIMEOUT = Duration.minutes(10)
+
+/**
+ * Attempts across sends (each with the retry policy's retries) before a delivery is failed:
+ * eight sends with the default policy, spread over about seven hours (see nextSendAt)
+ */
+const MAX_DELIVERY_ATTEMPTS = 8 * (DEFAULT_WEBHOOK_RETRY_POLICY.maxRetries + 1)
+
+/**
+ * Shortest wait before sending a failed delivery again
+ */
+const RESEND_MIN_DELAY = Duration.minutes(5)
+
+/**
+ * The next send of a failed delivery waits as long as the delivery is old, so waits double
+ * from RESEND_MIN_DELAY
+ */
+const nextSendAt = (createdAt: Date, now: number) =>
+  new Date(now + Math.max(Duration.toMillis(RESEND_MIN_DELAY), now - createdAt.getTime()))
+
+const appendAttempts = (log: ReadonlyArray<WebhookAttempt>) =>
+  sql`${db.webhookDeliveries.attemptLog} || ${JSON.stringify(log)}::jsonb`
+
+export class SubscriptionDeliveryNotFoundError extends Data.TaggedError("SubscriptionDeliveryNotFoundError")<{
+  readonly deliveryId: string
+}> {}
+
+/**
+ * The delivery is being sent (claimed within CLAIM_TIMEOUT)
+ */
+export class SubscriptionDeliveryClaimedError extends Data.TaggedError("SubscriptionDeliveryClaimedError")<{
+  readonly deliveryId: string
+}> {}
+
+export class SubscriptionDispatcher extends Effect.Service<SubscriptionDispatcher>()("SubscriptionDispatcher", {
+  effect: Effect.gen(function* () {
+    const client = yield* HttpClient.HttpClient
+    const drizzle = yield* Pg.PgDrizzle
+    const settings = yield* getSubscriptionSettings
+
+    /**
+     * Send a recorded delivery and store the outcome, appending its attempts to the log and
+     * releasing the claim
+     */
+    const send = (
+      delivery: typeof db.webhookDeliveries.$inferSelect,
+      subscription: typeof db.webhookSubscriptions.$inferSelect
+    ) =>
+      Effect.gen(function* () {
+        const outcome = yield* deliverWebhook(
+          client,
+          {
+            url: subscription.callbackUrl,
+            body: encodeSubscriptionPayload(delivery.payload),
+            secret: subscription.secret,
+            headers: { [SUBSCRIPTION_DELIVERY_HEADER]: delivery.id },
+            // The outcome is shown to the subscriber: no requests into our network, and
+            // no response bodies
+            publicOnly: !settings.allowPrivateNetworks,
+          },
+          DEFAULT_WEBHOOK_RETRY_POLICY
+        )
+
+        const now = yield* Clock.currentTimeMillis
+        const resend =
+          !outcome.success && outcome.retryable && delivery.attempts + outcome.attempts < MAX_DELIVERY_ATTEMPTS
+        const [updated] = yield* drizzle
+          .update(db.webhookDeliveries)
+          .set({
+            status: outcome.success ? "delivered" : resend ? "pending" : "failed",
+            attempts: sql`${db.webhookDeliveries.attempts} + ${outcome.attempts}`,
+            lastStatus: outcome.status,
+            lastError: outcome.error,
+            attemptLog: appendAttempts(outcome.log),
+            lastAttemptAt: new Date(now),
+            claimedAt: null,
+            nextAttemptAt: resend ? nextSendAt(delivery.createdAt, now) : null,
+          })
+          .where(eq(db.webhookDeliveries.id, delivery.id))
+          .returning()
+          .pipe(withQuerySpan("subscriptions.update_delivery"))
+
+        if (outcome.success) {
+          yield* Effect.log(`Delivered ${delivery.eventsCount} change(s)`)
+        } else if (resend) {
+          yield* Effect.logWarning(
+            `Failed to deliver ${delivery.eventsCount} change(s) after ${outcome.attempts} attempt(s), sending again at ${updated.nextAttemptAt?.toISOString()}: ${outcome.error}`
+          )
+        } else {
+          yield* Effect.logWarning(
+            `Failed to deliver ${delivery.eventsCount} change(s) after ${outcome.attempts} attempt(s): ${outcome.error}`
+          )
+        }
+
+        return updated
+      }).pipe(Effect.annotateLogs({ subscriptionId: subscription.id, deliveryId: delivery.id }))
+
+    /**
+     * Record the changes of a stored fetch as pending deliveries to every subscription they
+     * match, without sending them (see sendPending)
+     */
+    const fetchStored = (providerName: string, fetchId: number) =>
+      Effect.gen(function* () {
+        const subscriptions = yield* drizzle
+          .select()
+          .from(db.webhookSubscriptions)
+          .pipe(withQuerySpan("subscriptions.list"))
+        if (subscriptions.length === 0) {
+          return
+        }
+
+        const changes = yield* loadFetchChanges(providerName, fetchId).pipe(
+          Effect.provideService(Pg.PgDrizzle, drizzle)
+        )
+        if (changes.length === 0) {
+          return
+        }
+
+        const createdAt = new Date(yield* Clock.currentTimeMillis)
+        yield* Effect.forEach(
+          subscriptions,
+          (subscription) => {
+            const batches = toBatches(changes.filter((change) => matchesSubscription(subscription.filters, change)))
+
+            return Effect.forEach(batches, (events, index) =>
+              Effect.gen(function* () {
+                const id = randomUUID()
+                const payload: SubscriptionPayload = {
+                  id,
+                  subscriptionId: subscription.id,
+                  provider: providerName,
+                  fetchId,
+                  createdAt: createdAt.toISOString(),
+                  batch: { index, count: batches.length },
+                  events,
+                }
+
+                yield* drizzle
+                  .insert(db.webhookDeliveries)
+                  .values({
+                    id,
+                    subscriptionId: subscription.id,
+                    fetchId,
+                    providerName,
+                    status: "pending",
+                    eventsCount: events.length,
+                    payload,
+                    createdAt,
+                  })
+                  .pipe(withQuerySpan("subscriptions.insert_delivery"))
+              })
+            ).pipe(
+              Effect.catchAll((error) =>
+                Effect.logError("Failed to record subscription delivery", Cause.fail(error)).pipe(
+                  Effect.annotateLogs("subscriptionId", subscription.id)
+                )
+              )
+            )
+          },
+          { discard: true }
+        )
+      }).pipe(
+        Effect.catchAll((error) => Effect.logError("Failed to record subscription deliveries", Cause.fail(error))),
+        Effect.annotateLogs("service", "SubscriptionDispatcher"),
+        Effect.withSpan("subscriptions.record", { attributes: { provider: providerName, fetchId } })
+      )
+
+    /**
+     * Claim a batch of pending deliveries that are due, oldest first, and send them
+     * Never fails: errors are logged, and deliveries left claimed are taken over after
+     * CLAIM_TIMEOUT.
+     */
+    const sendPending = Effect.gen(function* () {
+      const now = yield* Clock.currentTimeMillis
+      const pending = drizzle
+        .select({ id: db.webhookDeliveries.id })
+        .from(db.webhookDeliveries)
+        .where(
+          and(
+            eq(db.webhookDeliveries.status, "pending"),
+            or(isNull(db.webhookDeliveries.nextAttemptAt), lte(db.webhookDeliveries.nextAttemptAt, new Date(now))),
+            or(
+              isNull(db.webhookDeliveries.claimedAt),
+              lt(db.webhookDeliveries.claimedAt, new Date(now - Duration.toMillis(CLAIM_TIMEOUT)))
+            )
+          )
+        )
+        .orderBy(asc(db.webhookDeliveries.createdAt))
+        .limit(SEND_BATCH_SIZE)
+        .for("update", { skipLocked: true })
+
+      const claimed = yield* drizzle
+        .update(db.webhookDeliveries)
+        .set({ claimedAt: new Date(now) })
+        .where(inArray(db.webhookDeliveries.id, pending))
+        .returning({ id: db.webhookDeliveries.id })
+        .pipe(withQuerySpan("subscriptions.claim_deliveries"))
+      if (claimed.length === 0) {
+        return { sent: 0 }
+      }
+
+      const rows = yield* drizzle
+        .select({ delivery: db.webhookDeliveries, subscription: db.webhookSubscriptions })
+        .from(db.webhookDeliveries)
+        .innerJoin(db.webhookSubscriptions, eq(db.webhookSubscriptions.id, db.webhookDeliveries.subscriptionId))
+        .where(
+          inArray(
+            db.webhookDeliveries.id,
+            claimed.map((row) => row.id)
+          )
+        )
+        .orderBy(asc(db.webhookDeliveries.createdAt))
+        .pipe(withQuerySpan("subscriptions.get_deliveries"))
+
+      yield* Effect.forEach(
+        rows,
+        (row) =>
+          send(row.delivery, row.subscription).pipe(
+            Effect.catchAll((error) =>
+              Effect.logError("Failed to send subscription delivery", Cause.fail(error)).pipe(
+                Effect.annotateLogs({ subscriptionId: row.subscription.id, deliveryId: row.delivery.id })
+              )
+            )
+          ),
+        { concurrency: DISPATCH_CONCURRENCY, discard: true }
+      )
+      return { sent: rows.length }
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.logError("Failed to send pending subscription deliveries", Cause.fail(error)).pipe(Effect.as({ sent: 0 }))
+      ),
+      Effect.annotateLogs("service", "SubscriptionDispatcher"),
+      Effect.withSpan("subscriptions.sendPending")
+    )
+
+    /**
+     * Claim a delivery for a redelivery, whatever its status, unless a sender has claimed it
+     */
+    const claim = (deliveryId: string) =>
+      Effect.gen(function* () {
+        const now = yield* Clock.currentTimeMillis
+        const [claimed] = yield* drizzle
+          .update(db.webhookDeliveries)
+          .set({ claimedAt: new Date(now) })
+          .where(
+            and(
+              eq(db.webhookDeliveries.id, deliveryId),
+              or(
+                isNull(db.webhookDeliveries.claimedAt),
+                lt(db.webhookDeliveries.claimedAt, new Date(now - Duration.toMillis(CLAIM_TIMEOUT)))
+              )
+            )
+          )
+          .returning({ id: db.webhookDeliveries.id })
+          .pipe(withQuerySpan("subscriptions.claim_delivery"))
+        if (claimed) {
+          return
+        }
+
+        const [existing] = yield* drizzle
+          .select({ id: db.webhookDeliveries.id })
+          .from(db.webhookDeliveries)
+          .where(eq(db.webhookDeliveries.id, deliveryId))
+          .pipe(withQuerySpan("subscriptions.get_delivery"))
+        return yield* existing
+          ? new SubscriptionDeliveryClaimedError({ deliveryId })
+          : new SubscriptionDeliveryNotFoundError({ deliveryId })
+      }).pipe(Effect.annotateLogs("service", "SubscriptionDispatcher"))
+
+    /**
+     * Send a delivery claimed with claim
+     */
+    const redeliver = (deliveryId: string) =>
+      Effect.gen(function* () {
+        const [row] = yield* drizzle
+          .select({ delivery: db.webhookDeliveries, subscription: db.webhookSubscriptions })
+          .from(db.webhookDeliveries)
+          .innerJoin(db.webhookSubscriptions, eq(db.webhookSubscriptions.id, db.webhookDeliveries.subscriptionId))
+          .where(eq(db.webhookDeliveries.id, deliveryId))
+          .pipe(withQuerySpan("subscriptions.get_delivery"))
+
+        if (!row) {
+          return yield* new SubscriptionDeliveryNotFoundError({ deliveryId })
+        }
+
+        return yield* send(row.delivery, row.subscription)
+      }).pipe(Effect.annotateLogs("service", "SubscriptionDispatcher"))
+
+    return { fetchStored, sendPending, claim, redeliver }
+  }),
+}) {}
+
+/**
+ * Node's HTTP client, whose agents resolve hosts with publicOnlyLookup so each connection goes
+ * to an address that was checked (see webhooks/destination.ts), unless
+ * SUBSCRIPTION_ALLOW_PRIVATE_NETWORKS is set
+ */
+const SubscriptionHttpClientLive = Layer.unwrapEffect(
+  getSubscriptionSettings.pipe(
+    Effect.map((settings) =>
+      NodeHttpClient.layerWithoutAgent.pipe(
+        Layer.provide(
+          NodeHttpClient.makeAgentLayer(settings.allowPrivateNetworks ? {} : { lookup: publicOnlyLookup })
+        )
+      )
+    )
+  )
+)
+
+/**
+ * SubscriptionDispatcher with its own HTTP client: deliveries bypass HTTP_FIXTURES_MODE
+ */
+export const SubscriptionDispatcherLive = SubscriptionDispatcher.Default.pipe(
+  Layer.provide(Layer.mergeAll(SubscriptionHttpClientLive, DatabaseLive))
+)
@@ -0,0 +1,26 @@
+/**
+ * Subscription webhook payloads
+ * A stored fetch sends each subscription the changes that pass its filters, split into
+ * batches of at most SUBSCRIPTION_BATCH_SIZE changes, one delivery each.
+ */
+
+import type { SubscriptionChange } from "./changes"
+
+export const SUBSCRIPTION_BATCH_SIZE = 1000
+
+export interface SubscriptionPayload {
+  /** The delivery id, kept by retries and redeliveries, for receivers to deduplicate */
+  readonly id: string
+  readonly subscriptionId: string
+  readonly provider: string
+  readonly fetchId: number
+  readonly createdAt: string
+  /** Position among the fetch's batches for this subscription, from 0 */
+  readonly batch: { readonly index: number; readonly count: number }
+  readonly events: ReadonlyArray<SubscriptionChange>
+}
+
+export const toBatches = <A>(items: ReadonlyArray<A>, size = SUBSCRIPTION_BATCH_SIZE) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size))
+
+export const encodeSubscriptionPayload = (payload: unknown) => JSON.stringify(payload)
@@ -0,0 +1,24 @@
+/**
+ * Subscription settings
+ * Anyone can register a subscription, so callback URLs are restricted to public https
+ * endpoints and the number of subscriptions is capped, per callback host and overall.
+ */
+
+import { Config } from "effect"
+
+/**
+ * Overridable with SUBSCRIPTION_MAX_PER_HOST and SUBSCRIPTION_MAX_TOTAL
+ */
+export const SUBSCRIPTION_LIMITS = {
+  perHost: 10,
+  total: 1000,
+}
+
+export const getSubscriptionSettings = Config.all({
+  // Plain http callbacks are for local development
+  allowHttp: Config.boolean("SUBSCRIPTION_ALLOW_HTTP").pipe(Config.withDefault(false)),
+  // So are callbacks on localhost or the private network (see webhooks/destination.ts)
+  allowPrivateNetworks: Config.boolean("SUBSCRIPTION_ALLOW_PRIVATE_NETWORKS").pipe(Config.withDefault(false)),
+  maxPerHost: Config.integer("SUBSCRIPTION_MAX_PER_HOST").pipe(Config.withDefault(SUBSCRIPTION_LIMITS.perHost)),
+  maxTotal: Config.integer("SUBSCRIPTION_MAX_TOTAL").pipe(Config.withDefault(SUBSCRIPTION_LIMITS.total)),
+})
@@ -0,0 +1,42 @@
+import * as NodeSdk from "@effect/opentelemetry/NodeSdk"
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http"
+import { BatchSpanProcessor, ConsoleSpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base"
+import { Config, Effect, Layer } from "effect"
+
+/**
+ * OpenTelemetry tracer layer for the configured exporter
+ *
+ * Spans come from Effect.withSpan around the provider fetch pipeline (provider.fetch,
+ * http.fetchJson, storage.storeProviderData, chains.enrich), the API service methods and
+ * their named queries, plus one sql.execute span per statement from @effect/sql.
+ * Spans are flushed when the layer's scope closes (at the end of each API request or job).
+ *
+ * Environment variables:
+ * - OTEL_TRACES_EXPORTER: none (default), otlp or console
+ * - OTEL_EXPORTER_OTLP_ENDPOINT: collector base URL (default: http://localhost:4318, OTLP over HTTP);
+ *   OTEL_EXPORTER_OTLP_TRACES_ENDPOINT and OTEL_EXPORTER_OTLP_HEADERS are read by the exporter too
+ * - OTEL_SERVICE_NAME: service.name resource attribute (default: interop-token-aggregator);
+ *   OTEL_RESOURCE_ATTRIBUTES adds others
+ */
+export const TracingLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const exporter = yield* Config.literal("none", "otlp", "console")("OTEL_TRACES_EXPORTER").pipe(
+      Config.withDefault("none" as const)
+    )
+    const serviceName = yield* Config.string("OTEL_SERVICE_NAME").pipe(
+      Config.withDefault("interop-token-aggregator")
+    )
+
+    if (exporter === "none") {
+      return Layer.empty
+    }
+
+    return NodeSdk.layer(() => ({
+      resource: { serviceName },
+      spanProcessor:
+        exporter === "console"
+          ? new SimpleSpanProcessor(new ConsoleSpanExporter())
+          : new BatchSpanProcessor(new OTLPTraceExporter()),
+    }))
+  })
+)
@@ -0,0 +1,19 @@
+import { Effect } from "effect"
+
+/**
+ * Span attributes without the undefined ones (exporters would record them as "undefined")
+ */
+export const spanAttributes = (attributes: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined))
+
+/**
+ * Span around a named database query, with the number of rows it returned
+ * The statement itself gets a child sql.execute span from @effect/sql.
+ */
+export const withQuerySpan =
+  (name: string) =>
+  <A extends ReadonlyArray<unknown>, E, R>(query: Effect.Effect<A, E, R>) =>
+    query.pipe(
+      Effect.tap((rows) => Effect.annotateCurrentSpan("db.rows", rows.length)),
+      Effect.withSpan(`db.${name}`, { attributes: { "db.query.name": name } })
+    )
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { NodeHttpClient } from "@effect/platform-node"
+import { HttpClient } from "@effect/platform"
+import { Effect } from "effect"
+import * as http from "node:http"
+import type { AddressInfo } from "node:net"
+import {
+  type WebhookRequest,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  deliverWebhook,
+  signWebhookPayload,
+} from "./delivery"
+
+interface Received {
+  readonly headers: http.IncomingHttpHeaders
+  readonly body: string
+}
+
+let server: http.Server | undefined
+
+afterEach(async () => {
+  const open = server
+  server = undefined
+  if (open) {
+    await new Promise((resolve) => open.close(resolve))
+  }
+})
+
+/**
+ * A local receiver answering with the given statuses in turn (the last one repeating)
+ */
+const listen = async (statuses: ReadonlyArray<number>) => {
+  const received: Array<Received> = []
+  const receiver = http.createServer((request, response) => {
+    let body = ""
+    request.setEncoding("utf8")
+    request.on("data", (chunk: string) => (body += chunk))
+    request.on("end", () => {
+      received.push({ headers: request.headers, body })
+      response.statusCode = statuses[Math.min(received.length, statuses.length) - 1]
+      response.end()
+    })
+  })
+  server = receiver
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve))
+  const { port } = receiver.address() as AddressInfo
+  return { url: `http://127.0.0.1:${port}/hooks`, received }
+}
+
+const deliver = (request: WebhookRequest) =>
+  Effect.runPromise(
+    HttpClient.HttpClient.pipe(
+      Effect.flatMap((client) =>
+        deliverWebhook(client, request, { timeout: "5 seconds", maxRetries: 2, baseDelay: "1 millis" })
+      ),
+      Effect.provide(NodeHttpClient.layerUndici)
+    )
+  )
+
+describe("deliverWebhook", () => {
+  it("signs the timestamp and body with the receiver's secret", async () => {
+    const { url, received } = await listen([200])
+    const body = JSON.stringify({ type: "token.added", symbol: "USDC" })
+
+    const delivery = await deliver({ url, body, secret: "s3cret" })
+
+    expect(delivery).toMatchObject({ success: true, attempts: 1, status: 200, error: null })
+    const [{ headers, body: sent }] = received
+    expect(sent).toBe(body)
+    expect(headers["content-type"]).toBe("application/json")
+    const timestamp = Number(headers[WEBHOOK_TIMESTAMP_HEADER])
+    expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(signWebhookPayload("s3cret", timestamp, body))
+  })
+
+  it("leaves requests unsigned without a secret", async () => {
+    const { url, received } = await listen([200])
+    await deliver({ url, body: "{}" })
+    expect(received[0].headers[WEBHOOK_SIGNATURE_HEADER]).toBeUndefined()
+  })
+
+  it("retries 5xx responses until one succeeds", async () => {
+    const { url, received } = await listen([503, 200])
+
+    const delivery = await deliver({ url, body: "{}", secret: "s3cret" })
+
+    expect(delivery).toMatchObject({ success: true, attempts: 2, status: 200, retryable: false })
+    expect(delivery.log.map((attempt) => [attempt.status, attempt.error])).toEqual([
+      [503, "HTTP 503"],
+      [200, null],
+    ])
+    expect(received).toHaveLength(2)
+  })
+
+  it("gives up once retries are exhausted, leaving the failure retryable", async () => {
+    const { url, received } = await listen([500])
+
+    const delivery = await deliver({ url, body: "{}" })
+
+    expect(delivery).toMatchObject({ success: false, attempts: 3, status: 500, error: "HTTP 500", retryable: true })
+    expect(received).toHaveLength(3)
+  })
+
+  it("does not retry other 4xx responses", async () => {
+    const { url, received } = await listen([404])
+
+    const delivery = await deliver({ url, body: "{}" })
+
+    expect(delivery).toMatchObject({ success: false, attempts: 1, status: 404, retryable: false })
+    expect(received).toHaveLength(1)
+  })
+})
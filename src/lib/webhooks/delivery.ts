@@ -0,0 +1,239 @@
+/**
+ * Webhook delivery
+ * POSTs a JSON body to a URL, signed with HMAC-SHA256 when the receiver has a secret,
+ * retrying on 429, 5xx, timeouts and transport errors with exponential backoff.
+ * URLs must be valid absolute URLs (checked where receivers are configured); only their
+ * host is logged, as webhook URLs often embed a secret (e.g. Slack's).
+ * Receivers registered by API clients are delivered to with publicOnly (see destination.ts)
+ * and without response bodies in the outcome, which those clients can read.
+ */
+
+import { HttpClient, HttpClientError, HttpClientRequest } from "@effect/platform"
+import { Clock, Duration, Effect, Random } from "effect"
+import { createHmac } from "node:crypto"
+import { spanAttributes } from "../tracing/spans"
+import { checkWebhookDestination } from "./destination"
+
+/**
+ * Unix seconds of the attempt, covered by the signature so receivers can reject replays
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = "x-webhook-timestamp"
+
+/**
+ * sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the receiver's secret>
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature"
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+
+export interface WebhookRetryPolicy {
+  /** Timeout per attempt */
+  readonly timeout: Duration.DurationInput
+  /** Retries after the first attempt on 429, 5xx, timeouts and transport errors */
+  readonly maxRetries: number
+  /** Base delay for exponential backoff (doubled per retry, with full jitter) */
+  readonly baseDelay: Duration.DurationInput
+}
+
+export const DEFAULT_WEBHOOK_RETRY_POLICY: WebhookRetryPolicy = {
+  timeout: "10 seconds",
+  maxRetries: 3,
+  baseDelay: "1 second",
+}
+
+export interface WebhookRequest {
+  readonly url: string
+  /** JSON */
+  readonly body: string
+  /** Signs the request when set */
+  readonly secret?: string | null
+  readonly headers?: Readonly<Record<string, string>>
+  /**
+   * Refuse hosts resolving to non-public addresses, checked before every attempt
+   * The client must also connect through publicOnlyLookup (see destination.ts).
+   */
+  readonly publicOnly?: boolean
+  /** Add the start of error response bodies to error messages (default: status only) */
+  readonly includeResponseBody?: boolean
+}
+
+/**
+ * One request of a delivery
+ */
+export interface WebhookAttempt {
+  /** ISO 8601 */
+  readonly sentAt: string
+  /** Response status, null when none was received */
+  readonly status: number | null
+  readonly error: string | null
+  readonly durationMs: number
+}
+
+/**
+ * Outcome of a delivery, once retries are exhausted or it succeeded
+ */
+export interface WebhookDelivery {
+  readonly success: boolean
+  /** Attempts sent, including retries */
+  readonly attempts: number
+  /** Status of the last response, null when none was received */
+  readonly status: number | null
+  readonly error: string | null
+  /** Whether the last failure was one worth retrying (429, 5xx, timeout, transport error) */
+  readonly retryable: boolean
+  readonly durationMs: number
+  /** Every attempt, oldest first */
+  readonly log: ReadonlyArray<WebhookAttempt>
+}
+
+interface AttemptFailure {
+  readonly retryable: boolean
+  readonly status: number | null
+  readonly message: string
+}
+
+/**
+ * A client error without the URL: the errors' messages end with "(POST <url>)"
+ */
+const describeRequestError = (request: WebhookRequest, error: HttpClientError.HttpClientError) => {
+  const detail = error.description ?? errorCode(error.cause)
+  const message = detail ? `${error.reason} error: ${detail}` : `${error.reason} error`
+  return message.replaceAll(request.url, new URL(request.url).host)
+}
+
+/**
+ * The system error code (e.g. ECONNREFUSED) in an error's cause chain
+ */
+const errorCode = (cause: unknown): string | undefined => {
+  for (let current = cause, depth = 0; current instanceof Error && depth < 5; current = current.cause, depth++) {
+    if ("code" in current && typeof current.code === "string") {
+      return current.code
+    }
+  }
+  return undefined
+}
+
+const attempt = (client: HttpClient.HttpClient, request: WebhookRequest, policy: WebhookRetryPolicy) =>
+  Effect.gen(function* () {
+    if (request.publicOnly) {
+      yield* checkWebhookDestination(request.url).pipe(
+        Effect.mapError(
+          (error): AttemptFailure => ({
+            retryable: error.reason === "unresolved",
+            status: null,
+            message: error.message,
+          })
+        )
+      )
+    }
+
+    const timestamp = Math.floor((yield* Clock.currentTimeMillis) / 1000)
+    const headers: Record<string, string> = {
+      ...request.headers,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    }
+    if (request.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(request.secret, timestamp, request.body)
+    }
+
+    const response = yield* client
+      .execute(
+        HttpClientRequest.post(request.url, { headers }).pipe(
+          HttpClientRequest.bodyText(request.body, "application/json")
+        )
+      )
+      .pipe(
+        Effect.timeout(policy.timeout),
+        Effect.mapError(
+          (cause): AttemptFailure => ({
+            retryable: true,
+            status: null,
+            message: cause._tag === "TimeoutException" ? "Timed out" : describeRequestError(request, cause),
+          })
+        )
+      )
+
+    // Read the body either way, so the connection can be reused
+    const text = yield* response.text.pipe(Effect.orElseSucceed(() => ""))
+
+    if (response.status >= 200 && response.status < 300) {
+      return response.status
+    }
+
+    return yield* Effect.fail<AttemptFailure>({
+      retryable: response.status === 429 || response.status >= 500,
+      status: response.status,
+      message:
+        text && request.includeResponseBody
+          ? `HTTP ${response.status}: ${text.slice(0, 200)}`
+          : `HTTP ${response.status}`,
+    })
+  })
+
+/**
+ * Deliver a webhook, retrying per the policy
+ * Never fails: the outcome is returned for the caller to log or record.
+ */
+export const deliverWebhook = (
+  client: HttpClient.HttpClient,
+  request: WebhookRequest,
+  policy: WebhookRetryPolicy = DEFAULT_WEBHOOK_RETRY_POLICY
+): Effect.Effect<WebhookDelivery> =>
+  Effect.gen(function* () {
+    const startedAt = yield* Clock.currentTimeMillis
+    const baseDelayMs = Duration.toMillis(policy.baseDelay)
+    const log: Array<WebhookAttempt> = []
+
+    // One attempt, added to the log whatever its outcome
+    const logged = Effect.gen(function* () {
+      const sentAt = yield* Clock.currentTimeMillis
+      const result = yield* Effect.either(attempt(client, request, policy))
+      const entry = {
+        sentAt: new Date(sentAt).toISOString(),
+        durationMs: (yield* Clock.currentTimeMillis) - sentAt,
+      }
+      log.push(
+        result._tag === "Right"
+          ? { ...entry, status: result.right, error: null }
+          : { ...entry, status: result.left.status, error: result.left.message }
+      )
+      return yield* result
+    })
+
+    const send = (retry: number): Effect.Effect<Omit<WebhookDelivery, "durationMs" | "log">> =>
+      logged.pipe(
+        Effect.map((status) => ({ success: true, attempts: retry + 1, status, error: null, retryable: false })),
+        Effect.catchAll((failure) =>
+          Effect.gen(function* () {
+            if (!failure.retryable || retry >= policy.maxRetries) {
+              return {
+                success: false,
+                attempts: retry + 1,
+                status: failure.status,
+                error: failure.message,
+                retryable: failure.retryable,
+              }
+            }
+
+            // Full jitter: random delay up to the exponential backoff cap
+            const delayMs = Math.round((yield* Random.next) * baseDelayMs * 2 ** retry)
+            yield* Effect.logWarning(
+              `Webhook to ${new URL(request.url).host} failed (${failure.message}) - retry ${retry + 1}/${policy.maxRetries} in ${delayMs}ms`
+            )
+            yield* Effect.sleep(Duration.millis(delayMs))
+            return yield* send(retry + 1)
+          })
+        )
+      )
+
+    const delivery = yield* send(0)
+    const durationMs = (yield* Clock.currentTimeMillis) - startedAt
+    yield* Effect.annotateCurrentSpan(
+      spanAttributes({ attempts: delivery.attempts, status: delivery.status ?? undefined })
+    )
+
+    return { ...delivery, durationMs, log }
+  }).pipe(
+    Effect.withSpan("webhook.deliver", { attributes: { "server.address": new URL(request.url).host } })
+  )
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Exit } from "effect"
+import { checkWebhookDestination, isPublicAddress, publicOnlyLookup } from "./destination"
+
+describe("isPublicAddress", () => {
+  it.each([
+    ["0.0.0.0", "this network"],
+    ["127.0.0.1", "loopback"],
+    ["10.0.0.1", "RFC 1918"],
+    ["10.255.255.255", "last of 10/8"],
+    ["172.16.0.0", "first of 172.16/12"],
+    ["172.31.255.255", "last of 172.16/12"],
+    ["192.168.1.1", "RFC 1918"],
+    ["100.64.0.0", "first of carrier-grade NAT"],
+    ["100.127.255.255", "last of carrier-grade NAT"],
+    ["169.254.169.254", "cloud metadata"],
+    ["224.0.0.1", "multicast"],
+    ["255.255.255.255", "broadcast"],
+    ["::", "unspecified"],
+    ["::1", "loopback"],
+    ["::ffff:127.0.0.1", "IPv4-mapped loopback, dotted"],
+    ["::ffff:7f00:1", "IPv4-mapped loopback, hex"],
+    ["::FFFF:A9FE:A9FE", "IPv4-mapped metadata, hex in upper case"],
+    ["64:ff9b::7f00:1", "NAT64 loopback"],
+    ["2001:0:4136:e378::1", "Teredo"],
+    ["2002:7f00:1::", "6to4 of loopback"],
+    ["2001:db8::1", "documentation"],
+    ["fc00::1", "unique local"],
+    ["fdff:ffff::1", "unique local"],
+    ["fe80::1", "link-local"],
+    ["ff02::1", "multicast"],
+  ])("blocks %s (%s)", (address) => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+
+  it.each([
+    ["8.8.8.8", "public"],
+    ["11.0.0.0", "just after 10/8"],
+    ["172.15.255.255", "just before 172.16/12"],
+    ["172.32.0.0", "just after 172.16/12"],
+    ["100.63.255.255", "just before carrier-grade NAT"],
+    ["100.128.0.0", "just after carrier-grade NAT"],
+    ["::ffff:8.8.8.8", "IPv4-mapped public, dotted"],
+    ["::ffff:808:808", "IPv4-mapped public, hex"],
+    ["2606:4700::1111", "public"],
+    ["2001:4860::1", "just after Teredo"],
+  ])("allows %s (%s)", (address) => {
+    expect(isPublicAddress(address)).toBe(true)
+  })
+
+  it.each(["", "localhost", "example.com", "256.0.0.1", "1.2.3", "::ffff:zzzz:1", "[::1]"])(
+    "rejects %j, which is no IP address",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  )
+})
+
+describe("checkWebhookDestination", () => {
+  const check = (url: string) => Effect.runPromiseExit(checkWebhookDestination(url))
+
+  it.each(["http://127.0.0.1/hooks", "https://[::1]/hooks", "https://[::ffff:7f00:1]/", "http://169.254.169.254/"])(
+    "refuses %s",
+    async (url) => {
+      const exit = await check(url)
+      expect(Exit.isFailure(exit) && exit.cause._tag === "Fail" ? exit.cause.error.reason : undefined).toBe("private")
+    }
+  )
+
+  it("accepts public IP literals without resolving them", async () => {
+    expect(Exit.isSuccess(await check("https://8.8.8.8/hooks"))).toBe(true)
+    expect(Exit.isSuccess(await check("https://[2606:4700::1111]/hooks"))).toBe(true)
+  })
+})
+
+describe("publicOnlyLookup", () => {
+  it("refuses hosts resolving to loopback", async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+      publicOnlyLookup("localhost", { all: true }, (error) => resolve(error))
+    )
+    expect(error?.code).toBe("EPRIVATEADDRESS")
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Webhook destinations
+ * Receivers registered by API clients must be on the public internet: a callback URL
+ * resolving to loopback, private, link-local (including cloud metadata endpoints such as
+ * 169.254.169.254) or otherwise reserved addresses would let anyone reach the server's own
+ * network. Hosts are checked when a receiver is registered and again before every attempt,
+ * which rejects IP literals and gives a clear error early. That check can't stand alone: the
+ * connection resolves the host again, and a host with a zero TTL could answer the check with
+ * a public address and the connection with a private one (DNS rebinding). Deliveries
+ * therefore connect through publicOnlyLookup, which checks the addresses the socket actually
+ * connects to.
+ */
+
+import { Data, Effect } from "effect"
+import * as dns from "node:dns"
+import { lookup } from "node:dns/promises"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+
+export class WebhookDestinationError extends Data.TaggedError("WebhookDestinationError")<{
+  readonly host: string
+  /** unresolved: the DNS lookup failed, which may be temporary */
+  readonly reason: "unresolved" | "private"
+  readonly message: string
+}> {}
+
+const blocked = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, broadcast
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b::", 96], // NAT64 (embeds IPv4 addresses)
+  ["100::", 64], // Discard
+  ["2001::", 32], // Teredo (embeds IPv4 addresses)
+  ["2001:db8::", 32], // Documentation
+  ["2002::", 16], // 6to4 (embeds IPv4 addresses)
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv6")
+}
+
+/**
+ * The IPv4 address of an IPv4-mapped IPv6 address, in either form (::ffff:10.0.0.1 or
+ * ::ffff:a00:1, as URL normalizes it)
+ */
+const mappedIpv4 = (address: string) => {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (dotted) {
+    return dotted[1]
+  }
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address)
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)]
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+  }
+  return undefined
+}
+
+/**
+ * Whether an IP address is outside the blocked ranges
+ * IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export const isPublicAddress = (address: string) => {
+  const ipv4 = mappedIpv4(address)
+  if (ipv4) {
+    return !blocked.check(ipv4, "ipv4")
+  }
+  const family = isIP(address)
+  return family !== 0 && !blocked.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+/**
+ * Fail unless every address the URL's host resolves to is public
+ */
+export const checkWebhookDestination = (url: string) => {
+  // URL keeps IPv6 literals in brackets
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1")
+
+  return Effect.gen(function* () {
+    const addresses = isIP(host)
+      ? [host]
+      : yield* Effect.tryPromise({
+          try: () => lookup(host, { all: true, verbatim: true }),
+          catch: () =>
+            new WebhookDestinationError({ host, reason: "unresolved", message: `Could not resolve ${host}` }),
+        }).pipe(Effect.map((results) => results.map((result) => result.address)))
+
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+      return yield* new WebhookDestinationError({
+        host,
+        reason: "private",
+        message: `${host} resolves to a private, loopback or reserved address`,
+      })
+    }
+  }).pipe(Effect.withSpan("webhook.checkDestination", { attributes: { "server.address": host } }))
+}
+
+/**
+ * dns.lookup for the sockets deliveries connect with (see the agent options in
+ * subscriptions/dispatcher.ts): fails with EPRIVATEADDRESS unless every address the host
+ * resolves to is public, so the connection can only go to an address that passed the check
+ * Sockets skip the lookup for IP literals, which checkWebhookDestination rejects.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) =>
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, "")
+    }
+    if (addresses.length === 0 || !addresses.every((address) => isPublicAddress(address.address))) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to a private, loopback or reserved address`
+      )
+      refused.code = "EPRIVATEADDRESS"
+      return callback(refused, "")
+    }
+    return options.all
+      ? callback(null, addresses)
+      : callback(null, addresses[0].address, addresses[0].family)
+  })
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config"
+import { fileURLToPath } from "node:url"
+
+/**
+ * Unit tests for the pure parts of src/lib, next to the code they cover (*.test.ts)
+ * Nothing needs a database or the network: HTTP tests use local servers.
+ */
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+})